@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPermissionsForPaths } from '../../../utils/acl';
+import { AuthError, requireUser } from '../../../utils/auth';
+import { normalizeVirtualPath, StoragePathError } from '../../../utils/storage-path';
+
+// Effective permissions of the current user, e.g. ?path=/shared/team&path=/system
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { searchParams } = new URL(request.url);
+    const paths = searchParams.getAll('path');
+
+    if (paths.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one path is required' },
+        { status: 400 }
+      );
+    }
+
+    const permissions = await getPermissionsForPaths(user, paths.map(path => normalizeVirtualPath(path)));
+
+    return NextResponse.json({
+      success: true,
+      permissions
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof StoragePathError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error checking permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to check permissions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AclStore } from '../../utils/acl';
+import { AuthError, requireAdmin } from '../../utils/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const rules = await AclStore.list();
+
+    return NextResponse.json({
+      success: true,
+      rules
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing access rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to list access rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the complete rule set: { rules: [{ path, principal, permissions }] }
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    const { rules } = await request.json() as { rules?: unknown };
+    const saved = await AclStore.replace(rules);
+
+    console.log(`Access rules updated by ${admin.username} (${saved.length} rules)`);
+
+    return NextResponse.json({
+      success: true,
+      rules: saved
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating access rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to update access rules' },
+      { status: 500 }
+    );
+  }
+}
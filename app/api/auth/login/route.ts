@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserStore, createSessionToken, getSessionCookieOptions, SESSION_COOKIE } from '../../../utils/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json() as { username?: string; password?: string };
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await UserStore.verifyCredentials(username, password);
+    if (!user) {
+      console.warn(`Failed login attempt for user: ${username}`);
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    console.log(`User logged in: ${user.username}`);
+
+    const response = NextResponse.json({ success: true, user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), getSessionCookieOptions(request));
+    return response;
+
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionCookieOptions, SESSION_COOKIE } from '../../../utils/auth';
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', { ...getSessionCookieOptions(request), maxAge: 0 });
+  return response;
+}
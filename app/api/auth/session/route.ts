@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserStore, getSessionUser } from '../../../utils/auth';
+
+// Public endpoint: tells the login page whether someone is signed in and
+// whether the first-run admin still has to be created
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    const needsSetup = user ? false : (await UserStore.count()) === 0;
+
+    return NextResponse.json({
+      authenticated: Boolean(user),
+      user,
+      needsSetup
+    });
+
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return NextResponse.json(
+      { error: 'Failed to read session' },
+      { status: 500 }
+    );
+  }
+}
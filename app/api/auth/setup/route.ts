@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserStore, AuthError, createSessionToken, getSessionCookieOptions, SESSION_COOKIE } from '../../../utils/auth';
+
+// First-run flow: create the initial admin account. Only works while no
+// accounts exist, so it cannot be used to add admins later.
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json() as { username?: string; password?: string };
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await UserStore.create({ username, password, role: 'admin', onlyIfEmpty: true });
+
+    console.log(`Initial admin account created: ${user.username}`);
+
+    const response = NextResponse.json({ success: true, user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), getSessionCookieOptions(request));
+    return response;
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create admin account' },
+      { status: 500 }
+    );
+  }
+}
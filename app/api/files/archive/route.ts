@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { StoragePathError } from '../../../utils/storage-path';
+import { formatContentDisposition } from '../../../utils/file-response';
+import { AuthError, requireUser } from '../../../utils/auth';
+import { resolveArchiveItems, getArchiveName, streamArchive, ArchiveError } from '../../../utils/archive';
+
+// A ZIP of one folder or of several files and folders: ?path=/a&path=/b/c.txt.
+// The archive is written while it downloads, so its size is not known up front.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return createArchiveResponse(request, () => searchParams.getAll('path'));
+}
+
+// The same with the paths in the body, for selections too long for a URL:
+// a form with one `path` field per item, or JSON { paths: [...] }
+export async function POST(request: NextRequest) {
+  return createArchiveResponse(request, async () => {
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const { paths } = await request.json() as { paths?: string[] };
+      if (!Array.isArray(paths) || paths.some(path => typeof path !== 'string')) {
+        throw new ArchiveError('paths must be a list of paths', 400);
+      }
+      return paths;
+    }
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      throw new ArchiveError('Send the paths as a form or as JSON', 400);
+    }
+    return form.getAll('path').filter((path): path is string => typeof path === 'string');
+  });
+}
+
+async function createArchiveResponse(request: NextRequest, readPaths: () => string[] | Promise<string[]>) {
+  try {
+    const user = await requireUser(request);
+    const items = await resolveArchiveItems(user, await readPaths());
+    const fileName = getArchiveName(items);
+
+    console.log(`Archive request for ${items.map(item => item.virtualPath).join(', ')}`);
+
+    const archive = streamArchive(user, items);
+    async function* logErrors() {
+      try {
+        yield* archive;
+      } catch (error) {
+        // Headers are gone already; all the client sees is a broken download
+        if (!request.signal.aborted) {
+          console.error(`Archive ${fileName} failed:`, error);
+        }
+        throw error;
+      }
+    }
+
+    const body = Readable.toWeb(Readable.from(logErrors())) as unknown as ReadableStream;
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': formatContentDisposition('attachment', fileName),
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof StoragePathError || error instanceof AuthError || error instanceof ArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Archive error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create archive' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateBatch, runBatch, BatchError } from '../../../utils/batch-operations';
+import { AuthError, requireUser } from '../../../utils/auth';
+import { scheduleIndexUpdate, scheduleIndexMove } from '../../../utils/content-index';
+
+// Delete, move or copy several items: { action, paths, destination? }.
+// Every item gets its own result; the request only fails as a whole when it is malformed.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const body = await request.json() as { action?: unknown; paths?: unknown; destination?: unknown };
+    const { action, paths, destination } = validateBatch(body.action, body.paths, body.destination);
+
+    const results = await runBatch(user, action, paths, destination);
+    for (const result of results) {
+      if (!result.success) continue;
+      if (action === 'move' && result.target && result.target !== result.path) {
+        scheduleIndexMove(result.path, result.target);
+      } else {
+        scheduleIndexUpdate(result.target ?? result.path);
+      }
+    }
+
+    const failed = results.filter(result => !result.success).length;
+    console.log(`Batch ${action} of ${results.length} item(s) by ${user.username}: ${results.length - failed} succeeded, ${failed} failed`);
+
+    return NextResponse.json({
+      success: true,
+      action,
+      results,
+      succeeded: results.length - failed,
+      failed
+    });
+
+  } catch (error) {
+    if (error instanceof BatchError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Batch operation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run batch operation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { stat } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import { resolveStoragePath, StoragePathError } from '../../../utils/storage-path';
+import { requirePermission } from '../../../utils/acl';
+import { AuthError } from '../../../utils/auth';
+
+// SHA-256 of a stored file, read back from disk so it can be compared with
+// the checksum of the original
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filePath = searchParams.get('path');
+
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    const { virtualPath, absolutePath } = await resolveStoragePath(filePath);
+    await requirePermission(request, virtualPath, 'read');
+
+    const stats = await stat(absolutePath).catch(() => null);
+    if (!stats?.isFile()) {
+      return NextResponse.json(
+        { error: 'File not found or not accessible' },
+        { status: 404 }
+      );
+    }
+
+    const hash = createHash('sha256');
+    for await (const data of createReadStream(absolutePath)) {
+      hash.update(data);
+    }
+
+    return NextResponse.json({
+      success: true,
+      path: virtualPath,
+      size: stats.size,
+      sha256: hash.digest('hex')
+    });
+
+  } catch (error) {
+    if (error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Checksum error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute checksum' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { copyEntry, toFileOperationResponse } from '../../../utils/file-operations';
+import { requireUser } from '../../../utils/auth';
+import { scheduleIndexUpdate } from '../../../utils/content-index';
+
+// Copy a file or folder into another folder: { path, destination }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { path, destination } = await request.json() as { path?: string; destination?: string };
+
+    const result = await copyEntry(user, path || '', destination || '/');
+    scheduleIndexUpdate(result.path);
+
+    console.log(`Copied ${result.source} to ${result.path} by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Copied successfully',
+      ...result
+    });
+
+  } catch (error) {
+    return toFileOperationResponse(error, 'Failed to copy');
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { unlink, access } from 'fs/promises';
-import { join } from 'path';
-import { NAS_CONFIG } from '../../../config/nas';
+import { resolveStoragePath, StoragePathError } from '../../../utils/storage-path';
+import { RecycleBin, RecycleBinError } from '../../../utils/recycle-bin';
+import { requirePermission } from '../../../utils/acl';
+import { AuthError } from '../../../utils/auth';
+import { scheduleIndexUpdate } from '../../../utils/content-index';
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -15,35 +17,37 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Sanitize the file path
-    const sanitizedPath = filePath.replace(/\.\./g, '').replace(/\/+/g, '/');
-    const fullFilePath = join(NAS_CONFIG.STORAGE_PATH, sanitizedPath);
+    // Resolve the file path inside the storage root
+    const { virtualPath: sanitizedPath, absolutePath: fullFilePath } = await resolveStoragePath(filePath);
     
-    console.log(`Delete request for file: ${fullFilePath}`);
-    
-    // Check if file exists and is accessible
-    try {
-      await access(fullFilePath);
-    } catch (error) {
-      console.error('File not accessible:', error);
+    if (sanitizedPath === '/') {
       return NextResponse.json(
-        { error: 'File not found or not accessible' },
-        { status: 404 }
+        { error: 'The storage root cannot be deleted' },
+        { status: 400 }
       );
     }
     
-    // Delete the file
-    await unlink(fullFilePath);
+    const user = await requirePermission(request, sanitizedPath, 'delete');
+    
+    console.log(`Delete request for: ${fullFilePath} by ${user.username}`);
     
-    console.log(`Successfully deleted file: ${fullFilePath}`);
+    // Files and folders go to the recycle bin of their volume
+    const entry = await RecycleBin.moveToTrash(user, sanitizedPath);
+    scheduleIndexUpdate(sanitizedPath);
+    
+    console.log(`Moved ${fullFilePath} to the trash as ${entry.id}`);
     
     return NextResponse.json({
       success: true,
-      message: 'File deleted successfully',
-      deletedPath: sanitizedPath
+      message: `${entry.isDirectory ? 'Folder' : 'File'} moved to the trash`,
+      deletedPath: sanitizedPath,
+      trashId: entry.id
     });
     
   } catch (error) {
+    if (error instanceof StoragePathError || error instanceof AuthError || error instanceof RecycleBinError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Delete error:', error);
     return NextResponse.json(
       { error: 'Failed to delete file' },
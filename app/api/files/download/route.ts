@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { readFile, access } from 'fs/promises';
-import { join } from 'path';
-import { NAS_CONFIG } from '../../../config/nas';
+import { stat } from 'fs/promises';
+import { resolveStoragePath, StoragePathError } from '../../../utils/storage-path';
+import { createFileResponse } from '../../../utils/file-response';
+import { requirePermission } from '../../../utils/acl';
+import { AuthError } from '../../../utils/auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,15 +17,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Sanitize the file path
-    const sanitizedPath = filePath.replace(/\.\./g, '').replace(/\/+/g, '/');
-    const fullFilePath = join(NAS_CONFIG.STORAGE_PATH, sanitizedPath);
+    // Resolve the file path inside the storage root
+    const { virtualPath: sanitizedPath, absolutePath: fullFilePath } = await resolveStoragePath(filePath);
+    await requirePermission(request, sanitizedPath, 'read');
     
     console.log(`Download request for file: ${fullFilePath}`);
     
     // Check if file exists and is accessible
+    let stats;
     try {
-      await access(fullFilePath);
+      stats = await stat(fullFilePath);
     } catch (error) {
       console.error('File not accessible:', error);
       return NextResponse.json(
@@ -32,23 +35,29 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    // Read the file
-    const fileBuffer = await readFile(fullFilePath);
+    if (!stats.isFile()) {
+      return NextResponse.json(
+        { error: 'File not found or not accessible' },
+        { status: 404 }
+      );
+    }
     
     // Get filename from path
     const fileName = sanitizedPath.split('/').pop() || 'download';
+    // ?inline=1 lets the browser display the file (the preview modal) instead of saving it
+    const disposition = searchParams.get('inline') === '1' ? 'inline' : 'attachment';
     
-    // Create response with appropriate headers
-    const response = new NextResponse(fileBuffer);
-    response.headers.set('Content-Type', 'application/octet-stream');
-    response.headers.set('Content-Disposition', `attachment; filename="${fileName}"`);
-    response.headers.set('Content-Length', fileBuffer.length.toString());
+    // Stream the file (or the requested byte ranges) straight from disk
+    const response = createFileResponse(request, fullFilePath, stats, { fileName, disposition });
     
-    console.log(`Successfully serving file: ${fileName} (${fileBuffer.length} bytes)`);
+    console.log(`Serving file: ${fileName} (${stats.size} bytes, status ${response.status})`);
     
     return response;
     
   } catch (error) {
+    if (error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Download error:', error);
     return NextResponse.json(
       { error: 'Failed to download file' },
@@ -56,3 +65,6 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// Download managers probe size and range support with HEAD before fetching
+export const HEAD = GET;
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDirectory, toFileOperationResponse } from '../../../utils/file-operations';
+import { requireUser } from '../../../utils/auth';
+
+// Create a folder: { path: <parent folder>, name }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { path, name } = await request.json() as { path?: string; name?: string };
+
+    const result = await createDirectory(user, path || '/', name || '');
+
+    console.log(`Folder created: ${result.path} by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Folder created successfully',
+      ...result
+    });
+
+  } catch (error) {
+    return toFileOperationResponse(error, 'Failed to create folder');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moveEntry, toFileOperationResponse } from '../../../utils/file-operations';
+import { requireUser } from '../../../utils/auth';
+import { scheduleIndexMove } from '../../../utils/content-index';
+
+// Move a file or folder into another folder: { path, destination }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { path, destination } = await request.json() as { path?: string; destination?: string };
+
+    const result = await moveEntry(user, path || '', destination || '/');
+    if (result.source && result.source !== result.path) {
+      scheduleIndexMove(result.source, result.path);
+    }
+
+    console.log(`Moved ${result.source} to ${result.path} by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Moved successfully',
+      ...result
+    });
+
+  } catch (error) {
+    return toFileOperationResponse(error, 'Failed to move');
+  }
+}
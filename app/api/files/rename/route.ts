@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renameEntry, toFileOperationResponse } from '../../../utils/file-operations';
+import { requireUser } from '../../../utils/auth';
+import { scheduleIndexMove } from '../../../utils/content-index';
+
+// Rename a file or folder in place: { path, newName }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { path, newName } = await request.json() as { path?: string; newName?: string };
+
+    const result = await renameEntry(user, path || '', newName || '');
+    if (result.source && result.source !== result.path) {
+      scheduleIndexMove(result.source, result.path);
+    }
+
+    console.log(`Renamed ${result.source} to ${result.path} by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Renamed successfully',
+      ...result
+    });
+
+  } catch (error) {
+    return toFileOperationResponse(error, 'Failed to rename');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { basename } from 'path';
+import { normalizeVirtualPath, StoragePathError } from '../../../utils/storage-path';
+import { createFileResponse } from '../../../utils/file-response';
+import { requirePermission } from '../../../utils/acl';
+import { AuthError } from '../../../utils/auth';
+import { getThumbnail, parseThumbnailSize, ThumbnailError, THUMBNAIL_SIZES } from '../../../utils/thumbnails';
+
+// A WebP preview of an image or the first page of a PDF: ?path=&size=small|medium|large
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filePath = searchParams.get('path');
+
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    const size = parseThumbnailSize(searchParams.get('size'));
+    if (!size) {
+      return NextResponse.json(
+        { error: `Size must be one of: ${Object.keys(THUMBNAIL_SIZES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const virtualPath = normalizeVirtualPath(filePath);
+    await requirePermission(request, virtualPath, 'read');
+
+    const thumbnail = await getThumbnail(virtualPath, size);
+
+    return createFileResponse(request, thumbnail.filePath, thumbnail.stats, {
+      fileName: `${basename(virtualPath)}.webp`,
+      disposition: 'inline',
+      contentType: 'image/webp',
+      // The file list adds the file's mtime to the URL, so a cached copy never goes stale
+      extraHeaders: { 'Cache-Control': 'private, max-age=86400' }
+    });
+
+  } catch (error) {
+    if (error instanceof ThumbnailError || error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Thumbnail error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create thumbnail' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FolderPins, FolderTreeError } from '../../../utils/folder-tree';
+import { AuthError, requireAdmin, requireUser } from '../../../utils/auth';
+import { StoragePathError } from '../../../utils/storage-path';
+
+// Pinned folders the current user can open, in display order
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const pins = await FolderPins.list(user);
+
+    return NextResponse.json({
+      success: true,
+      pins
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing pinned folders:', error);
+    return NextResponse.json(
+      { error: 'Failed to list pinned folders' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the complete list: { pins: [{ path, name, icon }] }
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    const { pins } = await request.json() as { pins?: unknown };
+    const saved = await FolderPins.replace(pins);
+
+    console.log(`Pinned folders updated by ${admin.username} (${saved.length} pins)`);
+
+    return NextResponse.json({
+      success: true,
+      pins: saved
+    });
+
+  } catch (error) {
+    if (error instanceof FolderTreeError || error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating pinned folders:', error);
+    return NextResponse.json(
+      { error: 'Failed to update pinned folders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSubfolders, FolderTreeError } from '../../utils/folder-tree';
+import { requirePermission } from '../../utils/acl';
+import { AuthError } from '../../utils/auth';
+import { normalizeVirtualPath, StoragePathError } from '../../utils/storage-path';
+
+// One level of the folder tree, loaded as the Sidebar expands it: ?path=/shared
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const path = normalizeVirtualPath(searchParams.get('path') || '/');
+    const user = await requirePermission(request, path, 'read');
+    const folders = await listSubfolders(user, path);
+
+    return NextResponse.json({
+      success: true,
+      path,
+      folders
+    });
+
+  } catch (error) {
+    if (error instanceof FolderTreeError || error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing folders:', error);
+    return NextResponse.json(
+      { error: 'Failed to list folders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobRegistry, JobError } from '../../../utils/jobs';
+import { AuthError, requireUser } from '../../../utils/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// One job with its progress
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const user = await requireUser(request);
+
+    return NextResponse.json({
+      success: true,
+      job: JobRegistry.get(user, id)
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to get job');
+  }
+}
+
+// Cancel a running job, or remove a finished one from the list
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const user = await requireUser(request);
+    const job = JobRegistry.cancel(user, id);
+
+    console.log(`Job ${id} ${job.status === 'running' ? 'cancelled' : 'dismissed'} by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      job
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to cancel job');
+  }
+}
+
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof JobError || error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobRegistry, JobError } from '../../utils/jobs';
+import { startExtractJob, startCompressJob } from '../../utils/archive-jobs';
+import { ArchiveError } from '../../utils/archive';
+import { FileOperationError } from '../../utils/file-operations';
+import { QuotaError } from '../../utils/quota';
+import { ZipError } from '../../utils/zip-reader';
+import { StoragePathError } from '../../utils/storage-path';
+import { AuthError, requireUser } from '../../utils/auth';
+
+// The caller's jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    return NextResponse.json({
+      success: true,
+      jobs: JobRegistry.list(user)
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to list jobs');
+  }
+}
+
+// Start a job:
+//   { type: 'extract', path, destination? }
+//   { type: 'compress', paths, destination, name }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const body = await request.json() as {
+      type?: string;
+      path?: string;
+      paths?: string[];
+      destination?: string;
+      name?: string;
+    };
+
+    let job;
+    switch (body.type) {
+      case 'extract':
+        job = await startExtractJob(user, body.path || '', body.destination || undefined);
+        break;
+      case 'compress':
+        if (!Array.isArray(body.paths) || body.paths.some(path => typeof path !== 'string')) {
+          return NextResponse.json({ error: 'paths must be a list of paths' }, { status: 400 });
+        }
+        job = await startCompressJob(user, body.paths, body.destination || '/', body.name || '');
+        break;
+      default:
+        return NextResponse.json({ error: 'type must be extract or compress' }, { status: 400 });
+    }
+
+    console.log(`Job ${job.id} (${job.type} of ${job.sources.join(', ')}) started by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      job
+    }, { status: 202 });
+
+  } catch (error) {
+    return handleError(error, 'Failed to start job');
+  }
+}
+
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof QuotaError) {
+    return NextResponse.json({ error: error.message, quota: error.details }, { status: error.status });
+  }
+  if (error instanceof FileOperationError) {
+    return NextResponse.json({ error: error.message, conflict: error.conflictPath }, { status: error.status });
+  }
+  if (
+    error instanceof JobError ||
+    error instanceof ArchiveError ||
+    error instanceof ZipError ||
+    error instanceof StoragePathError ||
+    error instanceof AuthError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
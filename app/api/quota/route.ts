@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuotaSummary } from '../../utils/quota';
+import { AuthError, requireUser } from '../../utils/auth';
+
+// Usage and limits for the whole storage root and for the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const summary = await getQuotaSummary(user);
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading quota usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to read quota usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { stat } from 'fs/promises';
+import {
+  ShareStore,
+  ShareError,
+  assertShareAccess,
+  getShareCookieName,
+  resolveSharedPath
+} from '../../../../utils/shares';
+import { createFileResponse, includesFirstByte } from '../../../../utils/file-response';
+import { StoragePathError } from '../../../../utils/storage-path';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// Public: download the shared file, or a file inside a shared folder (?path=/sub/file)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const share = await ShareStore.getActive(token);
+    await assertShareAccess(share, request.cookies.get(getShareCookieName(token))?.value);
+
+    const { searchParams } = new URL(request.url);
+    const { virtualPath, absolutePath } = await resolveSharedPath(share, searchParams.get('path'));
+    const stats = await stat(absolutePath).catch(() => null);
+    if (!stats || !stats.isFile()) {
+      throw new ShareError('File not found', 404);
+    }
+
+    // Only count full downloads and the part of a ranged one that holds the
+    // first byte, so a download manager fetching ranges does not use up the
+    // limit. The ranges are the merged ones actually served, so a request
+    // like "bytes=1-,0-0" still counts. Recorded before the response opens
+    // the file, since a link that just ran out must not serve it.
+    if (request.method === 'GET' && includesFirstByte(request, stats)) {
+      await ShareStore.recordDownload(token);
+    }
+
+    const fileName = virtualPath.split('/').pop() || 'download';
+    const response = createFileResponse(request, absolutePath, stats, { fileName });
+
+    console.log(`Share link ${token} served ${virtualPath} (status ${response.status})`);
+
+    return response;
+
+  } catch (error) {
+    if (error instanceof ShareError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof StoragePathError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Share download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download file' },
+      { status: 500 }
+    );
+  }
+}
+
+export const HEAD = GET;
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import {
+  ShareStore,
+  ShareError,
+  StoredShare,
+  assertShareAccess,
+  createShareAccessToken,
+  getShareCookieName,
+  resolveSharedPath,
+  filterReadableByOwner
+} from '../../../utils/shares';
+import { StorageUtils } from '../../../config/nas';
+import { getMimeType } from '../../../utils/mime-types';
+import { joinVirtualPath, StoragePathError } from '../../../utils/storage-path';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// Public: describe a shared file, or list a folder of a shared folder (?path=/sub)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const share = await ShareStore.getActive(token);
+    await assertShareAccess(share, request.cookies.get(getShareCookieName(token))?.value);
+
+    const { searchParams } = new URL(request.url);
+    const { virtualPath, absolutePath } = await resolveSharedPath(share, searchParams.get('path'));
+    const stats = await stat(absolutePath).catch(() => null);
+    if (!stats) {
+      throw new ShareError('File not found', 404);
+    }
+
+    const relativePath = virtualPath === share.path ? '/' : virtualPath.slice(share.path.length);
+
+    if (!stats.isDirectory()) {
+      return NextResponse.json({
+        success: true,
+        share: describeShare(share),
+        file: {
+          name: virtualPath.split('/').pop(),
+          size: stats.size,
+          sizeFormatted: StorageUtils.formatSize(stats.size),
+          type: getMimeType(virtualPath),
+          modifiedAt: stats.mtime.toISOString()
+        }
+      });
+    }
+
+    // Hidden entries (including in-progress uploads) are never shared, nor is
+    // anything the owner cannot read
+    const items = (await readdir(absolutePath, { withFileTypes: true }))
+      .filter(item => !item.name.startsWith('.') && (item.isFile() || item.isDirectory()));
+    const readable = new Set(await filterReadableByOwner(share, items.map(item => joinVirtualPath(virtualPath, item.name))));
+
+    const entries = [];
+    for (const item of items) {
+      if (!readable.has(joinVirtualPath(virtualPath, item.name))) continue;
+
+      try {
+        const itemStats = await stat(join(absolutePath, item.name));
+        entries.push({
+          name: item.name,
+          path: joinVirtualPath(relativePath, item.name),
+          isDirectory: item.isDirectory(),
+          size: itemStats.size,
+          sizeFormatted: item.isDirectory() ? '' : StorageUtils.formatSize(itemStats.size),
+          type: item.isDirectory() ? 'directory' : getMimeType(item.name),
+          modifiedAt: itemStats.mtime.toISOString()
+        });
+      } catch (error) {
+        console.error(`Error reading shared entry ${item.name}:`, error);
+      }
+    }
+
+    entries.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+
+    return NextResponse.json({
+      success: true,
+      share: describeShare(share),
+      path: relativePath,
+      entries
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to open share link');
+  }
+}
+
+// Public: unlock a password protected link with { password }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const share = await ShareStore.getActive(token);
+    const { password } = await request.json() as { password?: string };
+
+    if (!password || !(await ShareStore.verifyPassword(share, password))) {
+      console.warn(`Wrong password for share link ${token}`);
+      return NextResponse.json(
+        { error: 'Incorrect password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true });
+    if (share.passwordHash) {
+      const untilExpiry = share.expiresAt ? Math.floor((Date.parse(share.expiresAt) - Date.now()) / 1000) : Infinity;
+      response.cookies.set(getShareCookieName(token), await createShareAccessToken(share), {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: new URL(request.url).protocol === 'https:',
+        path: `/api/s/${token}`,
+        maxAge: Math.max(1, Math.min(untilExpiry, 86400))
+      });
+    }
+    return response;
+
+  } catch (error) {
+    return handleError(error, 'Failed to unlock share link');
+  }
+}
+
+// Details a visitor may see; the location on the server stays private
+function describeShare(share: StoredShare) {
+  return {
+    name: share.path.split('/').pop(),
+    type: share.type,
+    owner: share.owner,
+    expiresAt: share.expiresAt,
+    remainingDownloads: share.maxDownloads === null ? null : share.maxDownloads - share.downloadCount
+  };
+}
+
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof ShareError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  if (error instanceof StoragePathError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveStoragePath, StoragePathError } from '../../../utils/storage-path';
+import { requirePermission } from '../../../utils/acl';
+import { AuthError } from '../../../utils/auth';
+import {
+  searchContent,
+  getContentIndexStatus,
+  ContentIndexError,
+  DEFAULT_CONTENT_SEARCH_LIMIT,
+  MAX_CONTENT_SEARCH_LIMIT
+} from '../../../utils/content-index';
+
+// Full-text search over indexed documents below a folder: ?q=&path=&limit=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Search text is required' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Number(searchParams.get('limit') || DEFAULT_CONTENT_SEARCH_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CONTENT_SEARCH_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be between 1 and ${MAX_CONTENT_SEARCH_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const { virtualPath: scope } = await resolveStoragePath(searchParams.get('path'));
+    const user = await requirePermission(request, scope, 'read');
+
+    const { hits, total } = await searchContent(user, query, { scope, limit });
+
+    return NextResponse.json({
+      success: true,
+      query,
+      hits,
+      total,
+      // Hits can be missing while the indexer is still working through the files
+      index: await getContentIndexStatus()
+    });
+
+  } catch (error) {
+    if (error instanceof ContentIndexError || error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Content search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search file contents' },
+      { status: 500 }
+    );
+  }
+}
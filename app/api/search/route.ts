@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveStoragePath, StoragePathError } from '../../utils/storage-path';
+import { requirePermission } from '../../utils/acl';
+import { AuthError } from '../../utils/auth';
+import {
+  parseSearchCriteria,
+  searchFiles,
+  SearchError,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT
+} from '../../utils/file-search';
+
+// Search by name and filters below a folder. The response is newline-delimited
+// JSON: one line per match as it is found, then {"done":true,"nextCursor":...}.
+// Pass nextCursor back as ?cursor= for the next page; it is null on the last one.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const criteria = parseSearchCriteria(searchParams);
+    const cursor = searchParams.get('cursor');
+
+    const limit = Number(searchParams.get('limit') || DEFAULT_SEARCH_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be between 1 and ${MAX_SEARCH_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const { virtualPath: scope } = await resolveStoragePath(searchParams.get('path'));
+    const user = await requirePermission(request, scope, 'read');
+    const results = searchFiles(user, scope, criteria, { after: cursor, signal: request.signal });
+    const encoder = new TextEncoder();
+
+    let count = 0;
+    let lastPath: string | null = null;
+
+    // Pulled one match at a time, so a slow reader slows the walk down and a closed connection stops it
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value: result, done } = await results.next();
+          if (done || count === limit) {
+            // One match past the page only tells us there is another page
+            if (!done) await results.return(undefined);
+            const nextCursor = done ? null : lastPath;
+            controller.enqueue(encoder.encode(JSON.stringify({ done: true, count, nextCursor }) + '\n'));
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(JSON.stringify(result) + '\n'));
+          lastPath = result.path;
+          count++;
+        } catch (error) {
+          console.error('Search error:', error);
+          controller.enqueue(encoder.encode(JSON.stringify({ done: true, count, error: 'Search failed' }) + '\n'));
+          controller.close();
+        }
+      },
+      async cancel() {
+        await results.return(undefined);
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof SearchError || error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ShareStore, ShareError } from '../../../utils/shares';
+import { AuthError, requireUser } from '../../../utils/auth';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// Revoke a link; only its owner or an admin may do so
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const user = await requireUser(request);
+    await ShareStore.revoke(token, user);
+
+    console.log(`Share link ${token} revoked by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Share link revoked'
+    });
+
+  } catch (error) {
+    if (error instanceof ShareError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
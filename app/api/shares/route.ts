@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ShareStore, ShareError } from '../../utils/shares';
+import { AuthError, requireUser } from '../../utils/auth';
+import { normalizeVirtualPath, StoragePathError } from '../../utils/storage-path';
+
+// The current user's share links, optionally only those for ?path=
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+
+    let shares = await ShareStore.list(user);
+    if (path) {
+      const virtualPath = normalizeVirtualPath(path);
+      shares = shares.filter(share => share.path === virtualPath);
+    }
+
+    return NextResponse.json({
+      success: true,
+      shares
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof StoragePathError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing share links:', error);
+    return NextResponse.json(
+      { error: 'Failed to list share links' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a link: { path, password?, expiresAt?, maxDownloads? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { path, password, expiresAt, maxDownloads } = await request.json() as {
+      path?: string;
+      password?: string;
+      expiresAt?: string | null;
+      maxDownloads?: number | null;
+    };
+
+    if (!path) {
+      return NextResponse.json(
+        { error: 'Path is required' },
+        { status: 400 }
+      );
+    }
+
+    const share = await ShareStore.create({ path, owner: user, password, expiresAt, maxDownloads });
+
+    console.log(`Share link ${share.token} created for ${share.path} by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      share
+    });
+
+  } catch (error) {
+    if (error instanceof ShareError || error instanceof AuthError || error instanceof StoragePathError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDiskUsage } from '../../utils/disk-usage';
+import { getPermissionsForPaths } from '../../utils/acl';
+import { AuthError, requireUser } from '../../utils/auth';
+
+// Capacity and free space of the disk holding the storage root, with the
+// space taken by each top-level folder the user can read
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const usage = await getDiskUsage();
+
+    const permissions = await getPermissionsForPaths(user, ['/', ...usage.folders.map(folder => folder.path)]);
+    const folders = usage.folders.filter(folder => permissions[folder.path].includes('read'));
+
+    return NextResponse.json({
+      success: true,
+      capacity: usage.capacity,
+      used: usage.used,
+      free: usage.free,
+      available: usage.available,
+      percentage: usage.percentage,
+      folders,
+      rootFiles: permissions['/'].includes('read') ? usage.rootFiles : undefined,
+      // Deleted items of every user; only admins see the total
+      trash: user.role === 'admin' ? usage.trash : undefined,
+      dedup: usage.dedup,
+      checkedAt: usage.checkedAt
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading disk usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to read disk usage' },
+      { status: 500 }
+    );
+  }
+}
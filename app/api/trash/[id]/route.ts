@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecycleBin, RecycleBinError } from '../../../utils/recycle-bin';
+import { StoragePathError } from '../../../utils/storage-path';
+import { AuthError, requireUser } from '../../../utils/auth';
+import { scheduleIndexUpdate } from '../../../utils/content-index';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Restore an item to its original location
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const user = await requireUser(request);
+    const entry = await RecycleBin.restore(user, id);
+    scheduleIndexUpdate(entry.originalPath);
+
+    console.log(`Restored ${entry.originalPath} from the trash by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Restored successfully',
+      path: entry.originalPath
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to restore item');
+  }
+}
+
+// Delete an item from the trash permanently
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const user = await requireUser(request);
+    await RecycleBin.purge(user, id);
+
+    console.log(`Trash item ${id} permanently deleted by ${user.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Permanently deleted'
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to delete item');
+  }
+}
+
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof RecycleBinError) {
+    return NextResponse.json({ error: error.message, conflict: error.conflictPath }, { status: error.status });
+  }
+  if (error instanceof StoragePathError || error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecycleBin } from '../../utils/recycle-bin';
+import { AuthError, requireUser } from '../../utils/auth';
+import { StorageUtils } from '../../config/nas';
+
+// List the trash: the caller's own deletions, or everything for admins
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const entries = await RecycleBin.list(user);
+
+    return NextResponse.json({
+      success: true,
+      entries: entries.map(entry => ({
+        ...entry,
+        sizeFormatted: StorageUtils.formatSize(entry.size)
+      })),
+      totalSize: entries.reduce((total, entry) => total + entry.size, 0)
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to list trash' },
+      { status: 500 }
+    );
+  }
+}
+
+// Empty the trash
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const purged = await RecycleBin.purgeAll(user);
+
+    console.log(`Trash emptied by ${user.username}: ${purged} item(s) removed`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Trash emptied',
+      purged
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error emptying trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to empty trash' },
+      { status: 500 }
+    );
+  }
+}
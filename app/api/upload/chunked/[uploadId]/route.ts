@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StorageUtils } from '../../../../config/nas';
+import { ChunkedUploadStore, ChunkedUploadError } from '../../../../utils/chunked-upload';
+import { joinVirtualPath, StoragePathError } from '../../../../utils/storage-path';
+import { requireUser, AuthError, SessionUser } from '../../../../utils/auth';
+import { reserveQuota, invalidateQuotaUsage, QuotaError } from '../../../../utils/quota';
+import { FileConflictError } from '../../../../utils/file-names';
+import { scheduleIndexUpdate } from '../../../../utils/content-index';
+
+interface RouteContext {
+  params: Promise<{ uploadId: string }>;
+}
+
+// Not covered by the middleware (see middleware.ts): check the session and
+// make sure the upload was started by the same user
+async function authorize(request: NextRequest, { params }: RouteContext): Promise<{ uploadId: string; user: SessionUser }> {
+  const { uploadId } = await params;
+  const user = await requireUser(request);
+  await ChunkedUploadStore.assertOwner(uploadId, user.username);
+  return { uploadId, user };
+}
+
+// Report which chunks the server already has, so an interrupted upload can resume
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId } = await authorize(request, { params });
+    const status = await ChunkedUploadStore.getStatus(uploadId);
+
+    return NextResponse.json({
+      success: true,
+      ...status
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to get upload status');
+  }
+}
+
+// Receive a single chunk; the raw request body is the chunk content
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId } = await authorize(request, { params });
+    const { searchParams } = new URL(request.url);
+    const chunkParam = searchParams.get('chunk');
+    const chunkIndex = chunkParam === null ? NaN : Number(chunkParam);
+
+    if (!Number.isInteger(chunkIndex)) {
+      return NextResponse.json(
+        { error: 'A numeric chunk index is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: 'Chunk body is required' },
+        { status: 400 }
+      );
+    }
+
+    const size = await ChunkedUploadStore.writeChunk(uploadId, chunkIndex, request.body);
+
+    return NextResponse.json({
+      success: true,
+      uploadId,
+      chunkIndex,
+      size
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to store chunk');
+  }
+}
+
+// Assemble all received chunks into the target folder
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId, user } = await authorize(request, { params });
+    const quota = await reserveQuota(user);
+    let result;
+    try {
+      result = await ChunkedUploadStore.finalize(uploadId, user, quota);
+    } finally {
+      quota.release();
+    }
+    const { session, fileName, appliedPolicy, sha256, verified, deduplicated } = result;
+    // A skipped, replaced or deduplicated file was counted as new space; measure again
+    if (deduplicated || appliedPolicy === 'skip' || appliedPolicy === 'overwrite') {
+      invalidateQuotaUsage();
+    }
+    if (appliedPolicy !== 'skip') {
+      scheduleIndexUpdate(joinVirtualPath(session.uploadPath, fileName));
+    }
+
+    console.log(`Finalized chunked upload ${uploadId} as ${joinVirtualPath(session.uploadPath, fileName)}${appliedPolicy ? ` (${appliedPolicy})` : ''}`);
+
+    const timestamp = Date.now();
+    return NextResponse.json({
+      success: true,
+      message: appliedPolicy === 'skip'
+        ? `Skipped ${session.fileName}: a file with that name already exists`
+        : `Successfully uploaded ${session.fileName}`,
+      files: [{
+        id: `${timestamp}_${uploadId.substring(0, 6)}`,
+        name: fileName,
+        originalName: session.fileName,
+        size: session.fileSize,
+        type: session.fileType,
+        path: joinVirtualPath(session.uploadPath, fileName),
+        uploadedAt: new Date(timestamp).toISOString(),
+        sizeFormatted: StorageUtils.formatSize(session.fileSize),
+        conflictPolicy: session.conflictPolicy || 'rename',
+        appliedPolicy,
+        sha256,
+        verified,
+        deduplicated
+      }],
+      uploadPath: session.uploadPath
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to finalize upload');
+  }
+}
+
+// Abandon an upload and discard its chunks
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId } = await authorize(request, { params });
+    await ChunkedUploadStore.abort(uploadId);
+    // Its declared size no longer counts against the quotas
+    invalidateQuotaUsage();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Upload aborted'
+    });
+
+  } catch (error) {
+    return handleError(error, 'Failed to abort upload');
+  }
+}
+
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof QuotaError) {
+    return NextResponse.json({ error: error.message, quota: error.details }, { status: error.status });
+  }
+  if (error instanceof ChunkedUploadError || error instanceof FileConflictError || error instanceof StoragePathError || error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
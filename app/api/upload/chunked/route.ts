@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { access } from 'fs/promises';
+import { NAS_CONFIG } from '../../../config/nas';
+import { ChunkedUploadStore, ChunkedUploadError } from '../../../utils/chunked-upload';
+import { resolveStoragePath, StoragePathError } from '../../../utils/storage-path';
+import { requireUser, AuthError } from '../../../utils/auth';
+import { assertPermission } from '../../../utils/acl';
+import { reserveQuota, QuotaError } from '../../../utils/quota';
+import { parseConflictPolicy, CONFLICT_POLICIES } from '../../../utils/file-names';
+import { ensureDirectoryPath, FileOperationError } from '../../../utils/file-operations';
+
+// Start a chunked upload session. The client then PUTs each chunk to
+// /api/upload/chunked/[uploadId]?chunk=N and POSTs to the same URL to finalize.
+export async function POST(request: NextRequest) {
+  try {
+    // Not covered by the middleware (see middleware.ts), so check the session here
+    const user = await requireUser(request);
+    const body = await request.json();
+    const { fileName, fileSize, fileType, path, folder, conflict, sha256 } = body as {
+      fileName?: string;
+      fileSize?: number;
+      fileType?: string;
+      path?: string;
+      // Subfolder of an uploaded folder, relative to path
+      folder?: string;
+      conflict?: string;
+      sha256?: string;
+    };
+
+    if (!fileName || typeof fileSize !== 'number') {
+      return NextResponse.json(
+        { error: 'fileName and fileSize are required' },
+        { status: 400 }
+      );
+    }
+    if (sha256 !== undefined && typeof sha256 !== 'string') {
+      return NextResponse.json(
+        { error: 'sha256 must be a string' },
+        { status: 400 }
+      );
+    }
+    if (folder !== undefined && typeof folder !== 'string') {
+      return NextResponse.json(
+        { error: 'folder must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Applied when the upload is finalized
+    const conflictPolicy = parseConflictPolicy(conflict);
+    if (!conflictPolicy) {
+      return NextResponse.json(
+        { error: `Conflict policy must be one of: ${CONFLICT_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Check if storage directory exists and is accessible
+    try {
+      await access(NAS_CONFIG.STORAGE_PATH);
+    } catch (error) {
+      console.error('Storage directory is not accessible:', error);
+      return NextResponse.json(
+        { error: `Storage directory ${NAS_CONFIG.STORAGE_PATH} is not accessible` },
+        { status: 500 }
+      );
+    }
+
+    // Validate upload path
+    let { virtualPath } = await resolveStoragePath(path);
+    await assertPermission(user, virtualPath, 'write');
+    // The session holds its declared size against the quotas until it is
+    // finalized, aborted or expires, so chunks never have to be turned away
+    const quota = await reserveQuota(user);
+    let session;
+    try {
+      quota.add(fileSize, 1);
+      if (folder) {
+        // Created now so the session finalizes into an existing folder
+        ({ virtualPath } = await ensureDirectoryPath(user, virtualPath, folder));
+      }
+      if (conflictPolicy === 'overwrite') {
+        // Replacing a file destroys the old one
+        await assertPermission(user, virtualPath, 'delete');
+      }
+
+      session = await ChunkedUploadStore.createSession({
+        fileName,
+        fileSize,
+        fileType,
+        uploadPath: virtualPath,
+        owner: user.username,
+        conflictPolicy,
+        sha256
+      });
+      // From now on the session's manifest is counted (see quota.ts)
+      await quota.commit([]);
+    } finally {
+      quota.release();
+    }
+
+    console.log(`Started chunked upload ${session.uploadId} for ${session.fileName} (${session.totalChunks} chunks)`);
+
+    return NextResponse.json({
+      success: true,
+      uploadId: session.uploadId,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      uploadPath: session.uploadPath,
+      conflictPolicy: session.conflictPolicy,
+      sha256: session.expectedSha256 || null
+    });
+
+  } catch (error) {
+    if (error instanceof QuotaError) {
+      return NextResponse.json({ error: error.message, quota: error.details }, { status: error.status });
+    }
+    if (error instanceof FileOperationError) {
+      return NextResponse.json({ error: error.message, conflict: error.conflictPath }, { status: error.status });
+    }
+    if (error instanceof ChunkedUploadError || error instanceof StoragePathError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error starting chunked upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to start chunked upload' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir, access, rename } from 'fs/promises';
-import { existsSync } from 'fs';
+import { mkdir, access } from 'fs/promises';
 import { join } from 'path';
 import { NAS_CONFIG, StorageUtils } from '../../config/nas';
+import { ChunkedUploadStore } from '../../utils/chunked-upload';
+import { RecycleBin } from '../../utils/recycle-bin';
+import { ContentStore } from '../../utils/content-store';
+import { collectThumbnailGarbage } from '../../utils/thumbnails';
+import { scheduleIndexUpdate } from '../../utils/content-index';
+import { receiveMultipartUpload, UploadError } from '../../utils/multipart-upload';
+import { resolveStoragePath, joinVirtualPath, StoragePathError } from '../../utils/storage-path';
+import { requireUser, requireAdmin, AuthError } from '../../utils/auth';
+import { assertPermission } from '../../utils/acl';
+import { reserveQuota, invalidateQuotaUsage, QuotaError } from '../../utils/quota';
+import { parseConflictPolicy, CONFLICT_POLICIES } from '../../utils/file-names';
+import { ensureDirectoryPath, FileOperationError } from '../../utils/file-operations';
 
 export async function POST(request: NextRequest) {
   try {
-    console.log('Starting file upload with Next.js FormData...');
+    // Not covered by the middleware (see middleware.ts), so check the session here
+    const user = await requireUser(request);
+    
+    console.log(`Starting streaming file upload for ${user.username}...`);
     
     // Get the upload path from query parameters
     const url = new URL(request.url);
     const uploadPath = url.searchParams.get('path') || '/';
+    // Subfolder of an uploaded folder, relative to the upload path
+    const folder = url.searchParams.get('folder') || '';
+    // How to handle names that already exist in the folder
+    const conflictPolicy = parseConflictPolicy(url.searchParams.get('conflict'));
+    if (!conflictPolicy) {
+      return NextResponse.json(
+        { error: `Conflict policy must be one of: ${CONFLICT_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
     
-    console.log(`Upload path: ${uploadPath}`);
-    
-    // Validate upload path
-    const sanitizedPath = uploadPath.replace(/\.\./g, '').replace(/\/+/g, '/');
-    const fullUploadPath = join(NAS_CONFIG.STORAGE_PATH, sanitizedPath);
-    
-    console.log(`Full upload path: ${fullUploadPath}`);
-    console.log(`Storage base path: ${NAS_CONFIG.STORAGE_PATH}`);
+    console.log(`Upload path: ${uploadPath}${folder ? ` + ${folder}` : ''} (on conflict: ${conflictPolicy})`);
     
     // Check if storage directory exists and is accessible
     try {
@@ -33,10 +50,22 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Validate upload path
+    let resolved;
+    try {
+      resolved = await resolveStoragePath(uploadPath);
+    } catch (error) {
+      if (error instanceof StoragePathError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      throw error;
+    }
+    await assertPermission(user, resolved.virtualPath, 'write');
+    
     // Create directory if it doesn't exist
     try {
-      await mkdir(fullUploadPath, { recursive: true });
-      console.log(`Created/verified upload directory: ${fullUploadPath}`);
+      await mkdir(resolved.absolutePath, { recursive: true });
+      console.log(`Created/verified upload directory: ${resolved.absolutePath}`);
     } catch (error) {
       console.error('Error creating directory:', error);
       return NextResponse.json(
@@ -45,73 +74,93 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Parse the multipart form data using Next.js built-in FormData
-    const formData = await request.formData();
-    const files = formData.getAll('files') as File[];
-    
-    if (!files || files.length === 0) {
-      return NextResponse.json(
-        { error: 'No files provided' },
-        { status: 400 }
-      );
+    // Recreate the folder structure of a dropped folder below the upload path
+    if (folder) {
+      try {
+        resolved = await ensureDirectoryPath(user, resolved.virtualPath, folder);
+      } catch (error) {
+        if (error instanceof FileOperationError) {
+          return NextResponse.json({ error: error.message, conflict: error.conflictPath }, { status: error.status });
+        }
+        if (error instanceof StoragePathError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+    const { virtualPath: sanitizedPath, absolutePath: fullUploadPath } = resolved;
+    if (conflictPolicy === 'overwrite') {
+      // Replacing a file destroys the old one
+      await assertPermission(user, sanitizedPath, 'delete');
     }
     
-    console.log(`Processing ${files.length} files...`);
-    
-    const uploadedFiles = [];
+    console.log(`Full upload path: ${fullUploadPath}`);
+    console.log(`Storage base path: ${NAS_CONFIG.STORAGE_PATH}`);
     
-    // Process uploaded files
-    for (const file of files) {
-      try {
-        console.log(`Processing file: ${file.name} (${file.size} bytes)`);
-        
-        // Generate unique filename to prevent conflicts
-        const timestamp = Date.now();
-        const randomSuffix = Math.random().toString(36).substring(2, 8);
-        const fileExtension = file.name.split('.').pop() || '';
-        const baseName = file.name.replace(/\.[^/.]+$/, '');
-        const uniqueFileName = `${baseName}_${timestamp}_${randomSuffix}.${fileExtension}`;
-        
-        const finalFilePath = join(fullUploadPath, uniqueFileName);
-        console.log(`File will be saved to: ${finalFilePath}`);
-        
-        // Convert File to Buffer and write to disk
-        const bytes = await file.arrayBuffer();
-        const buffer = Buffer.from(bytes);
-        
-        await writeFile(finalFilePath, buffer);
-        console.log(`Successfully wrote file: ${finalFilePath}`);
-        
-        uploadedFiles.push({
-          id: `${timestamp}_${randomSuffix}`,
-          name: uniqueFileName,
-          originalName: file.name,
-          size: file.size,
-          type: file.type,
-          path: `${sanitizedPath}/${uniqueFileName}`,
-          uploadedAt: new Date().toISOString(),
-          sizeFormatted: StorageUtils.formatSize(file.size)
-        });
-        
-      } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error);
+    // Stream each multipart file part straight to disk, within the storage quotas
+    const quota = await reserveQuota(user);
+    let receivedFiles;
+    try {
+      receivedFiles = await receiveMultipartUpload(request, fullUploadPath, quota, conflictPolicy);
+      await quota.commit(receivedFiles
+        .filter(file => file.appliedPolicy !== 'skip')
+        .map(file => join(fullUploadPath, file.fileName)));
+      // Skipped, replaced and deduplicated files were counted as new space; measure again
+      if (receivedFiles.some(file => file.deduplicated || file.appliedPolicy === 'skip' || file.appliedPolicy === 'overwrite')) {
+        invalidateQuotaUsage();
+      }
+    } catch (error) {
+      if (error instanceof QuotaError) {
+        console.error('Upload rejected:', error.message);
+        return NextResponse.json(
+          { error: error.message, quota: error.details },
+          { status: error.status }
+        );
+      }
+      if (error instanceof UploadError) {
+        console.error('Upload rejected:', error.message);
         return NextResponse.json(
-          { error: `Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}` },
-          { status: 500 }
+          { error: error.message },
+          { status: error.status }
         );
       }
+      throw error;
+    } finally {
+      quota.release();
     }
     
-    console.log(`Successfully uploaded ${uploadedFiles.length} files`);
+    const uploadedFiles = receivedFiles.map(file => ({
+      id: file.id,
+      name: file.fileName,
+      originalName: file.originalName,
+      size: file.size,
+      type: file.type,
+      path: joinVirtualPath(sanitizedPath, file.fileName),
+      uploadedAt: new Date().toISOString(),
+      sizeFormatted: StorageUtils.formatSize(file.size),
+      conflictPolicy,
+      appliedPolicy: file.appliedPolicy,
+      sha256: file.sha256,
+      verified: file.verified,
+      deduplicated: file.deduplicated
+    }));
+    const skippedCount = receivedFiles.filter(file => file.appliedPolicy === 'skip').length;
+    const storedCount = uploadedFiles.length - skippedCount;
+    scheduleIndexUpdate(...uploadedFiles.filter(file => file.appliedPolicy !== 'skip').map(file => file.path));
+    
+    console.log(`Successfully uploaded ${storedCount} files${skippedCount ? `, skipped ${skippedCount}` : ''}`);
     
     return NextResponse.json({
       success: true,
-      message: `Successfully uploaded ${uploadedFiles.length} file(s)`,
+      message: `Successfully uploaded ${storedCount} file(s)${skippedCount ? `, skipped ${skippedCount} existing` : ''}`,
       files: uploadedFiles,
       uploadPath: sanitizedPath
     });
     
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Upload error:', error);
     return NextResponse.json(
       { error: 'Internal server error during upload' },
@@ -120,8 +169,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    await requireUser(request);
+    
     // Check if storage directory exists
     let storageAccessible = false;
     try {
@@ -132,12 +183,16 @@ export async function GET() {
     }
 
     return NextResponse.json({
-      message: 'Upload endpoint is working with Next.js FormData',
+      message: 'Upload endpoint is working with streaming multipart uploads',
       config: {
         storagePath: NAS_CONFIG.STORAGE_PATH,
         maxFileSize: NAS_CONFIG.MAX_FILE_SIZE,
+        chunkSize: ChunkedUploadStore.getChunkSize(),
         maxTotalUploads: NAS_CONFIG.MAX_TOTAL_UPLOADS,
-        maxFilesCount: NAS_CONFIG.MAX_FILES_COUNT
+        maxFilesCount: NAS_CONFIG.MAX_FILES_COUNT,
+        userMaxUploads: NAS_CONFIG.USER_MAX_UPLOADS,
+        userMaxFilesCount: NAS_CONFIG.USER_MAX_FILES_COUNT,
+        conflictPolicies: CONFLICT_POLICIES
       },
       status: {
         storageAccessible,
@@ -145,6 +200,9 @@ export async function GET() {
       }
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error in GET /api/upload:', error);
     return NextResponse.json(
       { error: 'Failed to get upload status' },
@@ -153,15 +211,39 @@ export async function GET() {
   }
 }
 
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
-    console.log('Manual cleanup requested');
+    const admin = await requireAdmin(request);
+    console.log(`Manual cleanup requested by ${admin.username}`);
+    
+    // Discard chunked upload sessions that were abandoned mid-transfer
+    const removedSessions = await ChunkedUploadStore.cleanupStaleSessions();
+    console.log(`Removed ${removedSessions} stale upload session(s)`);
+    
+    // Apply the trash retention period right away instead of waiting for the hourly check
+    const purgedTrashItems = await RecycleBin.purgeExpired();
+    
+    // Drop deduplicated content that no file refers to any more
+    const collectedObjects = await ContentStore.collectGarbage();
+    
+    // Thumbnails of files that were deleted, moved or renamed
+    const removedThumbnails = await collectThumbnailGarbage();
+    
+    // Walk the whole tree again for the content index, in the background
+    scheduleIndexUpdate('/');
     
     return NextResponse.json({
       success: true,
-      message: 'Cleanup completed successfully'
+      message: 'Cleanup completed successfully',
+      removedSessions,
+      purgedTrashItems,
+      collectedObjects,
+      removedThumbnails
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error in cleanup endpoint:', error);
     return NextResponse.json(
       { error: 'Cleanup failed' },
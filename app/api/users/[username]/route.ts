@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  UserStore,
+  AuthError,
+  requireAdmin,
+  requireUser,
+  createSessionToken,
+  getSessionCookieOptions,
+  SESSION_COOKIE,
+  UserRole,
+  UserQuota
+} from '../../../utils/auth';
+
+interface RouteContext {
+  params: Promise<{ username: string }>;
+}
+
+// Admins can change anyone; other users may only change their own password
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { username } = await params;
+    const currentUser = await requireUser(request);
+    const { password, role, groups, quota } = await request.json() as {
+      password?: string;
+      role?: UserRole;
+      groups?: string[];
+      quota?: UserQuota | null;
+    };
+
+    const isSelfPasswordChange = currentUser.username === username && role === undefined && groups === undefined && quota === undefined;
+    if (!isSelfPasswordChange) {
+      await requireAdmin(request);
+    }
+    if (role && role !== 'admin' && role !== 'user') {
+      return NextResponse.json(
+        { error: 'Role must be "admin" or "user"' },
+        { status: 400 }
+      );
+    }
+
+    const user = await UserStore.update(username, { password, role, groups, quota });
+
+    const response = NextResponse.json({
+      success: true,
+      user
+    });
+    if (password !== undefined && currentUser.username === username) {
+      // A new password ends every existing session, so keep this one going
+      response.cookies.set(SESSION_COOKIE, await createSessionToken(user), getSessionCookieOptions(request));
+    }
+    return response;
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { username } = await params;
+    const admin = await requireAdmin(request);
+
+    await UserStore.remove(username);
+
+    console.log(`User ${username} removed by ${admin.username}`);
+
+    return NextResponse.json({
+      success: true,
+      message: `User "${username}" removed`
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error removing user:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserStore, AuthError, requireAdmin, UserRole } from '../../utils/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const users = await UserStore.list();
+
+    return NextResponse.json({
+      success: true,
+      users
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    const { username, password, role, groups } = await request.json() as {
+      username?: string;
+      password?: string;
+      role?: UserRole;
+      groups?: string[];
+    };
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+    if (role && role !== 'admin' && role !== 'user') {
+      return NextResponse.json(
+        { error: 'Role must be "admin" or "user"' },
+        { status: 400 }
+      );
+    }
+
+    const user = await UserStore.create({ username, password, role, groups });
+
+    console.log(`User ${user.username} created by ${admin.username}`);
+
+    return NextResponse.json({
+      success: true,
+      user
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
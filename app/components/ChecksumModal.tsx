@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface ChecksumModalProps {
+  isOpen: boolean;
+  item: { name: string; path: string } | null;
+  onClose: () => void;
+}
+
+export function ChecksumModal({ isOpen, item, onClose }: ChecksumModalProps) {
+  const [sha256, setSha256] = useState<string | null>(null);
+  const [expected, setExpected] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // The server reads the whole file, so this can take a while for large ones
+  useEffect(() => {
+    if (!isOpen || !item) return;
+    let cancelled = false;
+    setSha256(null);
+    setExpected('');
+    setError(null);
+
+    const loadChecksum = async () => {
+      try {
+        const response = await fetch(`/api/files/checksum?path=${encodeURIComponent(item.path)}`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to compute checksum');
+        }
+        if (!cancelled) setSha256(result.sha256);
+      } catch (error) {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to compute checksum');
+      }
+    };
+    loadChecksum();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, item]);
+
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen || !item) return null;
+
+  const copyChecksum = async () => {
+    if (!sha256) return;
+    try {
+      await navigator.clipboard.writeText(sha256);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      // Clipboard access needs a secure context; the checksum is still shown
+      console.error('Failed to copy checksum:', error);
+    }
+  };
+
+  const comparison = sha256 && expected.trim()
+    ? expected.trim().toLowerCase() === sha256
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-lg transform overflow-hidden rounded-lg bg-white dark:bg-slate-800 text-left shadow-xl transition-all">
+          {/* Header */}
+          <div className="bg-slate-50 dark:bg-slate-700 px-6 py-4">
+            <h3 className="text-lg font-medium text-slate-900 dark:text-slate-100 truncate">
+              Checksum of &quot;{item.name}&quot;
+            </h3>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-4 space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">SHA-256</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  readOnly
+                  value={sha256 || (error ? '' : 'Computing…')}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs font-mono rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300"
+                />
+                <button
+                  onClick={copyChecksum}
+                  disabled={!sha256}
+                  className="px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Compare with</label>
+              <input
+                type="text"
+                value={expected}
+                onChange={(e) => setExpected(e.target.value)}
+                placeholder="Paste a SHA-256 checksum"
+                className="w-full px-3 py-2 text-sm font-mono rounded-md border border-slate-300 dark:border-slate-500 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {comparison !== null && (
+                <p className={`mt-1 text-sm ${comparison ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {comparison ? '✅ Checksums match' : '❌ Checksums differ'}
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="bg-slate-50 dark:bg-slate-700 px-6 py-4 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-600 border border-slate-300 dark:border-slate-500 rounded-md hover:bg-slate-50 dark:hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,80 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useCallback, useEffect, useRef, MouseEvent } from 'react';
+import Image from 'next/image';
 import { ConfirmModal } from './ConfirmModal';
+import { ShareModal } from './ShareModal';
+import { PromptModal } from './PromptModal';
+import { ChecksumModal } from './ChecksumModal';
+import { PreviewModal } from './PreviewModal';
+import { getPreviewKind } from '../utils/preview';
+import { downloadArchive } from '../utils/download';
+import { getArchiveFormat } from '../utils/mime-types';
+import type { ListingSort, ListingSortKey } from '../utils/folder-listing';
+import type { BatchAction, BatchItemResult } from '../utils/batch-operations';
 
 interface FileListProps {
   files: any[];
   viewMode: 'grid' | 'list';
   currentPath: string;
   onFileDeleted?: (fileId: string) => void;
+  onFolderOpen?: (path: string) => void;
+  onFilesChanged?: () => void;
+  // Search results come from many folders; show each one's folder as a link
+  showLocation?: boolean;
+  emptyMessage?: string;
+  // List view headers sort by their column when onSortChange is given
+  sort?: ListingSort | null;
+  onSortChange?: (sort: ListingSort) => void;
+  // More entries are fetched when the end of the list scrolls into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Extract and compress run as server jobs; this tells the parent to watch them
+  onJobStarted?: () => void;
 }
 
-export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileListProps) {
+type ItemAction = 'rename' | 'move' | 'copy' | 'compress';
+
+// The fields of a listed file or folder the item actions rely on
+interface ListItem {
+  id: string;
+  name: string;
+  path: string;
+  isDirectory: boolean;
+}
+
+// Sizes and dates read best largest and newest first
+const SORT_COLUMNS: { key: ListingSortKey; label: string; firstOrder: ListingSort['order'] }[] = [
+  { key: 'name', label: 'File', firstOrder: 'asc' },
+  { key: 'size', label: 'Size', firstOrder: 'desc' },
+  { key: 'date', label: 'Modified', firstOrder: 'desc' },
+  { key: 'type', label: 'Type', firstOrder: 'asc' }
+];
+
+const ITEM_ACTIONS: { [action in ItemAction]: { title: string; label: string; confirmText: string } } = {
+  rename: { title: 'Rename', label: 'New name', confirmText: 'Rename' },
+  move: { title: 'Move', label: 'Destination folder', confirmText: 'Move' },
+  copy: { title: 'Copy', label: 'Destination folder', confirmText: 'Copy' },
+  compress: { title: 'Compress', label: 'Archive name (.zip, .tar or .tar.gz)', confirmText: 'Compress' }
+};
+
+export function FileList({
+  files,
+  viewMode,
+  currentPath,
+  onFileDeleted,
+  onFolderOpen,
+  onFilesChanged,
+  showLocation = false,
+  emptyMessage = 'This directory is empty. Upload some files to get started.',
+  sort = null,
+  onSortChange,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onJobStarted
+}: FileListProps) {
   const [deleteModal, setDeleteModal] = useState<{
     isOpen: boolean;
     file: any | null;
@@ -19,7 +83,58 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
     file: null
   });
 
+  const [shareItem, setShareItem] = useState<{ name: string; path: string } | null>(null);
+  const [checksumItem, setChecksumItem] = useState<ListItem | null>(null);
+  const [itemMenu, setItemMenu] = useState<{ file: ListItem; top: number; right: number } | null>(null);
+  const [itemAction, setItemAction] = useState<{ action: ItemAction; file: ListItem } | null>(null);
+  const [itemActionError, setItemActionError] = useState<string | null>(null);
+  // Files whose thumbnail could not be rendered fall back to their icon
+  const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(new Set());
+  // Index into previewItems of the file open in the preview modal
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  // Paths of the selected items; shift-click extends the selection from the anchor
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [bulkAction, setBulkAction] = useState<BatchAction | null>(null);
+  const [bulkActionError, setBulkActionError] = useState<string | null>(null);
+  const [isBulkActionRunning, setIsBulkActionRunning] = useState(false);
+  // Items the last bulk action could not change, with the reason
+  const [bulkFailures, setBulkFailures] = useState<BatchItemResult[]>([]);
+
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Ask for the next page once the end of the list comes near. Observing
+  // again after each page also catches a sentinel that is still visible.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some(entry => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
+  // A selection belongs to the folder it was made in
+  useEffect(() => {
+    setSelectedPaths(new Set());
+    setSelectionAnchor(null);
+    setBulkFailures([]);
+  }, [currentPath]);
+
+  // Folders always come first, whatever order entries were added in
+  const entries = [...files.filter(file => file.isDirectory), ...files.filter(file => !file.isDirectory)];
+  // Selected paths that are no longer listed (deleted, or a new search) are ignored
+  const selectedItems: ListItem[] = entries.filter(file => selectedPaths.has(file.path));
+  // Files the browser can show, in display order, for next/previous in the preview
+  const previewItems: ListItem[] = entries.filter(file => !file.isDirectory && getPreviewKind(file.name) !== null);
+
   const getFileIcon = (type: string): string => {
+    if (type === 'directory') return '📁';
     if (type.includes('image')) return '🖼️';
     if (type.includes('video')) return '🎬';
     if (type.includes('audio')) return '🎵';
@@ -30,38 +145,107 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
     return '📄';
   };
 
+  // Images and PDFs get a preview in grid view (see /api/files/thumbnail)
+  const hasThumbnail = (file: ListItem & { type: string }): boolean => {
+    return !file.isDirectory && (file.type === 'image/*' || file.type === 'application/pdf') && !failedThumbnails.has(file.path);
+  };
+
+  // The mtime in the URL lets the browser cache a thumbnail until the file changes
+  const getThumbnailUrl = (file: { path: string; uploadedAt: string }): string => {
+    return `/api/files/thumbnail?path=${encodeURIComponent(file.path)}&size=medium&v=${new Date(file.uploadedAt).getTime()}`;
+  };
+
+  const markThumbnailFailed = (path: string) => {
+    setFailedThumbnails(previous => new Set(previous).add(path));
+  };
+
+  const formatItemCount = (count: number): string => {
+    return `${count} item${count === 1 ? '' : 's'}`;
+  };
+
+  const canPreview = (file: ListItem): boolean => {
+    return !file.isDirectory && getPreviewKind(file.name) !== null;
+  };
+
+  const openPreview = (file: ListItem) => {
+    setPreviewIndex(previewItems.findIndex(item => item.path === file.path));
+  };
+
+  const closePreview = useCallback(() => setPreviewIndex(null), []);
+
+  const openFolder = (folder: { path: string }) => {
+    if (onFolderOpen) {
+      onFolderOpen(folder.path);
+    }
+  };
+
+  const getParentPath = (file: { path: string; parentPath?: string }): string => {
+    return file.parentPath ?? (file.path.slice(0, file.path.lastIndexOf('/')) || '/');
+  };
+
+  // The folder an item is in, e.g. "in /Documents/2024"
+  const renderLocation = (file: { path: string; parentPath?: string }) => {
+    const parentPath = getParentPath(file);
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          openFolder({ path: parentPath });
+        }}
+        className="max-w-full text-xs text-blue-600 dark:text-blue-400 hover:underline truncate"
+        title={`Open ${parentPath}`}
+      >
+        in {parentPath}
+      </button>
+    );
+  };
+
+  // Text around a content search match, with the matched words marked
+  const renderSnippet = (file: { snippet?: string; highlights?: [number, number][] }) => {
+    if (!file.snippet) return null;
+    const parts = [];
+    let position = 0;
+    for (const [start, end] of file.highlights || []) {
+      parts.push(file.snippet.slice(position, start));
+      parts.push(<mark key={start} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm">{file.snippet.slice(start, end)}</mark>);
+      position = end;
+    }
+    parts.push(file.snippet.slice(position));
+    return (
+      <p className="mt-1 max-w-xl text-xs text-slate-600 dark:text-slate-300 whitespace-normal line-clamp-3">{parts}</p>
+    );
+  };
+
+  // A new column starts in its natural direction; the current one flips
+  const toggleSort = (key: ListingSortKey, firstOrder: ListingSort['order']) => {
+    if (sort?.key === key) {
+      onSortChange?.({ key, order: sort.order === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange?.({ key, order: firstOrder });
+    }
+  };
+
+  // Watched to fetch the next page once it nears the viewport
+  const loadMoreSentinel = hasMore && (
+    <div ref={loadMoreRef} className="py-4 text-center text-sm text-slate-500 dark:text-slate-400">
+      {isLoadingMore ? 'Loading more...' : ''}
+    </div>
+  );
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
   };
 
-  const handleDownload = async (file: any) => {
-    try {
-      const response = await fetch(`/api/files/download?path=${encodeURIComponent(file.path)}`);
-      
-      if (!response.ok) {
-        throw new Error('Download failed');
-      }
-      
-      // Create a blob from the response
-      const blob = await response.blob();
-      
-      // Create a download link
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = file.name;
-      document.body.appendChild(a);
-      a.click();
-      
-      // Cleanup
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      
-    } catch (error) {
-      console.error('Download error:', error);
-      alert('Failed to download file');
-    }
+  const handleDownload = (file: any) => {
+    // Let the browser fetch the file itself so large downloads stream to disk
+    // and its download manager can resume them with Range requests
+    const a = document.createElement('a');
+    a.href = `/api/files/download?path=${encodeURIComponent(file.path)}`;
+    a.download = file.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
   };
 
   const handleDelete = async (file: any) => {
@@ -70,13 +254,9 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
         method: 'DELETE'
       });
       
-      if (!response.ok) {
-        throw new Error('Delete failed');
-      }
-      
       const result = await response.json();
       
-      if (result.success) {
+      if (response.ok && result.success) {
         // Notify parent component about the deletion
         if (onFileDeleted) {
           onFileDeleted(file.id);
@@ -92,7 +272,7 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
       
     } catch (error) {
       console.error('Delete error:', error);
-      alert('Failed to delete file');
+      alert(error instanceof Error ? error.message : 'Failed to delete file');
     }
   };
 
@@ -104,6 +284,360 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
     setDeleteModal({ isOpen: false, file: null });
   };
 
+  const closeShareModal = useCallback(() => setShareItem(null), []);
+  const closeChecksumModal = useCallback(() => setChecksumItem(null), []);
+
+  const openItemAction = (action: ItemAction, file: ListItem) => {
+    setItemMenu(null);
+    setItemActionError(null);
+    setItemAction({ action, file });
+  };
+
+  const closeItemAction = useCallback(() => setItemAction(null), []);
+
+  const getItemActionValue = (action: ItemAction, file: ListItem): string => {
+    if (action === 'rename') return file.name;
+    if (action === 'compress') return `${file.name}.zip`;
+    return currentPath;
+  };
+
+  // Rename, move, copy or compress; conflicts and other errors stay in the modal
+  const handleItemAction = async (value: string) => {
+    if (!itemAction) return;
+    const { action, file } = itemAction;
+
+    try {
+      if (action === 'compress') {
+        // The archive is written next to the item by a background job
+        await startJob({ type: 'compress', paths: [file.path], destination: getParentPath(file), name: value });
+        setItemAction(null);
+        return;
+      }
+
+      const response = await fetch(`/api/files/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'rename'
+          ? { path: file.path, newName: value }
+          : { path: file.path, destination: value })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `${ITEM_ACTIONS[action].title} failed`);
+      }
+
+      console.log(`${ITEM_ACTIONS[action].title} completed:`, result.path);
+      setItemAction(null);
+      if (onFilesChanged) {
+        onFilesChanged();
+      }
+    } catch (error) {
+      setItemActionError(error instanceof Error ? error.message : `${ITEM_ACTIONS[action].title} failed`);
+    }
+  };
+
+  const startJob = async (body: object) => {
+    const response = await fetch('/api/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to start job');
+    }
+    if (onJobStarted) {
+      onJobStarted();
+    }
+  };
+
+  // Unpack into a new folder next to the archive
+  const handleExtract = async (file: ListItem) => {
+    setItemMenu(null);
+    try {
+      await startJob({ type: 'extract', path: file.path });
+    } catch (error) {
+      console.error('Extract error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to extract archive');
+    }
+  };
+
+  // A plain click toggles one item; a shift-click selects everything between it and the anchor
+  const toggleSelection = (file: ListItem, extend: boolean) => {
+    const anchorIndex = extend && selectionAnchor ? entries.findIndex(entry => entry.path === selectionAnchor) : -1;
+    const index = entries.findIndex(entry => entry.path === file.path);
+
+    setSelectedPaths(previous => {
+      const next = new Set(previous);
+      if (anchorIndex !== -1) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        for (const entry of entries.slice(start, end + 1)) next.add(entry.path);
+      } else if (next.has(file.path)) {
+        next.delete(file.path);
+      } else {
+        next.add(file.path);
+      }
+      return next;
+    });
+    setSelectionAnchor(file.path);
+  };
+
+  const selectAll = () => {
+    setSelectedPaths(new Set(entries.map(file => file.path)));
+  };
+
+  const clearSelection = () => {
+    setSelectedPaths(new Set());
+    setSelectionAnchor(null);
+  };
+
+  // Ctrl/Cmd- and shift-clicks on an item select it instead of opening it
+  const handleSelectionClick = (e: MouseEvent, file: ListItem): boolean => {
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) return false;
+    e.preventDefault();
+    e.stopPropagation();
+    toggleSelection(file, e.shiftKey);
+    return true;
+  };
+
+  const renderSelectionCheckbox = (file: ListItem) => (
+    <input
+      type="checkbox"
+      checked={selectedPaths.has(file.path)}
+      readOnly
+      onClick={(e) => {
+        e.stopPropagation();
+        toggleSelection(file, e.shiftKey);
+      }}
+      className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-blue-600 cursor-pointer"
+      aria-label={`Select ${file.name}`}
+    />
+  );
+
+  const openBulkAction = (action: BatchAction) => {
+    setBulkActionError(null);
+    setBulkAction(action);
+  };
+
+  const closeBulkAction = useCallback(() => setBulkAction(null), []);
+
+  // One request for the whole selection; items that fail stay selected so they can be retried
+  const handleBulkAction = async (destination?: string) => {
+    if (!bulkAction || selectedItems.length === 0) return;
+    const action = bulkAction;
+
+    setIsBulkActionRunning(true);
+    try {
+      const response = await fetch('/api/files/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, paths: selectedItems.map(file => file.path), destination })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Bulk ${action} failed`);
+      }
+
+      const failures: BatchItemResult[] = result.results.filter((item: BatchItemResult) => !item.success);
+      console.log(`Bulk ${action} completed: ${result.succeeded} succeeded, ${result.failed} failed`);
+      setSelectedPaths(new Set(failures.map(item => item.path)));
+      setBulkFailures(failures);
+      setBulkAction(null);
+      if (onFilesChanged) {
+        onFilesChanged();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Bulk ${action} failed`;
+      if (action === 'delete') {
+        setBulkAction(null);
+        alert(message);
+      } else {
+        setBulkActionError(message);
+      }
+    } finally {
+      setIsBulkActionRunning(false);
+    }
+  };
+
+  const selectionToolbar = (selectedItems.length > 0 || bulkFailures.length > 0) && (
+    <div className="sticky top-0 z-30 mb-4 space-y-2">
+      {selectedItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 rounded-xl bg-blue-50/95 dark:bg-blue-900/60 border border-blue-200 dark:border-blue-800 backdrop-blur-sm">
+          <span className="mr-auto text-sm font-medium text-blue-800 dark:text-blue-200">
+            {formatItemCount(selectedItems.length)} selected
+          </span>
+          <button
+            onClick={() => downloadArchive(selectedItems.map(file => file.path))}
+            className="px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 rounded-lg hover:bg-white/70 dark:hover:bg-slate-700/70"
+          >
+            Download
+          </button>
+          <button
+            onClick={() => openBulkAction('copy')}
+            disabled={isBulkActionRunning}
+            className="px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 rounded-lg hover:bg-white/70 dark:hover:bg-slate-700/70 disabled:opacity-50"
+          >
+            Copy
+          </button>
+          <button
+            onClick={() => openBulkAction('move')}
+            disabled={isBulkActionRunning}
+            className="px-3 py-1.5 text-sm text-slate-700 dark:text-slate-200 rounded-lg hover:bg-white/70 dark:hover:bg-slate-700/70 disabled:opacity-50"
+          >
+            Move
+          </button>
+          <button
+            onClick={() => openBulkAction('delete')}
+            disabled={isBulkActionRunning}
+            className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+          >
+            Delete
+          </button>
+          <span className="w-px h-5 bg-blue-200 dark:bg-blue-800" aria-hidden />
+          {selectedItems.length < entries.length && (
+            <button
+              onClick={selectAll}
+              className="px-3 py-1.5 text-sm text-blue-700 dark:text-blue-300 rounded-lg hover:bg-white/70 dark:hover:bg-slate-700/70"
+            >
+              Select all
+            </button>
+          )}
+          <button
+            onClick={clearSelection}
+            className="px-3 py-1.5 text-sm text-blue-700 dark:text-blue-300 rounded-lg hover:bg-white/70 dark:hover:bg-slate-700/70"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {bulkFailures.length > 0 && (
+        <div className="px-4 py-2 rounded-xl bg-red-50/95 dark:bg-red-900/40 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          <div className="flex items-center justify-between gap-4">
+            <span className="font-medium">{formatItemCount(bulkFailures.length)} could not be changed</span>
+            <button onClick={() => setBulkFailures([])} className="text-xs hover:underline">
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {bulkFailures.map(item => (
+              <li key={item.path} className="truncate">
+                <span className="font-mono">{item.path}</span>: {item.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+
+  const bulkActionModals = (
+    <>
+      <ConfirmModal
+        isOpen={bulkAction === 'delete'}
+        title="Delete Items"
+        message={`Move ${formatItemCount(selectedItems.length)} and everything in the selected folders to the trash? You can restore them from the trash until it is emptied.`}
+        confirmText="Move to Trash"
+        cancelText="Cancel"
+        onConfirm={() => handleBulkAction()}
+        onCancel={closeBulkAction}
+        type="danger"
+      />
+      {(bulkAction === 'move' || bulkAction === 'copy') && (
+        <PromptModal
+          isOpen
+          title={`${ITEM_ACTIONS[bulkAction].title} ${formatItemCount(selectedItems.length)}`}
+          label={ITEM_ACTIONS[bulkAction].label}
+          initialValue={currentPath}
+          confirmText={ITEM_ACTIONS[bulkAction].confirmText}
+          error={bulkActionError}
+          onConfirm={handleBulkAction}
+          onCancel={closeBulkAction}
+        />
+      )}
+    </>
+  );
+
+  const renderItemMenuButton = (file: ListItem) => (
+    <button
+      onClick={(e) => {
+        // Fixed positioning keeps the menu from being clipped by the table's scroll container
+        const rect = e.currentTarget.getBoundingClientRect();
+        setItemMenu({ file, top: rect.bottom + 4, right: window.innerWidth - rect.right });
+      }}
+      className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+      title="More actions"
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h.01M12 12h.01M19 12h.01M6 12a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0z" />
+      </svg>
+    </button>
+  );
+
+  const itemMenuPopup = itemMenu && (
+    <>
+      {/* Clicking anywhere else closes the menu */}
+      <div className="fixed inset-0 z-40" onClick={() => setItemMenu(null)} />
+      <div
+        className="fixed z-50 w-40 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-lg py-1 text-left"
+        style={{ top: itemMenu.top, right: itemMenu.right }}
+      >
+        {(Object.keys(ITEM_ACTIONS) as ItemAction[]).map(action => (
+          <button
+            key={action}
+            onClick={() => openItemAction(action, itemMenu.file)}
+            className="block w-full px-3 py-1.5 text-sm text-left text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+          >
+            {ITEM_ACTIONS[action].title}
+          </button>
+        ))}
+        <button
+          onClick={() => {
+            setItemMenu(null);
+            downloadArchive([itemMenu.file.path]);
+          }}
+          className="block w-full px-3 py-1.5 text-sm text-left text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+        >
+          Download as ZIP
+        </button>
+        {!itemMenu.file.isDirectory && getArchiveFormat(itemMenu.file.name) && (
+          <button
+            onClick={() => handleExtract(itemMenu.file)}
+            className="block w-full px-3 py-1.5 text-sm text-left text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+          >
+            Extract here
+          </button>
+        )}
+        {!itemMenu.file.isDirectory && (
+          <button
+            onClick={() => {
+              setItemMenu(null);
+              setChecksumItem(itemMenu.file);
+            }}
+            className="block w-full px-3 py-1.5 text-sm text-left text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+          >
+            Checksum
+          </button>
+        )}
+      </div>
+    </>
+  );
+
+  const itemActionModal = itemAction && (
+    <PromptModal
+      isOpen
+      title={`${ITEM_ACTIONS[itemAction.action].title} "${itemAction.file.name}"`}
+      label={ITEM_ACTIONS[itemAction.action].label}
+      initialValue={getItemActionValue(itemAction.action, itemAction.file)}
+      confirmText={ITEM_ACTIONS[itemAction.action].confirmText}
+      error={itemActionError}
+      onConfirm={handleItemAction}
+      onCancel={closeItemAction}
+    />
+  );
+
   if (files.length === 0) {
     return (
       <div className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-12 border border-slate-200/50 dark:border-slate-700/50 text-center">
@@ -112,7 +646,7 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
           No files found
         </h3>
         <p className="text-slate-500 dark:text-slate-400">
-          This directory is empty. Upload some files to get started.
+          {emptyMessage}
         </p>
       </div>
     );
@@ -121,36 +655,79 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
   if (viewMode === 'grid') {
     return (
       <>
+        {selectionToolbar}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {files.map((file) => (
+          {entries.map((file) => (
             <div
               key={file.id}
-              className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-4 border border-slate-200/50 dark:border-slate-700/50 hover:shadow-lg transition-all duration-200"
+              onClick={(e) => {
+                if (handleSelectionClick(e, file)) return;
+                if (file.isDirectory) openFolder(file);
+                else if (canPreview(file)) openPreview(file);
+              }}
+              className={`group relative bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-4 border hover:shadow-lg transition-all duration-200 ${
+                selectedPaths.has(file.path)
+                  ? 'border-blue-500 ring-2 ring-blue-500/40'
+                  : 'border-slate-200/50 dark:border-slate-700/50'
+              } ${file.isDirectory || canPreview(file) ? 'cursor-pointer' : ''}`}
             >
-              <div className="text-center mb-3">
-                <span className="text-4xl">{getFileIcon(file.type)}</span>
+              {/* Always shown once something is selected, otherwise on hover */}
+              <div className={`absolute top-2 left-2 z-10 ${
+                selectedItems.length > 0 ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+              }`}>
+                {renderSelectionCheckbox(file)}
               </div>
+              {hasThumbnail(file) ? (
+                <div className="relative h-32 mb-3 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-700/50">
+                  <Image
+                    src={getThumbnailUrl(file)}
+                    alt={file.name}
+                    fill
+                    unoptimized
+                    sizes="256px"
+                    className="object-contain"
+                    onError={() => markThumbnailFailed(file.path)}
+                  />
+                </div>
+              ) : (
+                <div className="text-center mb-3">
+                  <span className="text-4xl">{getFileIcon(file.type)}</span>
+                </div>
+              )}
               
               <div className="text-center mb-3">
                 <h4 className="font-medium text-slate-800 dark:text-slate-200 text-sm truncate" title={file.name}>
                   {file.name}
                 </h4>
                 <p className="text-xs text-slate-500 dark:text-slate-400">
-                  {file.sizeFormatted}
+                  {file.isDirectory ? formatItemCount(file.childCount) : file.sizeFormatted}
                 </p>
                 <p className="text-xs text-slate-400 dark:text-slate-500">
                   {formatDate(file.uploadedAt)}
                 </p>
+                {showLocation && renderLocation(file)}
+                {renderSnippet(file)}
               </div>
               
-              <div className="flex justify-center space-x-2">
+              <div className="flex justify-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                {!file.isDirectory && (
+                  <button
+                    onClick={() => handleDownload(file)}
+                    className="p-2 text-slate-400 hover:text-blue-500 transition-colors rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                    title="Download"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  </button>
+                )}
                 <button
-                  onClick={() => handleDownload(file)}
-                  className="p-2 text-slate-400 hover:text-blue-500 transition-colors rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                  title="Download"
+                  onClick={() => setShareItem(file)}
+                  className="p-2 text-slate-400 hover:text-indigo-500 transition-colors rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-900/20"
+                  title="Share"
                 >
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                   </svg>
                 </button>
                 <button
@@ -162,22 +739,39 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                   </svg>
                 </button>
+                {renderItemMenuButton(file)}
               </div>
             </div>
           ))}
         </div>
+        {loadMoreSentinel}
 
         {/* Delete Confirmation Modal */}
         <ConfirmModal
           isOpen={deleteModal.isOpen}
-          title="Delete File"
-          message={`Are you sure you want to delete "${deleteModal.file?.name}"? This action cannot be undone.`}
-          confirmText="Delete"
+          title={deleteModal.file?.isDirectory ? 'Delete Folder' : 'Delete File'}
+          message={`Move "${deleteModal.file?.name}"${deleteModal.file?.isDirectory ? ' and everything in it' : ''} to the trash? You can restore it from the trash until it is emptied.`}
+          confirmText="Move to Trash"
           cancelText="Cancel"
           onConfirm={() => deleteModal.file && handleDelete(deleteModal.file)}
           onCancel={closeDeleteModal}
           type="danger"
         />
+
+        <ShareModal isOpen={shareItem !== null} item={shareItem} onClose={closeShareModal} />
+        <ChecksumModal isOpen={checksumItem !== null} item={checksumItem} onClose={closeChecksumModal} />
+        {previewIndex !== null && (
+          <PreviewModal
+            items={previewItems}
+            index={previewIndex}
+            onNavigate={setPreviewIndex}
+            onDownload={handleDownload}
+            onClose={closePreview}
+          />
+        )}
+        {itemMenuPopup}
+        {itemActionModal}
+        {bulkActionModals}
       </>
     );
   }
@@ -185,56 +779,118 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
   // List view
   return (
     <>
+      {selectionToolbar}
       <div className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-200/50 dark:border-slate-700/50 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-slate-50 dark:bg-slate-700/50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-                  File
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-                  Size
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-                  Uploaded
+                <th className="w-10 pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={selectedItems.length > 0 && selectedItems.length === entries.length}
+                    onChange={() => selectedItems.length === entries.length ? clearSelection() : selectAll()}
+                    className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-blue-600 cursor-pointer"
+                    aria-label="Select all"
+                  />
                 </th>
+                {SORT_COLUMNS.map(column => (
+                  <th key={column.key} className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    {onSortChange ? (
+                      <button
+                        onClick={() => toggleSort(column.key, column.firstOrder)}
+                        className="inline-flex items-center space-x-1 uppercase tracking-wider hover:text-slate-700 dark:hover:text-slate-200"
+                        title={`Sort by ${column.label.toLowerCase()}`}
+                      >
+                        <span>{column.label}</span>
+                        {sort?.key === column.key && <span aria-hidden>{sort.order === 'asc' ? '▲' : '▼'}</span>}
+                      </button>
+                    ) : column.label}
+                  </th>
+                ))}
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200/50 dark:divide-slate-700/50">
-              {files.map((file) => (
-                <tr key={file.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+              {entries.map((file) => (
+                <tr
+                  key={file.id}
+                  onClickCapture={(e) => handleSelectionClick(e, file)}
+                  className={`transition-colors ${
+                    selectedPaths.has(file.path)
+                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                      : 'hover:bg-slate-50 dark:hover:bg-slate-700/30'
+                  }`}
+                >
+                  <td className="w-10 pl-6 py-4">
+                    {renderSelectionCheckbox(file)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center space-x-3">
                       <span className="text-2xl">{getFileIcon(file.type)}</span>
                       <div>
-                        <div className="font-medium text-slate-800 dark:text-slate-200">
-                          {file.name}
-                        </div>
-                        <div className="text-sm text-slate-500 dark:text-slate-400">
-                          {file.path}
-                        </div>
+                        {file.isDirectory ? (
+                          <button
+                            onClick={() => openFolder(file)}
+                            className="font-medium text-slate-800 dark:text-slate-200 hover:text-blue-600 dark:hover:text-blue-400 text-left"
+                          >
+                            {file.name}
+                          </button>
+                        ) : canPreview(file) ? (
+                          <button
+                            onClick={() => openPreview(file)}
+                            className="font-medium text-slate-800 dark:text-slate-200 hover:text-blue-600 dark:hover:text-blue-400 text-left"
+                            title="Preview"
+                          >
+                            {file.name}
+                          </button>
+                        ) : (
+                          <div className="font-medium text-slate-800 dark:text-slate-200">
+                            {file.name}
+                          </div>
+                        )}
+                        {showLocation ? (
+                          <div>{renderLocation(file)}</div>
+                        ) : (
+                          <div className="text-sm text-slate-500 dark:text-slate-400">
+                            {file.path}
+                          </div>
+                        )}
+                        {renderSnippet(file)}
                       </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 dark:text-slate-300">
-                    {file.sizeFormatted}
+                    {file.isDirectory ? formatItemCount(file.childCount) : file.sizeFormatted}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
                     {formatDate(file.uploadedAt)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                    {file.isDirectory ? 'Folder' : file.type}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
                     <div className="flex items-center space-x-2">
+                      {!file.isDirectory && (
+                        <button
+                          onClick={() => handleDownload(file)}
+                          className="p-2 text-slate-400 hover:text-blue-500 transition-colors rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                          title="Download"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                          </svg>
+                        </button>
+                      )}
                       <button
-                        onClick={() => handleDownload(file)}
-                        className="p-2 text-slate-400 hover:text-blue-500 transition-colors rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                        title="Download"
+                        onClick={() => setShareItem(file)}
+                        className="p-2 text-slate-400 hover:text-indigo-500 transition-colors rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-900/20"
+                        title="Share"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                         </svg>
                       </button>
                       <button
@@ -246,6 +902,7 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                         </svg>
                       </button>
+                      {renderItemMenuButton(file)}
                     </div>
                   </td>
                 </tr>
@@ -254,18 +911,34 @@ export function FileList({ files, viewMode, currentPath, onFileDeleted }: FileLi
           </table>
         </div>
       </div>
+      {loadMoreSentinel}
 
       {/* Delete Confirmation Modal */}
       <ConfirmModal
         isOpen={deleteModal.isOpen}
-        title="Delete File"
-        message={`Are you sure you want to delete "${deleteModal.file?.name}"? This action cannot be undone.`}
-        confirmText="Delete"
+        title={deleteModal.file?.isDirectory ? 'Delete Folder' : 'Delete File'}
+        message={`Move "${deleteModal.file?.name}"${deleteModal.file?.isDirectory ? ' and everything in it' : ''} to the trash? You can restore it from the trash until it is emptied.`}
+        confirmText="Move to Trash"
         cancelText="Cancel"
         onConfirm={() => deleteModal.file && handleDelete(deleteModal.file)}
         onCancel={closeDeleteModal}
         type="danger"
       />
+
+      <ShareModal isOpen={shareItem !== null} item={shareItem} onClose={closeShareModal} />
+      <ChecksumModal isOpen={checksumItem !== null} item={checksumItem} onClose={closeChecksumModal} />
+      {previewIndex !== null && (
+        <PreviewModal
+          items={previewItems}
+          index={previewIndex}
+          onNavigate={setPreviewIndex}
+          onDownload={handleDownload}
+          onClose={closePreview}
+        />
+      )}
+      {itemMenuPopup}
+      {itemActionModal}
+      {bulkActionModals}
     </>
   );
 }
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { StorageUtils } from '../config/nas';
-import { FileUploader as UploadUtil, UploadProgress } from '../utils/upload';
+import { FileUploader as UploadUtil, UploadProgress, QuotaExceededError } from '../utils/upload';
+import type { ConflictPolicy } from '../utils/file-names';
 
 interface StorageInfo {
   used: number;
@@ -11,10 +12,19 @@ interface StorageInfo {
   fileCount: number;
 }
 
+const CONFLICT_POLICY_LABELS: { [policy in ConflictPolicy]: string } = {
+  rename: 'Keep both',
+  overwrite: 'Replace',
+  skip: 'Skip',
+  fail: 'Stop with an error'
+};
+
 interface FileUploaderProps {
   files: File[];
   onFilesAdded: (files: File[]) => void;
   onFileRemove: (index: number) => void;
+  // Removes every file of a folder at once
+  onFilesRemove: (indexes: number[]) => void;
   onUpload: () => void;
   isUploading: boolean;
   currentPath: string;
@@ -28,6 +38,7 @@ export function FileUploader({
   files,
   onFilesAdded,
   onFileRemove,
+  onFilesRemove,
   onUpload,
   isUploading,
   currentPath,
@@ -39,7 +50,17 @@ export function FileUploader({
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'completed' | 'error'>('idle');
+  // Reason the server gave for refusing the last upload over quota
+  const [quotaError, setQuotaError] = useState<string | null>(null);
+  // What the server should do when a file with the same name already exists
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('rename');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React does not know the attribute, so set it on the element directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -56,9 +77,25 @@ export function FileUploader({
     setIsDragOver(false);
     
     const droppedFiles = Array.from(e.dataTransfer.files);
-    if (droppedFiles.length > 0) {
-      onFilesAdded(droppedFiles);
+    const items = e.dataTransfer.items;
+    if (!items || items.length === 0 || typeof items[0].webkitGetAsEntry !== 'function') {
+      if (droppedFiles.length > 0) {
+        onFilesAdded(droppedFiles);
+      }
+      return;
     }
+
+    // Walk dropped folders so their files keep their paths
+    UploadUtil.readDroppedItems(items)
+      .catch(error => {
+        console.error('Failed to read dropped folders:', error);
+        return droppedFiles;
+      })
+      .then(collected => {
+        if (collected.length > 0) {
+          onFilesAdded(collected);
+        }
+      });
   }, [onFilesAdded]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -68,10 +105,23 @@ export function FileUploader({
     }
   }, [onFilesAdded]);
 
+  const handleFolderSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = UploadUtil.getSelectedFolderFiles(Array.from(e.target.files || []));
+    if (selectedFiles.length > 0) {
+      onFilesAdded(selectedFiles);
+    }
+    // Allow choosing the same folder again
+    e.target.value = '';
+  }, [onFilesAdded]);
+
   const openFileDialog = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
+  const openFolderDialog = useCallback(() => {
+    folderInputRef.current?.click();
+  }, []);
+
   const formatFileSize = (bytes: number): string => {
     return StorageUtils.formatSize(bytes);
   };
@@ -130,6 +180,7 @@ export function FileUploader({
     if (files.length === 0) return;
 
     setUploadStatus('uploading');
+    setQuotaError(null);
     
     // Initialize progress for all files
     const initialProgress: UploadProgress[] = files.map((file, index) => ({
@@ -138,7 +189,8 @@ export function FileUploader({
       progress: 0,
       uploaded: 0,
       total: file.size,
-      status: 'pending'
+      status: 'pending',
+      folder: UploadUtil.getRelativeFolder(file) || undefined
     }));
     setUploadProgress(initialProgress);
 
@@ -152,7 +204,8 @@ export function FileUploader({
             newProgress[progress.fileIndex] = progress;
             return newProgress;
           });
-        }
+        },
+        conflictPolicy
       );
 
       if (result.success) {
@@ -174,16 +227,24 @@ export function FileUploader({
       }
     } catch (error) {
       setUploadStatus('error');
+      if (error instanceof QuotaExceededError) {
+        setQuotaError(error.message);
+      }
       console.error('Upload failed:', error);
       // Keep progress visible to show errors
     }
-  }, [files, currentPath, onUpload, onUploadComplete]);
+  }, [files, currentPath, conflictPolicy, onUpload, onUploadComplete]);
 
-  const uploadWarning = getUploadWarning();
+  const limitWarning = getUploadWarning();
+  // A refusal from the server wins, but does not block retrying after space is freed
+  const uploadWarning = quotaError
+    ? { type: 'error' as const, message: `Upload refused: ${quotaError}` }
+    : limitWarning;
 
   const getStatusIcon = (status: UploadProgress['status']) => {
     switch (status) {
       case 'pending': return '⏳';
+      case 'hashing': return '🔍';
       case 'uploading': return '📤';
       case 'completed': return '✅';
       case 'error': return '❌';
@@ -194,6 +255,7 @@ export function FileUploader({
   const getStatusColor = (status: UploadProgress['status']) => {
     switch (status) {
       case 'pending': return 'text-slate-500';
+      case 'hashing': return 'text-slate-500';
       case 'uploading': return 'text-blue-500';
       case 'completed': return 'text-green-500';
       case 'error': return 'text-red-500';
@@ -201,6 +263,182 @@ export function FileUploader({
     }
   };
 
+  const renderProgressBar = (status: UploadProgress['status'], percentage: number) => (
+    <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+      <div 
+        className={`h-2 rounded-full transition-all duration-300 ${
+          status === 'error' 
+            ? 'bg-red-500' 
+            : status === 'completed'
+            ? 'bg-green-500'
+            : 'bg-blue-500'
+        }`}
+        style={{ width: `${percentage}%` }}
+      ></div>
+    </div>
+  );
+
+  const renderProgressRow = (progress: UploadProgress, label: string) => (
+    <div key={progress.fileIndex} className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">{getStatusIcon(progress.status)}</span>
+          <span className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-xs">
+            {label}
+          </span>
+        </div>
+        <div className="text-right">
+          <div className="text-slate-600 dark:text-slate-300">
+            {StorageUtils.formatSize(progress.uploaded)} / {StorageUtils.formatSize(progress.total)}
+          </div>
+          <div className={`text-xs ${getStatusColor(progress.status)}`}>
+            {progress.progress.toFixed(1)}%
+          </div>
+        </div>
+      </div>
+      
+      {renderProgressBar(progress.status, progress.progress)}
+
+      {progress.error && (
+        <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-2 py-1 rounded">
+          Error: {progress.error}
+        </div>
+      )}
+
+      {progress.note && (
+        <div className="text-xs text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 px-2 py-1 rounded">
+          {progress.note}
+        </div>
+      )}
+    </div>
+  );
+
+  // One bar for all files of a folder; the files themselves are folded away
+  const renderProgressGroup = (folder: string, items: UploadProgress[]) => {
+    // Hashing counts checksummed bytes, which are not uploaded yet
+    const uploaded = items.reduce((sum, item) => sum + (
+      item.status === 'completed' ? item.total : item.status === 'uploading' ? item.uploaded : 0
+    ), 0);
+    const total = items.reduce((sum, item) => sum + item.total, 0);
+    const completed = items.filter(item => item.status === 'completed').length;
+    const failed = items.filter(item => item.status === 'error').length;
+    const status: UploadProgress['status'] = failed > 0 ? 'error'
+      : completed === items.length ? 'completed'
+      : items.some(item => item.status === 'uploading' || item.status === 'hashing') ? 'uploading'
+      : 'pending';
+    const percentage = status === 'completed' ? 100 : total > 0 ? (uploaded / total) * 100 : 0;
+
+    return (
+      <div key={`folder:${folder}`} className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2 min-w-0">
+            <span className="text-lg">{status === 'error' ? getStatusIcon(status) : '📁'}</span>
+            <span className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-xs">
+              {folder}
+            </span>
+            <span className="text-xs text-slate-500 dark:text-slate-400 shrink-0">
+              {completed} of {items.length} file(s){failed > 0 && `, ${failed} failed`}
+            </span>
+          </div>
+          <div className="text-right">
+            <div className="text-slate-600 dark:text-slate-300">
+              {StorageUtils.formatSize(uploaded)} / {StorageUtils.formatSize(total)}
+            </div>
+            <div className={`text-xs ${getStatusColor(status)}`}>
+              {percentage.toFixed(1)}%
+            </div>
+          </div>
+        </div>
+
+        {renderProgressBar(status, percentage)}
+
+        <details className="pl-6">
+          <summary className="text-xs text-slate-500 dark:text-slate-400 cursor-pointer select-none">
+            Show files
+          </summary>
+          <div className="mt-3 space-y-4">
+            {items.map(item => renderProgressRow(item, getPathInFolder(item.folder || '', item.fileName)))}
+          </div>
+        </details>
+      </div>
+    );
+  };
+
+  const renderSelectedFile = (file: File, index: number, label: string) => (
+    <div
+      key={`${file.name}-${index}`}
+      className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg"
+    >
+      <div className="flex items-center space-x-3">
+        <span className="text-lg">{getFileIcon(file.type)}</span>
+        <div>
+          <p className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-xs">
+            {label}
+          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {formatFileSize(file.size)}
+          </p>
+        </div>
+      </div>
+      
+      <button
+        onClick={() => onFileRemove(index)}
+        className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+        title="Remove file"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+
+  // A dropped or selected folder is listed, and removed, as a whole
+  const renderSelectedFolder = (folder: string, indexes: number[]) => {
+    const size = indexes.reduce((sum, index) => sum + files[index].size, 0);
+
+    return (
+      <div key={`folder:${folder}`} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <span className="text-lg">📁</span>
+            <div>
+              <p className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-xs">
+                {folder}
+              </p>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {indexes.length} file(s) · {formatFileSize(size)}
+              </p>
+            </div>
+          </div>
+
+          <button
+            onClick={() => onFilesRemove(indexes)}
+            className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+            title="Remove folder"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <details className="mt-2 pl-9">
+          <summary className="text-xs text-slate-500 dark:text-slate-400 cursor-pointer select-none">
+            Show files
+          </summary>
+          <div className="mt-2 space-y-2">
+            {indexes.map(index => renderSelectedFile(
+              files[index],
+              index,
+              getPathInFolder(UploadUtil.getRelativeFolder(files[index]), files[index].name)
+            ))}
+          </div>
+        </details>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Storage Limits Info */}
@@ -273,45 +511,9 @@ export function FileUploader({
           </div>
           
           <div className="space-y-4">
-            {uploadProgress.map((progress, index) => (
-              <div key={index} className="space-y-2">
-                <div className="flex items-center justify-between text-sm">
-                  <div className="flex items-center space-x-2">
-                    <span className="text-lg">{getStatusIcon(progress.status)}</span>
-                    <span className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-xs">
-                      {progress.fileName}
-                    </span>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-slate-600 dark:text-slate-300">
-                      {StorageUtils.formatSize(progress.uploaded)} / {StorageUtils.formatSize(progress.total)}
-                    </div>
-                    <div className={`text-xs ${getStatusColor(progress.status)}`}>
-                      {progress.progress.toFixed(1)}%
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
-                  <div 
-                    className={`h-2 rounded-full transition-all duration-300 ${
-                      progress.status === 'error' 
-                        ? 'bg-red-500' 
-                        : progress.status === 'completed'
-                        ? 'bg-green-500'
-                        : 'bg-blue-500'
-                    }`}
-                    style={{ width: `${progress.progress}%` }}
-                  ></div>
-                </div>
-                
-                {progress.error && (
-                  <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-2 py-1 rounded">
-                    Error: {progress.error}
-                  </div>
-                )}
-              </div>
-            ))}
+            {groupByTopFolder(uploadProgress, progress => progress.folder || '').flatMap(group => group.folder
+              ? [renderProgressGroup(group.folder, group.indexes.map(index => uploadProgress[index]))]
+              : group.indexes.map(index => renderProgressRow(uploadProgress[index], uploadProgress[index].fileName)))}
           </div>
         </div>
       )}
@@ -336,7 +538,7 @@ export function FileUploader({
           
           <div>
             <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200 mb-2">
-              Drop files here or click to browse
+              Drop files or folders here or click to browse
             </h3>
             <p className="text-slate-500 dark:text-slate-400 mb-4">
               Upload to: <span className="font-mono bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded text-sm">
@@ -353,6 +555,15 @@ export function FileUploader({
               </svg>
               Select Files
             </button>
+            <button
+              onClick={openFolderDialog}
+              className="inline-flex items-center px-4 py-2 ml-3 bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 font-medium rounded-lg transition-colors"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+              </svg>
+              Select Folder
+            </button>
           </div>
         </div>
         
@@ -364,6 +575,13 @@ export function FileUploader({
           className="hidden"
           accept="*/*"
         />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleFolderSelect}
+          className="hidden"
+        />
       </div>
 
       {/* Selected Files */}
@@ -373,63 +591,75 @@ export function FileUploader({
             <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">
               Selected Files ({files.length})
             </h3>
-            <button
-              onClick={handleUpload}
-              disabled={uploadStatus === 'uploading' || uploadWarning?.type === 'error'}
-              className={`px-6 py-2 rounded-lg font-medium transition-colors ${
-                uploadStatus === 'uploading' || uploadWarning?.type === 'error'
-                  ? 'bg-slate-300 dark:bg-slate-600 text-slate-500 dark:text-slate-400 cursor-not-allowed'
-                  : 'bg-green-600 hover:bg-green-700 text-white'
-              }`}
-            >
-              {uploadStatus === 'uploading' ? (
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  <span>Uploading...</span>
-                </div>
-              ) : (
-                <div className="flex items-center space-x-2">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                  </svg>
-                  <span>Upload Files</span>
-                </div>
-              )}
-            </button>
+            <div className="flex items-center space-x-3">
+              <label className="flex items-center space-x-2 text-sm text-slate-500 dark:text-slate-400">
+                <span>If a file exists:</span>
+                <select
+                  value={conflictPolicy}
+                  onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+                  disabled={uploadStatus === 'uploading'}
+                  className="px-2 py-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+                >
+                  {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map(policy => (
+                    <option key={policy} value={policy}>{CONFLICT_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleUpload}
+                disabled={uploadStatus === 'uploading' || limitWarning?.type === 'error'}
+                className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+                  uploadStatus === 'uploading' || limitWarning?.type === 'error'
+                    ? 'bg-slate-300 dark:bg-slate-600 text-slate-500 dark:text-slate-400 cursor-not-allowed'
+                    : 'bg-green-600 hover:bg-green-700 text-white'
+                }`}
+              >
+                {uploadStatus === 'uploading' ? (
+                  <div className="flex items-center space-x-2">
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>Uploading...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                    </svg>
+                    <span>Upload Files</span>
+                  </div>
+                )}
+              </button>
+            </div>
           </div>
           
           <div className="space-y-3">
-            {files.map((file, index) => (
-              <div
-                key={`${file.name}-${index}`}
-                className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg"
-              >
-                <div className="flex items-center space-x-3">
-                  <span className="text-lg">{getFileIcon(file.type)}</span>
-                  <div>
-                    <p className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-xs">
-                      {file.name}
-                    </p>
-                    <p className="text-sm text-slate-500 dark:text-slate-400">
-                      {formatFileSize(file.size)}
-                    </p>
-                  </div>
-                </div>
-                
-                <button
-                  onClick={() => onFileRemove(index)}
-                  className="p-1 text-slate-400 hover:text-red-500 transition-colors"
-                  title="Remove file"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
-              </div>
-            ))}
+            {groupByTopFolder(files, file => UploadUtil.getRelativeFolder(file)).flatMap(group => group.folder
+              ? [renderSelectedFolder(group.folder, group.indexes)]
+              : group.indexes.map(index => renderSelectedFile(files[index], index, files[index].name)))}
           </div>
         </div>
       )}
     </div>
   );
 }
+
+// Items grouped by the top-level folder they were dropped or selected with,
+// in order of first appearance. Loose files share the group with folder ''.
+function groupByTopFolder<T>(items: T[], getFolder: (item: T) => string): { folder: string; indexes: number[] }[] {
+  const groups = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    const folder = getFolder(item).split('/')[0];
+    const indexes = groups.get(folder);
+    if (indexes) {
+      indexes.push(index);
+    } else {
+      groups.set(folder, [index]);
+    }
+  });
+  return Array.from(groups, ([folder, indexes]) => ({ folder, indexes }));
+}
+
+// "Photos/2024" and "a.jpg" give "2024/a.jpg": the path below the top-level folder
+function getPathInFolder(folder: string, fileName: string): string {
+  const slash = folder.indexOf('/');
+  return slash === -1 ? fileName : `${folder.slice(slash + 1)}/${fileName}`;
+}
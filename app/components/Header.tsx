@@ -1,4 +1,16 @@
-export function Header() {
+import type { SessionUser } from '../utils/auth';
+
+interface HeaderProps {
+  user?: SessionUser | null;
+  onLogout?: () => void;
+  // The search box is only shown when the page handles searches
+  searchQuery?: string;
+  onSearchQueryChange?: (query: string) => void;
+  onSearch?: () => void;
+  onSearchClear?: () => void;
+}
+
+export function Header({ user, onLogout, searchQuery, onSearchQueryChange, onSearch, onSearchClear }: HeaderProps) {
   return (
     <header className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-b border-slate-200/50 dark:border-slate-700/50">
       <div className="max-w-7xl mx-auto px-6 py-4">
@@ -18,7 +30,34 @@ export function Header() {
               </p>
             </div>
           </div>
-          
+
+          {onSearchQueryChange && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                onSearch?.();
+              }}
+              className="flex-1 max-w-md mx-6"
+              role="search"
+            >
+              <div className="relative">
+                <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                <input
+                  type="search"
+                  value={searchQuery ?? ''}
+                  onChange={(e) => onSearchQueryChange(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') onSearchClear?.();
+                  }}
+                  placeholder="Search files, e.g. report or *.pdf"
+                  className="w-full pl-9 pr-3 py-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </form>
+          )}
+
           <div className="flex items-center space-x-4">
             <button className="p-2 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -31,9 +70,29 @@ export function Header() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               </svg>
             </button>
-            <div className="w-8 h-8 bg-gradient-to-br from-slate-400 to-slate-600 rounded-full flex items-center justify-center">
-              <span className="text-sm font-medium text-white">U</span>
+            <div className="flex items-center space-x-2" title={user ? `${user.username} (${user.role})` : undefined}>
+              <div className="w-8 h-8 bg-gradient-to-br from-slate-400 to-slate-600 rounded-full flex items-center justify-center">
+                <span className="text-sm font-medium text-white">
+                  {user ? user.username.charAt(0).toUpperCase() : 'U'}
+                </span>
+              </div>
+              {user && (
+                <span className="hidden sm:inline text-sm font-medium text-slate-600 dark:text-slate-300">
+                  {user.username}
+                </span>
+              )}
             </div>
+            {onLogout && (
+              <button
+                onClick={onLogout}
+                className="p-2 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
+                title="Sign out"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+                </svg>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { StorageUtils } from '../config/nas';
+import type { Job } from '../utils/jobs';
+
+interface JobsPanelProps {
+  // Bumped by the parent after it starts a job, so polling picks it up
+  refreshKey: number;
+  // Called once for every job seen finishing successfully
+  onJobCompleted?: (job: Job) => void;
+}
+
+// How often running jobs are polled for progress
+const POLL_INTERVAL = 1000;
+
+const JOB_TITLES: { [type in Job['type']]: string } = {
+  extract: 'Extracting',
+  compress: 'Compressing'
+};
+
+export function JobsPanel({ refreshKey, onJobCompleted }: JobsPanelProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Jobs last seen running, to notice when they finish
+  const runningIds = useRef<Set<string>>(new Set());
+  const onJobCompletedRef = useRef(onJobCompleted);
+  onJobCompletedRef.current = onJobCompleted;
+
+  const loadJobs = useCallback(async (): Promise<Job[]> => {
+    try {
+      const response = await fetch('/api/jobs');
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load jobs');
+      }
+
+      const loaded: Job[] = result.jobs;
+      for (const job of loaded) {
+        if (job.status === 'completed' && runningIds.current.has(job.id)) {
+          onJobCompletedRef.current?.(job);
+        }
+      }
+      runningIds.current = new Set(loaded.filter(job => job.status === 'running').map(job => job.id));
+      setJobs(loaded);
+      setError(null);
+      return loaded;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load jobs');
+      return [];
+    }
+  }, []);
+
+  // Poll while anything is running; a new job restarts the loop
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const poll = async () => {
+      const loaded = await loadJobs();
+      if (!stopped && loaded.some(job => job.status === 'running')) {
+        timer = setTimeout(poll, POLL_INTERVAL);
+      }
+    };
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [refreshKey, loadJobs]);
+
+  // Cancels a running job; a finished one is only removed from the list
+  const handleRemove = async (job: Job) => {
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(job.id)}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to cancel job');
+      }
+      if (job.status === 'running') {
+        await loadJobs();
+      } else {
+        setJobs(previous => previous.filter(candidate => candidate.id !== job.id));
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to cancel job');
+    }
+  };
+
+  if (jobs.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-4 border border-slate-200/50 dark:border-slate-700/50 space-y-3">
+      <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-200">Jobs</h3>
+
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-3 py-2 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {jobs.map(job => {
+        const { processedBytes, totalBytes, processedEntries, totalEntries } = job.progress;
+        const percentage = job.status === 'completed' ? 100 : Math.round(StorageUtils.calculatePercentage(processedBytes, totalBytes));
+        const target = job.result ?? job.destination;
+
+        return (
+          <div key={job.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0 truncate text-slate-700 dark:text-slate-300" title={`${job.sources.join(', ')} → ${target}`}>
+                <span className="font-medium">{JOB_TITLES[job.type]}</span> {job.sources.join(', ')} → {target}
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className={`text-xs ${
+                  job.status === 'failed' ? 'text-red-600 dark:text-red-400'
+                    : job.status === 'completed' ? 'text-green-600 dark:text-green-400'
+                    : 'text-slate-500 dark:text-slate-400'
+                }`}>
+                  {job.status === 'running'
+                    ? `${processedEntries}${totalEntries !== null ? ` of ${totalEntries}` : ''} item(s) · ${percentage}%`
+                    : job.status[0].toUpperCase() + job.status.slice(1)}
+                </span>
+                <button
+                  onClick={() => handleRemove(job)}
+                  className="text-xs text-slate-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                >
+                  {job.status === 'running' ? 'Cancel' : 'Dismiss'}
+                </button>
+              </div>
+            </div>
+            {job.status === 'running' && (
+              <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${percentage}%` }} />
+              </div>
+            )}
+            {job.error && (
+              <p className="text-xs text-red-600 dark:text-red-400">{job.error}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Image from 'next/image';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github-dark.css';
+import { getPreviewKind, getPreviewUrl, getHighlightLanguage, TEXT_PREVIEW_LIMIT } from '../utils/preview';
+
+interface PreviewItem {
+  name: string;
+  path: string;
+}
+
+interface PreviewModalProps {
+  // Files the viewer can step through, in display order
+  items: PreviewItem[];
+  index: number | null;
+  onNavigate: (index: number) => void;
+  onDownload: (item: PreviewItem) => void;
+  onClose: () => void;
+}
+
+// Highlighting is synchronous; past this size text is shown plain to keep the page responsive
+const HIGHLIGHT_LIMIT = 256 * 1024;
+
+export function PreviewModal({ items, index, onNavigate, onDownload, onClose }: PreviewModalProps) {
+  const [text, setText] = useState<{ path: string; content: string; truncated: boolean } | null>(null);
+  const [error, setError] = useState<{ path: string; message: string } | null>(null);
+
+  const item = index !== null ? items[index] : undefined;
+  const itemPath = item?.path;
+  const kind = item ? getPreviewKind(item.name) : null;
+
+  // Next/previous step through files of the same kind, e.g. the pictures in a folder
+  const siblings = items
+    .map((candidate, candidateIndex) => ({ candidate, candidateIndex }))
+    .filter(({ candidate }) => getPreviewKind(candidate.name) === kind)
+    .map(({ candidateIndex }) => candidateIndex);
+  const position = index !== null ? siblings.indexOf(index) : -1;
+  const previousIndex = position > 0 ? siblings[position - 1] : null;
+  const nextIndex = position >= 0 && position < siblings.length - 1 ? siblings[position + 1] : null;
+
+  // Text is fetched here rather than framed, so it can be highlighted; only the start of a big file is loaded
+  useEffect(() => {
+    if (!itemPath || kind !== 'text') return;
+    let cancelled = false;
+
+    const loadText = async () => {
+      try {
+        const response = await fetch(getPreviewUrl(itemPath), {
+          headers: { Range: `bytes=0-${TEXT_PREVIEW_LIMIT - 1}` }
+        });
+        // An empty file has no bytes to satisfy the range
+        if (response.status === 416) {
+          if (!cancelled) setText({ path: itemPath, content: '', truncated: false });
+          return;
+        }
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}));
+          throw new Error(result.error || `HTTP ${response.status}`);
+        }
+        const total = Number(response.headers.get('Content-Range')?.split('/')[1]);
+        const content = new TextDecoder().decode(await response.arrayBuffer());
+        if (!cancelled) {
+          setText({ path: itemPath, content, truncated: total > TEXT_PREVIEW_LIMIT });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setError({ path: itemPath, message: error instanceof Error ? error.message : 'Failed to load file' });
+        }
+      }
+    };
+    loadText();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemPath, kind]);
+
+  const highlighted = useMemo(() => {
+    if (!text || !item || text.path !== item.path || text.content.length > HIGHLIGHT_LIMIT) return null;
+    const language = getHighlightLanguage(item.name);
+    if (!language) return null;
+    return hljs.highlight(text.content, { language, ignoreIllegals: true }).value;
+  }, [text, item]);
+
+  // Escape closes, the arrow keys move between files
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft' && previousIndex !== null) {
+        onNavigate(previousIndex);
+      } else if (e.key === 'ArrowRight' && nextIndex !== null) {
+        onNavigate(nextIndex);
+      }
+    };
+
+    if (item) {
+      document.addEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [item, previousIndex, nextIndex, onNavigate, onClose]);
+
+  if (!item || !kind) return null;
+
+  const url = getPreviewUrl(item.path);
+  const itemError = error?.path === item.path ? error.message : null;
+  const itemText = text?.path === item.path ? text : null;
+  const showMediaError = () => setError({ path: item.path, message: 'This file cannot be played in the browser' });
+
+  const renderContent = () => {
+    if (itemError) {
+      return (
+        <div className="py-16 text-center text-slate-300">
+          <p className="mb-4">{itemError}</p>
+          <button
+            onClick={() => onDownload(item)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Download instead
+          </button>
+        </div>
+      );
+    }
+
+    switch (kind) {
+      case 'image':
+        return (
+          <div className="relative w-full h-[75vh]">
+            <Image
+              key={item.path}
+              src={url}
+              alt={item.name}
+              fill
+              unoptimized
+              sizes="100vw"
+              className="object-contain"
+              onError={() => setError({ path: item.path, message: 'This image could not be displayed' })}
+            />
+          </div>
+        );
+      case 'video':
+        return (
+          <video key={item.path} src={url} controls autoPlay preload="metadata" onError={showMediaError} className="w-full max-h-[75vh] bg-black" />
+        );
+      case 'audio':
+        return (
+          <div className="py-16 px-6 flex flex-col items-center space-y-6">
+            <span className="text-6xl">🎵</span>
+            <audio key={item.path} src={url} controls autoPlay preload="metadata" onError={showMediaError} className="w-full max-w-xl" />
+          </div>
+        );
+      case 'pdf':
+        // The browser's own PDF viewer
+        return <iframe key={item.path} src={url} title={item.name} className="w-full h-[75vh] bg-white" />;
+      case 'text':
+        if (!itemText) {
+          return <div className="py-16 text-center text-slate-400">Loading…</div>;
+        }
+        return (
+          <div className="max-h-[75vh] overflow-auto bg-slate-900">
+            {highlighted !== null ? (
+              <pre className="p-4 text-xs leading-relaxed"><code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted }} /></pre>
+            ) : (
+              <pre className="p-4 text-xs leading-relaxed text-slate-200 whitespace-pre-wrap break-words">{itemText.content}</pre>
+            )}
+            {itemText.truncated && (
+              <p className="px-4 pb-4 text-xs text-slate-400">
+                Showing the first {Math.round(TEXT_PREVIEW_LIMIT / 1024)} KB. Download the file to see all of it.
+              </p>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const navigationButtonClassName = 'absolute top-1/2 -translate-y-1/2 z-10 p-3 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-75 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-5xl transform overflow-hidden rounded-lg bg-slate-800 text-left shadow-xl transition-all">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 bg-slate-900 text-slate-100">
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium truncate" title={item.name}>{item.name}</h3>
+              {siblings.length > 1 && (
+                <p className="text-xs text-slate-400">{position + 1} of {siblings.length}</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              <button
+                onClick={() => onDownload(item)}
+                className="px-3 py-1.5 text-sm text-slate-200 rounded-md hover:bg-slate-700 transition-colors"
+              >
+                Download
+              </button>
+              <button
+                onClick={onClose}
+                className="px-3 py-1.5 text-sm text-slate-200 rounded-md hover:bg-slate-700 transition-colors"
+                title="Close"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="relative">
+            {previousIndex !== null && (
+              <button onClick={() => onNavigate(previousIndex)} className={`${navigationButtonClassName} left-3`} title="Previous">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+            )}
+            {renderContent()}
+            {nextIndex !== null && (
+              <button onClick={() => onNavigate(nextIndex)} className={`${navigationButtonClassName} right-3`} title="Next">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
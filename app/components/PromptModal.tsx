@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState, FormEvent } from 'react';
+
+interface PromptModalProps {
+  isOpen: boolean;
+  title: string;
+  label: string;
+  initialValue?: string;
+  confirmText?: string;
+  cancelText?: string;
+  error?: string | null;
+  onConfirm: (value: string) => void;
+  onCancel: () => void;
+}
+
+export function PromptModal({
+  isOpen,
+  title,
+  label,
+  initialValue = '',
+  confirmText = 'OK',
+  cancelText = 'Cancel',
+  error,
+  onConfirm,
+  onCancel
+}: PromptModalProps) {
+  const [value, setValue] = useState(initialValue);
+
+  // Start from the suggested value every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setValue(initialValue);
+    }
+  }, [isOpen, initialValue]);
+
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onConfirm(value.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onCancel}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="relative w-full max-w-md transform overflow-hidden rounded-lg bg-white dark:bg-slate-800 text-left shadow-xl transition-all"
+        >
+          {/* Header */}
+          <div className="bg-slate-50 dark:bg-slate-700 px-6 py-4">
+            <h3 className="text-lg font-medium text-slate-900 dark:text-slate-100">
+              {title}
+            </h3>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-4 space-y-2">
+            <label htmlFor="prompt-value" className="block text-sm text-slate-600 dark:text-slate-300">
+              {label}
+            </label>
+            <input
+              id="prompt-value"
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="w-full px-3 py-2 text-sm rounded-md border border-slate-300 dark:border-slate-500 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="bg-slate-50 dark:bg-slate-700 px-6 py-4 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-600 border border-slate-300 dark:border-slate-500 rounded-md hover:bg-slate-50 dark:hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              {cancelText}
+            </button>
+            <button
+              type="submit"
+              disabled={!value.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 border border-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50"
+            >
+              {confirmText}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
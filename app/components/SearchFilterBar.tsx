@@ -0,0 +1,133 @@
+'use client';
+
+import { FILE_CATEGORIES, FileCategory } from '../utils/mime-types';
+import type { SearchFilters } from '../utils/search';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  // The folder open when the search started, offered as a scope
+  currentPath: string;
+  onChange: (filters: SearchFilters) => void;
+  onClear: () => void;
+}
+
+const CATEGORY_LABELS: { [category in FileCategory]: string } = {
+  folder: 'Folders',
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  pdf: 'PDFs',
+  document: 'Documents',
+  spreadsheet: 'Spreadsheets',
+  archive: 'Archives',
+  other: 'Other'
+};
+
+export function SearchFilterBar({ filters, currentPath, onChange, onClear }: SearchFilterBarProps) {
+  const update = (changes: Partial<SearchFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleType = (category: FileCategory) => {
+    update({
+      types: filters.types.includes(category)
+        ? filters.types.filter(type => type !== category)
+        : [...filters.types, category]
+    });
+  };
+
+  const inputClassName = 'px-2 py-1 text-sm rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const labelClassName = 'flex items-center space-x-2 text-xs font-medium text-slate-500 dark:text-slate-400';
+
+  const modeButtonClassName = (mode: SearchFilters['mode']) => `px-3 py-1 text-xs font-medium transition-colors ${
+    filters.mode === mode
+      ? 'bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900'
+      : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+  }`;
+
+  return (
+    <div className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-4 border border-slate-200/50 dark:border-slate-700/50 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-full overflow-hidden border border-slate-300 dark:border-slate-600 mr-2">
+          <button onClick={() => update({ mode: 'name' })} className={modeButtonClassName('name')}>
+            Names
+          </button>
+          <button onClick={() => update({ mode: 'content' })} className={modeButtonClassName('content')} title="Search the text inside documents">
+            Contents
+          </button>
+        </div>
+        {/* The content index matches words only; the other filters apply to name searches */}
+        {filters.mode === 'name' && FILE_CATEGORIES.map(category => (
+          <button
+            key={category}
+            onClick={() => toggleType(category)}
+            className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+              filters.types.includes(category)
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+            }`}
+          >
+            {CATEGORY_LABELS[category]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        {filters.mode === 'name' && (
+          <>
+            <label className={labelClassName}>
+              <span>Size</span>
+              <input
+                value={filters.minSize}
+                onChange={(e) => update({ minSize: e.target.value })}
+                placeholder="min, e.g. 1MB"
+                className={`${inputClassName} w-28`}
+              />
+              <span>–</span>
+              <input
+                value={filters.maxSize}
+                onChange={(e) => update({ maxSize: e.target.value })}
+                placeholder="max"
+                className={`${inputClassName} w-28`}
+              />
+            </label>
+
+            <label className={labelClassName}>
+              <span>Modified</span>
+              <input
+                type="date"
+                value={filters.modifiedAfter}
+                onChange={(e) => update({ modifiedAfter: e.target.value })}
+                className={inputClassName}
+              />
+              <span>–</span>
+              <input
+                type="date"
+                value={filters.modifiedBefore}
+                onChange={(e) => update({ modifiedBefore: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </>
+        )}
+
+        <label className={labelClassName}>
+          <span>In</span>
+          <select
+            value={filters.path}
+            onChange={(e) => update({ path: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="/">Everywhere</option>
+            {currentPath !== '/' && <option value={currentPath}>{currentPath}</option>}
+          </select>
+        </label>
+
+        <button
+          onClick={onClear}
+          className="ml-auto px-3 py-1 text-sm text-slate-600 dark:text-slate-300 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+        >
+          Clear search
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface ShareLink {
+  token: string;
+  url: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  active: boolean;
+}
+
+interface ShareModalProps {
+  isOpen: boolean;
+  item: { name: string; path: string } | null;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', hours: 0 },
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 }
+];
+
+export function ShareModal({ isOpen, item, onClose }: ShareModalProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [password, setPassword] = useState('');
+  const [expiryHours, setExpiryHours] = useState(0);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    if (!item) return;
+    try {
+      const response = await fetch(`/api/shares?path=${encodeURIComponent(item.path)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load share links');
+      }
+      setLinks(result.shares);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load share links');
+    }
+  }, [item]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setPassword('');
+      setExpiryHours(0);
+      setMaxDownloads('');
+      loadLinks();
+    }
+  }, [isOpen, loadLinks]);
+
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen || !item) return null;
+
+  const handleCreate = async () => {
+    setError(null);
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          path: item.path,
+          password: password || undefined,
+          expiresAt: expiryHours ? new Date(Date.now() + expiryHours * 3600000).toISOString() : null,
+          maxDownloads: maxDownloads ? Number(maxDownloads) : null
+        })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create share link');
+      }
+      setLinks(previous => [...previous, result.share]);
+      setPassword('');
+      copyLink(result.share);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      const response = await fetch(`/api/shares/${encodeURIComponent(link.token)}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to revoke share link');
+      }
+      setLinks(previous => previous.filter(candidate => candidate.token !== link.token));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to revoke share link');
+    }
+  };
+
+  const absoluteUrl = (link: ShareLink) => `${window.location.origin}${link.url}`;
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(link));
+      setCopiedToken(link.token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch (error) {
+      // Clipboard access needs a secure context; the link is still shown
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  const describeLink = (link: ShareLink): string => {
+    const parts = [];
+    if (link.hasPassword) parts.push('password');
+    parts.push(link.expiresAt ? `expires ${new Date(link.expiresAt).toLocaleString()}` : 'no expiry');
+    parts.push(link.maxDownloads !== null
+      ? `${link.downloadCount}/${link.maxDownloads} downloads`
+      : `${link.downloadCount} downloads`);
+    if (!link.active) parts.push('inactive');
+    return parts.join(' · ');
+  };
+
+  const inputClassName = 'w-full px-3 py-2 text-sm rounded-md border border-slate-300 dark:border-slate-500 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-lg transform overflow-hidden rounded-lg bg-white dark:bg-slate-800 text-left shadow-xl transition-all">
+          {/* Header */}
+          <div className="bg-slate-50 dark:bg-slate-700 px-6 py-4">
+            <h3 className="text-lg font-medium text-slate-900 dark:text-slate-100 truncate">
+              Share &quot;{item.name}&quot;
+            </h3>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Optional"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Expires</label>
+                <select
+                  value={expiryHours}
+                  onChange={(e) => setExpiryHours(Number(e.target.value))}
+                  className={inputClassName}
+                >
+                  {EXPIRY_OPTIONS.map(option => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Max downloads</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={maxDownloads}
+                  onChange={(e) => setMaxDownloads(e.target.value)}
+                  placeholder="Unlimited"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            {links.length > 0 && (
+              <div>
+                <h4 className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">
+                  Your links
+                </h4>
+                <ul className="space-y-2">
+                  {links.map(link => (
+                    <li key={link.token} className="p-2 rounded-md bg-slate-50 dark:bg-slate-700/50">
+                      <div className="flex items-center space-x-2">
+                        <input
+                          readOnly
+                          value={absoluteUrl(link)}
+                          onFocus={(e) => e.target.select()}
+                          className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300"
+                        />
+                        <button
+                          onClick={() => copyLink(link)}
+                          className="px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {copiedToken === link.token ? 'Copied' : 'Copy'}
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(link)}
+                          className="px-2 py-1 text-xs font-medium text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                      <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{describeLink(link)}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="bg-slate-50 dark:bg-slate-700 px-6 py-4 flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-600 border border-slate-300 dark:border-slate-500 rounded-md hover:bg-slate-50 dark:hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 border border-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50"
+            >
+              {isCreating ? 'Creating...' : 'Create Link'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,136 @@
 'use client';
 
-import { useState } from 'react';
-import { StorageUtils } from '../config/nas';
+import { useState, useEffect, useCallback } from 'react';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { downloadArchive } from '../utils/download';
 
-interface StorageInfo {
+interface FolderUsage {
+  name: string;
+  path: string;
+  size: number;
+  fileCount: number;
+}
+
+// Response of /api/storage
+interface DiskUsage {
+  capacity: number;
   used: number;
-  total: number;
+  free: number;
+  available: number;
   percentage: number;
-  fileCount: number;
+  folders: FolderUsage[];
+  rootFiles?: FolderUsage;
+  trash?: FolderUsage;
+  dedup: {
+    objects: number;
+    references: number;
+    storedBytes: number;
+    logicalBytes: number;
+    savedBytes: number;
+  };
+  checkedAt: string;
+}
+
+// Responses of /api/folders and /api/folders/pins
+interface FolderTreeNode {
+  name: string;
+  path: string;
+  hasChildren: boolean;
+}
+
+interface PinnedFolder {
+  path: string;
+  name: string;
+  icon: string;
 }
 
 interface SidebarProps {
   currentPath: string;
   onPathChange: (path: string) => void;
-  storageInfo: StorageInfo;
+  // Admins can pin folders to Quick Access
+  isAdmin?: boolean;
+  isTrashOpen?: boolean;
+  onTrashOpen?: () => void;
+}
+
+const PIN_ICONS = ['📁', '📄', '🖼️', '🎵', '🎬', '⬇️', '💾', '👥', '🌐', '👨‍💼', '⭐', '🔒'];
+
+// '/a/b' -> ['/', '/a', '/a/b']
+function getAncestorPaths(path: string): string[] {
+  const segments = path.split('/').filter(Boolean);
+  return ['/', ...segments.map((_, index) => '/' + segments.slice(0, index + 1).join('/'))];
 }
 
-export function Sidebar({ currentPath, onPathChange, storageInfo }: SidebarProps) {
-  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['/', '/Documents', '/Pictures', '/Music']));
+export function Sidebar({ currentPath, onPathChange, isAdmin, isTrashOpen, onTrashOpen }: SidebarProps) {
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['/']));
+  // Subfolders per path, filled in as folders are expanded
+  const [subfolders, setSubfolders] = useState<{ [path: string]: FolderTreeNode[] }>({});
+  const [pins, setPins] = useState<PinnedFolder[]>([]);
+  const [pinDraft, setPinDraft] = useState<{ name: string; icon: string } | null>(null);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [diskUsage, setDiskUsage] = useState<DiskUsage | null>(null);
+  // Right-clicked folder in the tree
+  const [folderMenu, setFolderMenu] = useState<{ path: string; top: number; left: number } | null>(null);
+
+  const loadSubfolders = useCallback(async (path: string) => {
+    try {
+      const response = await fetch(`/api/folders?path=${encodeURIComponent(path)}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+      setSubfolders(previous => ({ ...previous, [path]: result.folders }));
+    } catch (error) {
+      console.error(`Error loading folders in ${path}:`, error);
+      setSubfolders(previous => ({ ...previous, [path]: [] }));
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadPins = async () => {
+      try {
+        const response = await fetch('/api/folders/pins');
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || `HTTP ${response.status}`);
+        }
+        setPins(result.pins);
+      } catch (error) {
+        console.error('Error loading pinned folders:', error);
+      }
+    };
+
+    loadPins();
+  }, []);
+
+  // Open the tree down to the current folder and refresh every level on the
+  // way, so folders created or removed since they were loaded show up
+  useEffect(() => {
+    const ancestors = getAncestorPaths(currentPath);
+    setExpandedFolders(previous => new Set([...previous, ...ancestors]));
+    ancestors.forEach(path => loadSubfolders(path));
+    setPinDraft(null);
+    setPinError(null);
+  }, [currentPath, loadSubfolders]);
+
+  // The server caches the measurement for the same interval, so polling is cheap
+  useEffect(() => {
+    const loadDiskUsage = async () => {
+      try {
+        const response = await fetch('/api/storage');
+        if (!response.ok) {
+          throw new Error(`Storage check failed with status ${response.status}`);
+        }
+        setDiskUsage(await response.json());
+      } catch (error) {
+        console.error('Error loading disk usage:', error);
+      }
+    };
+
+    loadDiskUsage();
+    const interval = setInterval(loadDiskUsage, parseInt(NAS_CONFIG.STORAGE_CHECK_INTERVAL) || 30000);
+    return () => clearInterval(interval);
+  }, []);
 
   const toggleFolder = (path: string) => {
     const newExpanded = new Set(expandedFolders);
@@ -25,67 +138,64 @@ export function Sidebar({ currentPath, onPathChange, storageInfo }: SidebarProps
       newExpanded.delete(path);
     } else {
       newExpanded.add(path);
+      if (!subfolders[path]) {
+        loadSubfolders(path);
+      }
     }
     setExpandedFolders(newExpanded);
   };
 
-  const folderStructure = [
-    {
-      name: 'Home',
-      path: '/',
-      icon: '🏠',
-      children: [
-        { name: 'Documents', path: '/Documents', icon: '📄' },
-        { name: 'Pictures', path: '/Pictures', icon: '🖼️' },
-        { name: 'Music', path: '/Music', icon: '🎵' },
-        { name: 'Videos', path: '/Videos', icon: '🎬' },
-        { name: 'Downloads', path: '/Downloads', icon: '⬇️' },
-        { name: 'Backups', path: '/Backups', icon: '💾' }
-      ]
-    },
-    {
-      name: 'Shared',
-      path: '/shared',
-      icon: '👥',
-      children: [
-        { name: 'Public', path: '/shared/public', icon: '🌐' },
-        { name: 'Team', path: '/shared/team', icon: '👨‍💼' },
-        { name: 'Projects', path: '/shared/projects', icon: '📁' }
-      ]
-    },
-    {
-      name: 'System',
-      path: '/system',
-      icon: '⚙️',
-      children: [
-        { name: 'Logs', path: '/system/logs', icon: '📋' },
-        { name: 'Config', path: '/system/config', icon: '🔧' }
-      ]
+  const savePins = async (nextPins: PinnedFolder[]) => {
+    setPinError(null);
+    try {
+      const response = await fetch('/api/folders/pins', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pins: nextPins })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+      setPins(result.pins);
+      setPinDraft(null);
+    } catch (error) {
+      setPinError(error instanceof Error ? error.message : 'Failed to update pinned folders');
     }
-  ];
+  };
+
+  const getFolderIcon = (path: string) => {
+    if (path === '/') return '🏠';
+    return pins.find(pin => pin.path === path)?.icon || '📁';
+  };
+
+  const isCurrentFolder = (path: string) => !isTrashOpen && currentPath === path;
 
-  const renderFolder = (folder: any, level: number = 0) => {
+  const renderFolder = (folder: FolderTreeNode, level: number = 0) => {
     const isExpanded = expandedFolders.has(folder.path);
-    const isCurrent = currentPath === folder.path;
-    const hasChildren = folder.children && folder.children.length > 0;
+    const children = subfolders[folder.path];
+    // Until a folder is loaded, trust the hint from its parent listing
+    const hasChildren = children ? children.length > 0 : folder.hasChildren;
 
     return (
       <div key={folder.path}>
-        <button
-          onClick={() => {
-            if (hasChildren) {
-              toggleFolder(folder.path);
-            }
-            onPathChange(folder.path);
-          }}
-          className={`w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-left transition-colors ${
-            isCurrent
+        <div
+          className={`w-full flex items-center rounded-lg transition-colors ${
+            isCurrentFolder(folder.path)
               ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
               : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
           }`}
-          style={{ paddingLeft: `${level * 16 + 12}px` }}
+          style={{ paddingLeft: `${level * 16 + 4}px` }}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setFolderMenu({ path: folder.path, top: e.clientY, left: e.clientX });
+          }}
         >
-          {hasChildren && (
+          <button
+            onClick={() => toggleFolder(folder.path)}
+            className={`p-1 rounded ${hasChildren ? '' : 'invisible'}`}
+            title={isExpanded ? 'Collapse' : 'Expand'}
+          >
             <svg
               className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
               fill="none"
@@ -94,88 +204,271 @@ export function Sidebar({ currentPath, onPathChange, storageInfo }: SidebarProps
             >
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
             </svg>
-          )}
-          <span className="text-lg">{folder.icon}</span>
-          <span className="font-medium truncate">{folder.name}</span>
-        </button>
+          </button>
+          <button
+            onClick={() => onPathChange(folder.path)}
+            className="flex-1 min-w-0 flex items-center space-x-2 pr-3 py-2 text-left"
+          >
+            <span className="text-lg">{getFolderIcon(folder.path)}</span>
+            <span className="font-medium truncate">{folder.name}</span>
+          </button>
+        </div>
         
-        {hasChildren && isExpanded && (
+        {hasChildren && isExpanded && children && (
           <div className="mt-1">
-            {folder.children.map((child: any) => renderFolder(child, level + 1))}
+            {children.map(child => renderFolder(child, level + 1))}
           </div>
         )}
       </div>
     );
   };
 
-  const getStorageStatusColor = () => {
-    return StorageUtils.getStorageStatusColor(storageInfo.percentage);
-  };
+  const folderMenuPopup = folderMenu && (
+    <>
+      {/* Clicking anywhere else closes the menu */}
+      <div
+        className="fixed inset-0 z-40"
+        onClick={() => setFolderMenu(null)}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          setFolderMenu(null);
+        }}
+      />
+      <div
+        className="fixed z-50 w-40 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-lg py-1 text-left"
+        style={{ top: folderMenu.top, left: folderMenu.left }}
+      >
+        <button
+          onClick={() => {
+            setFolderMenu(null);
+            onPathChange(folderMenu.path);
+          }}
+          className="block w-full px-3 py-1.5 text-sm text-left text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+        >
+          Open
+        </button>
+        <button
+          onClick={() => {
+            setFolderMenu(null);
+            downloadArchive([folderMenu.path]);
+          }}
+          className="block w-full px-3 py-1.5 text-sm text-left text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+        >
+          Download as ZIP
+        </button>
+      </div>
+    </>
+  );
+
+  const isCurrentPinned = pins.some(pin => pin.path === currentPath);
+
+  const percentage = diskUsage?.percentage ?? 0;
 
   const getStorageStatusText = () => {
-    if (storageInfo.percentage >= 90) return 'Critical';
-    if (storageInfo.percentage >= 75) return 'Warning';
-    if (storageInfo.percentage >= 50) return 'Moderate';
+    if (percentage >= 90) return 'Critical';
+    if (percentage >= 75) return 'Warning';
+    if (percentage >= 50) return 'Moderate';
     return 'Good';
   };
 
+  // Biggest top-level folders first; the rest of the list is rarely interesting
+  const folderUsage = diskUsage
+    ? [
+        ...diskUsage.folders,
+        ...(diskUsage.rootFiles && diskUsage.rootFiles.fileCount > 0 ? [{ ...diskUsage.rootFiles, name: 'Files in Home' }] : []),
+        ...(diskUsage.trash && diskUsage.trash.fileCount > 0 ? [{ ...diskUsage.trash, name: 'Trash' }] : [])
+      ].sort((a, b) => b.size - a.size).slice(0, 5)
+    : [];
+
   return (
-    <aside className="w-64 bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border-r border-slate-200/50 dark:border-slate-700/50 overflow-y-auto">
-      <div className="p-4">
-        <div className="mb-6">
-          <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-200 mb-3">
-            Quick Access
-          </h2>
-          <div className="space-y-1">
-            {folderStructure.map(folder => renderFolder(folder))}
+    <>
+      <aside className="w-64 bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border-r border-slate-200/50 dark:border-slate-700/50 overflow-y-auto">
+        <div className="p-4">
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-200 mb-3">
+              Quick Access
+            </h2>
+            <div className="space-y-1">
+              {pins.map(pin => (
+                <div
+                  key={pin.path}
+                  className={`group w-full flex items-center rounded-lg transition-colors ${
+                    isCurrentFolder(pin.path)
+                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                      : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  <button
+                    onClick={() => onPathChange(pin.path)}
+                    className="flex-1 min-w-0 flex items-center space-x-2 px-3 py-2 text-left"
+                    title={pin.path}
+                  >
+                    <span className="text-lg">{pin.icon}</span>
+                    <span className="font-medium truncate">{pin.name}</span>
+                  </button>
+                  {isAdmin && (
+                    <button
+                      onClick={() => savePins(pins.filter(other => other.path !== pin.path))}
+                      className="px-2 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Unpin"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {isAdmin && !isTrashOpen && !isCurrentPinned && !pinDraft && (
+              <button
+                onClick={() => setPinDraft({ name: currentPath.split('/').filter(Boolean).pop() || 'Home', icon: '📁' })}
+                className="mt-1 w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-left text-sm text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+              >
+                <span>📌</span>
+                <span>Pin current folder</span>
+              </button>
+            )}
+            {pinDraft && (
+              <div className="mt-2 p-3 rounded-lg bg-slate-50 dark:bg-slate-900/40 space-y-2">
+                <div className="flex flex-wrap gap-1">
+                  {PIN_ICONS.map(icon => (
+                    <button
+                      key={icon}
+                      onClick={() => setPinDraft({ ...pinDraft, icon })}
+                      className={`w-8 h-8 rounded text-lg ${
+                        pinDraft.icon === icon ? 'bg-blue-100 dark:bg-blue-900/30' : 'hover:bg-slate-200 dark:hover:bg-slate-700'
+                      }`}
+                    >
+                      {icon}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={pinDraft.name}
+                  onChange={(event) => setPinDraft({ ...pinDraft, name: event.target.value })}
+                  className="w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+                  placeholder="Name"
+                />
+                <div className="flex justify-end space-x-2 text-sm">
+                  <button
+                    onClick={() => setPinDraft(null)}
+                    className="px-2 py-1 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => savePins([...pins, { path: currentPath, ...pinDraft }])}
+                    className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white"
+                  >
+                    Pin
+                  </button>
+                </div>
+              </div>
+            )}
+            {pinError && (
+              <p className="mt-1 text-xs text-red-500">{pinError}</p>
+            )}
           </div>
-        </div>
-        
-        <div className="pt-4 border-t border-slate-200/50 dark:border-slate-700/50">
-          <div className="flex items-center justify-between text-sm text-slate-500 dark:text-slate-400 mb-3">
-            <span>Storage Usage</span>
-            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-              storageInfo.percentage >= 90 
-                ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
-                : storageInfo.percentage >= 75
-                ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400'
-                : storageInfo.percentage >= 50
-                ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400'
-                : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
-            }`}>
-              {getStorageStatusText()}
-            </span>
+
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-200 mb-3">
+              Folders
+            </h2>
+            <div className="space-y-1">
+              {renderFolder({ name: 'Home', path: '/', hasChildren: true })}
+            </div>
+            {onTrashOpen && (
+              <button
+                onClick={onTrashOpen}
+                className={`mt-1 w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-left transition-colors ${
+                  isTrashOpen
+                    ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                    : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                }`}
+              >
+                <span className="text-lg">🗑️</span>
+                <span className="font-medium">Trash</span>
+              </button>
+            )}
           </div>
           
-          <div className="space-y-3">
-            <div className="flex justify-between text-sm">
-              <span>Used</span>
-              <span className="font-medium">{StorageUtils.formatSize(storageInfo.used)}</span>
-            </div>
-            
-            <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
-              <div 
-                className={`h-2 rounded-full transition-all duration-300 bg-gradient-to-r ${getStorageStatusColor()}`}
-                style={{ width: `${storageInfo.percentage}%` }}
-              ></div>
+          <div className="pt-4 border-t border-slate-200/50 dark:border-slate-700/50">
+            <div className="flex items-center justify-between text-sm text-slate-500 dark:text-slate-400 mb-3">
+              <span>Storage Usage</span>
+              {diskUsage && (
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  percentage >= 90
+                    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                    : percentage >= 75
+                    ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400'
+                    : percentage >= 50
+                    ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400'
+                    : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                }`}>
+                  {getStorageStatusText()}
+                </span>
+              )}
             </div>
             
-            <div className="flex justify-between text-sm">
-              <span>Total</span>
-              <span className="font-medium">{StorageUtils.formatSize(storageInfo.total)}</span>
-            </div>
-            
-            <div className="flex justify-between text-sm">
-              <span>Files</span>
-              <span className="font-medium">{storageInfo.fileCount}</span>
-            </div>
-            
-            <div className="text-xs text-slate-400 dark:text-slate-500 text-center">
-              {storageInfo.percentage.toFixed(1)}% used
-            </div>
+            {diskUsage ? (
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span>Used</span>
+                  <span className="font-medium">{StorageUtils.formatSize(diskUsage.used)}</span>
+                </div>
+                
+                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+                  <div 
+                    className={`h-2 rounded-full transition-all duration-300 bg-gradient-to-r ${StorageUtils.getStorageStatusColor(percentage)}`}
+                    style={{ width: `${percentage}%` }}
+                  ></div>
+                </div>
+                
+                <div className="flex justify-between text-sm">
+                  <span>Free</span>
+                  <span className="font-medium">{StorageUtils.formatSize(diskUsage.available)}</span>
+                </div>
+                
+                <div className="flex justify-between text-sm">
+                  <span>Total</span>
+                  <span className="font-medium">{StorageUtils.formatSize(diskUsage.capacity)}</span>
+                </div>
+                
+                <div className="text-xs text-slate-400 dark:text-slate-500 text-center">
+                  {percentage.toFixed(1)}% used
+                </div>
+
+                {diskUsage.dedup.savedBytes > 0 && (
+                  <div
+                    className="flex justify-between text-sm text-green-600 dark:text-green-400"
+                    title={`${diskUsage.dedup.references} files share ${diskUsage.dedup.objects} stored copies`}
+                  >
+                    <span>Saved by dedup</span>
+                    <span className="font-medium">{StorageUtils.formatSize(diskUsage.dedup.savedBytes)}</span>
+                  </div>
+                )}
+
+                {folderUsage.length > 0 && (
+                  <div className="pt-3 border-t border-slate-200/50 dark:border-slate-700/50 space-y-1">
+                    {folderUsage.map(folder => (
+                      <div key={folder.path || folder.name} className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                        <span className="truncate mr-2" title={`${folder.fileCount} file(s)`}>{folder.name}</span>
+                        <span className="font-medium whitespace-nowrap">{StorageUtils.formatSize(folder.size)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-xs text-slate-400 dark:text-slate-500 text-center">
+                Checking disk usage...
+              </div>
+            )}
           </div>
         </div>
-      </div>
-    </aside>
+      </aside>
+      {/* Outside the sidebar, whose backdrop blur would otherwise anchor the fixed menu to it */}
+      {folderMenuPopup}
+    </>
   );
 }
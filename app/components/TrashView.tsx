@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ConfirmModal } from './ConfirmModal';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+
+interface TrashItem {
+  id: string;
+  name: string;
+  originalPath: string;
+  deletedAt: string;
+  deletedBy: string;
+  isDirectory: boolean;
+  size: number;
+  sizeFormatted: string;
+}
+
+interface TrashViewProps {
+  // Called after items were restored or deleted for good, which changes storage usage
+  onTrashChanged?: () => void;
+}
+
+export function TrashView({ onTrashChanged }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [totalSize, setTotalSize] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // null closes the modal, 'all' empties the trash, otherwise a single item
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem | 'all' | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/trash');
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load trash');
+      }
+      setItems(result.entries);
+      setTotalSize(result.totalSize);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const response = await fetch(`/api/trash/${encodeURIComponent(item.id)}`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to restore');
+      }
+      setItems(previous => previous.filter(candidate => candidate.id !== item.id));
+      setTotalSize(previous => previous - item.size);
+      onTrashChanged?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore');
+    }
+  };
+
+  const handlePurge = async () => {
+    const target = purgeTarget;
+    setPurgeTarget(null);
+    if (!target) return;
+
+    try {
+      const url = target === 'all' ? '/api/trash' : `/api/trash/${encodeURIComponent(target.id)}`;
+      const response = await fetch(url, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete');
+      }
+      onTrashChanged?.();
+      await loadTrash();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete');
+    }
+  };
+
+  const closePurgeModal = useCallback(() => setPurgeTarget(null), []);
+
+  const retentionDays = parseFloat(NAS_CONFIG.TRASH_RETENTION_DAYS);
+
+  return (
+    <div className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-200/50 dark:border-slate-700/50 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200/50 dark:border-slate-700/50">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200">
+            Trash
+            {isLoading && (
+              <span className="ml-2 text-sm text-slate-500 dark:text-slate-400">(Loading...)</span>
+            )}
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {items.length} item(s) · {StorageUtils.formatSize(totalSize)}
+            {retentionDays > 0 && ` · Items are deleted permanently after ${retentionDays} day(s)`}
+          </p>
+        </div>
+        <button
+          onClick={() => setPurgeTarget('all')}
+          disabled={items.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md transition-colors disabled:opacity-50"
+        >
+          Empty Trash
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-3 py-2 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">🗑️</div>
+          <p className="text-slate-500 dark:text-slate-400">The trash is empty</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200/50 dark:divide-slate-700/50">
+            <thead className="bg-slate-50/50 dark:bg-slate-700/50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Original Location</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Deleted</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Size</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200/50 dark:divide-slate-700/50">
+              {items.map(item => (
+                <tr key={item.id} className="hover:bg-slate-50/50 dark:hover:bg-slate-700/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center space-x-3">
+                      <span className="text-xl">{item.isDirectory ? '📁' : '📄'}</span>
+                      <span className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate max-w-xs" title={item.name}>
+                        {item.name}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-500 dark:text-slate-400">
+                    {item.originalPath}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                    {new Date(item.deletedAt).toLocaleString()}
+                    <span className="block text-xs">by {item.deletedBy}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                    {item.sizeFormatted}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => setPurgeTarget(item)}
+                      className="font-medium text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete forever
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={purgeTarget !== null}
+        title={purgeTarget === 'all' ? 'Empty Trash' : 'Delete Forever'}
+        message={purgeTarget === 'all'
+          ? `Permanently delete all ${items.length} item(s) in the trash? This action cannot be undone.`
+          : `Permanently delete "${purgeTarget?.name}"? This action cannot be undone.`}
+        confirmText="Delete Forever"
+        cancelText="Cancel"
+        onConfirm={handlePurge}
+        onCancel={closePurgeModal}
+        type="danger"
+      />
+    </div>
+  );
+}
@@ -3,18 +3,31 @@ export const NAS_CONFIG = {
   UPLOAD_BASE_PATH: process.env.NEXT_PUBLIC_UPLOAD_BASE_PATH || '/uploads',
   MAX_FILE_SIZE: process.env.NEXT_PUBLIC_MAX_FILE_SIZE || '100MB',
   ALLOWED_FILE_TYPES: process.env.NEXT_PUBLIC_ALLOWED_FILE_TYPES || '*',
+  CHUNK_SIZE: process.env.NEXT_PUBLIC_CHUNK_SIZE || '5MB',
+  CHUNK_SESSION_TTL: process.env.NEXT_PUBLIC_CHUNK_SESSION_TTL || '86400000', // 24 hours
   
   // Storage limits and configuration
   MAX_TOTAL_UPLOADS: process.env.NEXT_PUBLIC_MAX_TOTAL_UPLOADS || '10GB',
   MAX_FILES_COUNT: process.env.NEXT_PUBLIC_MAX_FILES_COUNT || '1000',
+  // Default per-user quotas for non-admin accounts; 0 means unlimited
+  USER_MAX_UPLOADS: process.env.NEXT_PUBLIC_USER_MAX_UPLOADS || '0',
+  USER_MAX_FILES_COUNT: process.env.NEXT_PUBLIC_USER_MAX_FILES_COUNT || '0',
   STORAGE_CHECK_INTERVAL: process.env.NEXT_PUBLIC_STORAGE_CHECK_INTERVAL || '30000', // 30 seconds
+  TRASH_RETENTION_DAYS: process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS || '30', // 0 keeps deleted items until purged
+  DEDUPLICATION: process.env.NEXT_PUBLIC_DEDUPLICATION || 'true', // identical uploads share storage via hard links
+  PDF_RENDERER: process.env.NEXT_PUBLIC_PDF_RENDERER ?? 'pdftoppm', // poppler's pdftoppm for PDF thumbnails; empty disables them
+  CONTENT_INDEX: process.env.NEXT_PUBLIC_CONTENT_INDEX || 'true', // full-text index of documents for content search
+  PDF_TEXT_EXTRACTOR: process.env.NEXT_PUBLIC_PDF_TEXT_EXTRACTOR ?? 'pdftotext', // poppler's pdftotext for indexing PDFs; empty skips them
+  
+  // Authentication
+  SESSION_MAX_AGE: process.env.NEXT_PUBLIC_SESSION_MAX_AGE || '604800', // 7 days, in seconds
   
   // Storage paths
   STORAGE_PATH: process.env.NEXT_PUBLIC_STORAGE_PATH || '/mnt/nas/storage',
   BACKUP_PATH: process.env.NEXT_PUBLIC_BACKUP_PATH || '/mnt/nas/backups',
   SHARED_PATH: process.env.NEXT_PUBLIC_SHARED_PATH || '/mnt/nas/shared',
   
-  // Default directories
+  // Created under STORAGE_PATH the first time the server starts (see utils/folder-tree.ts)
   DEFAULT_DIRECTORIES: [
     '/',
     '/Documents',
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+
+export default function LoginPage() {
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Where to go once signed in; only same-origin paths are accepted
+  const getRedirectTarget = () => {
+    const next = new URLSearchParams(window.location.search).get('next');
+    if (!next || !next.startsWith('/')) return '/';
+    // Browsers read "//host" and "/\host" as protocol-relative, so compare the
+    // resolved origin rather than the string's prefix
+    const target = new URL(next, window.location.origin);
+    return target.origin === window.location.origin ? `${target.pathname}${target.search}${target.hash}` : '/';
+  };
+
+  useEffect(() => {
+    const checkSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+        if (data.authenticated) {
+          window.location.replace(getRedirectTarget());
+          return;
+        }
+        setNeedsSetup(Boolean(data.needsSetup));
+      } catch (error) {
+        console.error('Failed to check session:', error);
+        setNeedsSetup(false);
+      }
+    };
+
+    checkSession();
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (needsSetup && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(needsSetup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Sign in failed');
+      }
+
+      window.location.replace(getRedirectTarget());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-indigo-900">
+      <div className="w-full max-w-sm bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-8 border border-slate-200/50 dark:border-slate-700/50 shadow-lg">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800 dark:text-slate-200">
+              {needsSetup ? 'Create Admin Account' : 'Sign In'}
+            </h1>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              NAS File Manager
+            </p>
+          </div>
+        </div>
+
+        {needsSetup === null ? (
+          <div className="flex justify-center py-8">
+            <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {needsSetup && (
+              <p className="text-sm text-slate-600 dark:text-slate-300 bg-blue-50 dark:bg-blue-900/20 px-3 py-2 rounded-lg">
+                No accounts exist yet. The account you create now will be the administrator.
+              </p>
+            )}
+
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">
+                Username
+              </label>
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClassName}
+                required
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            {needsSetup && (
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">
+                  Confirm Password
+                </label>
+                <input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-3 py-2 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`w-full px-4 py-2 rounded-lg font-medium transition-colors ${
+                isSubmitting
+                  ? 'bg-slate-300 dark:bg-slate-600 text-slate-500 dark:text-slate-400 cursor-not-allowed'
+                  : 'bg-blue-600 hover:bg-blue-700 text-white'
+              }`}
+            >
+              {isSubmitting ? 'Please wait...' : needsSetup ? 'Create Account' : 'Sign In'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
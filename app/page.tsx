@@ -6,7 +6,22 @@ import { FileList } from './components/FileList';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { NetworkInfo } from './components/NetworkInfo';
+import { PromptModal } from './components/PromptModal';
+import { TrashView } from './components/TrashView';
+import { SearchFilterBar } from './components/SearchFilterBar';
+import { JobsPanel } from './components/JobsPanel';
 import { NAS_CONFIG, StorageUtils } from './config/nas';
+import type { SessionUser } from './utils/auth';
+import type { QuotaSummary, QuotaUsage } from './utils/quota';
+import type { SearchResult } from './utils/file-search';
+import type { ListingSort } from './utils/folder-listing';
+import type { Job } from './utils/jobs';
+import { searchFiles, searchFileContents, hasSearchCriteria, EMPTY_SEARCH_FILTERS, SearchFilters } from './utils/search';
+
+// Typing pauses this long before the search runs
+const SEARCH_DELAY = 300;
+// Entries fetched per request while scrolling through a folder
+const LISTING_PAGE_SIZE = 200;
 
 export default function Home() {
   const [currentPath, setCurrentPath] = useState('/');
@@ -15,6 +30,28 @@ export default function Home() {
   const [isUploading, setIsUploading] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [isLoadingFiles, setIsLoadingFiles] = useState(false);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [isNewFolderOpen, setIsNewFolderOpen] = useState(false);
+  const [newFolderError, setNewFolderError] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [quota, setQuota] = useState<QuotaSummary | null>(null);
+  // Folders are listed a page at a time; null sort keeps the server's default order
+  const [listingSort, setListingSort] = useState<ListingSort | null>(null);
+  const [listingCursor, setListingCursor] = useState<string | null>(null);
+  const [listingTotal, setListingTotal] = useState(0);
+  // Bumped whenever a job is started from the file list
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+  const listingAbortRef = useRef<AbortController | null>(null);
+  // While a search is open its results replace the folder listing
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchCursor, setSearchCursor] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Content searches return the best hits of a larger total, and only see what the indexer has read so far
+  const [contentSearch, setContentSearch] = useState<{ total: number; indexing: boolean } | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
   const [storageInfo, setStorageInfo] = useState({
     used: 0,
     total: StorageUtils.parseSize(NAS_CONFIG.MAX_TOTAL_UPLOADS),
@@ -22,76 +59,149 @@ export default function Home() {
     fileCount: 0
   });
 
-  // Load files from the server
+  // Load the signed-in user for the header
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+        if (data.authenticated) {
+          setCurrentUser(data.user);
+        } else {
+          window.location.replace('/login');
+        }
+      } catch (error) {
+        console.error('Error loading session:', error);
+      }
+    };
+
+    loadSession();
+  }, []);
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.replace('/login');
+    }
+  }, []);
+
+  // Load the first page of a folder; the rest follows as the list is scrolled
   const loadFilesFromServer = useCallback(async (path: string) => {
+    listingAbortRef.current?.abort();
+    const controller = new AbortController();
+    listingAbortRef.current = controller;
     setIsLoadingFiles(true);
     try {
-      const response = await fetch(`/api/files?path=${encodeURIComponent(path)}`);
+      const response = await fetch(getListingUrl(path, listingSort), { signal: controller.signal });
+      if (response.status === 401) {
+        // Session expired while the page was open
+        window.location.replace('/login');
+        return;
+      }
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
           setUploadedFiles(data.files);
-          console.log('Loaded files from server:', data.files);
+          setListingCursor(data.nextCursor);
+          setListingTotal(data.total);
         }
       } else {
         console.error('Failed to load files:', response.statusText);
       }
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('Error loading files:', error);
     } finally {
-      setIsLoadingFiles(false);
+      if (listingAbortRef.current === controller) {
+        setIsLoadingFiles(false);
+      }
     }
-  }, []);
+  }, [listingSort]);
+
+  const loadMoreFiles = useCallback(async () => {
+    if (!listingCursor || isLoadingFiles) return;
+
+    const controller = new AbortController();
+    listingAbortRef.current = controller;
+    setIsLoadingFiles(true);
+    try {
+      const response = await fetch(getListingUrl(currentPath, listingSort, listingCursor), { signal: controller.signal });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setUploadedFiles(prev => [...prev, ...data.files]);
+      setListingCursor(data.nextCursor);
+      setListingTotal(data.total);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error loading more files:', error);
+      // Stop asking until the folder is reloaded
+      setListingCursor(null);
+    } finally {
+      if (listingAbortRef.current === controller) {
+        setIsLoadingFiles(false);
+      }
+    }
+  }, [currentPath, listingSort, listingCursor, isLoadingFiles]);
 
   // Load files when path changes
   useEffect(() => {
     loadFilesFromServer(currentPath);
   }, [currentPath, loadFilesFromServer]);
 
-  // Calculate storage usage from uploaded files
-  const calculateStorageUsage = useCallback(() => {
-    const totalUsed = uploadedFiles.reduce((sum, file) => sum + file.size, 0);
-    const total = StorageUtils.parseSize(NAS_CONFIG.MAX_TOTAL_UPLOADS);
-    const percentage = StorageUtils.calculatePercentage(totalUsed, total);
-    
-    setStorageInfo({
-      used: totalUsed,
-      total,
-      percentage,
-      fileCount: uploadedFiles.length
-    });
-  }, [uploadedFiles]);
-
-  // Check if upload would exceed limits
+  // Usage of the whole storage root (and the user's own quota), measured by the server
+  const loadQuota = useCallback(async () => {
+    try {
+      const response = await fetch('/api/quota');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      setQuota({ storage: data.storage, user: data.user });
+      setStorageInfo({
+        used: data.storage.usedBytes,
+        total: data.storage.maxBytes || 0,
+        percentage: StorageUtils.calculatePercentage(data.storage.usedBytes, data.storage.maxBytes || 0),
+        fileCount: data.storage.fileCount
+      });
+    } catch (error) {
+      console.error('Error loading quota usage:', error);
+    }
+  }, []);
+
+  // Early feedback only: the server enforces the same limits on upload
   const checkUploadLimits = useCallback((newFiles: File[]): { allowed: boolean; reason?: string } => {
-    const currentUsed = uploadedFiles.reduce((sum, file) => sum + file.size, 0);
+    if (!quota) return { allowed: true };
+
     const newFilesSize = newFiles.reduce((sum, file) => sum + file.size, 0);
-    const total = StorageUtils.parseSize(NAS_CONFIG.MAX_TOTAL_UPLOADS);
-    const maxFiles = parseInt(NAS_CONFIG.MAX_FILES_COUNT);
-
-    // Check file count limit
-    if (uploadedFiles.length + newFiles.length > maxFiles) {
-      return { 
-        allowed: false, 
-        reason: `Maximum file count (${maxFiles}) would be exceeded` 
-      };
-    }
+    const checks: [QuotaUsage, string][] = [[quota.storage, 'Storage'], [quota.user, 'Your']];
 
-    // Check storage size limit
-    if (currentUsed + newFilesSize > total) {
-      return { 
-        allowed: false, 
-        reason: `Storage limit (${NAS_CONFIG.MAX_TOTAL_UPLOADS}) would be exceeded` 
-      };
+    for (const [usage, label] of checks) {
+      if (usage.maxFiles !== null && usage.fileCount + newFiles.length > usage.maxFiles) {
+        return {
+          allowed: false,
+          reason: `${label} file count limit (${usage.maxFiles}) would be exceeded`
+        };
+      }
+      if (usage.maxBytes !== null && usage.usedBytes + newFilesSize > usage.maxBytes) {
+        return {
+          allowed: false,
+          reason: `${label} quota (${StorageUtils.formatSize(usage.maxBytes)}) would be exceeded`
+        };
+      }
     }
 
     return { allowed: true };
-  }, [uploadedFiles]);
+  }, [quota]);
 
-  // Update storage info when files change
+  // Measured once here; the handlers below refresh it after uploads, deletes,
+  // moves and copies rather than on every listing change
   useEffect(() => {
-    calculateStorageUsage();
-  }, [uploadedFiles, calculateStorageUsage]);
+    loadQuota();
+  }, [loadQuota]);
 
   const handleFileUpload = useCallback((newFiles: File[]) => {
     const limitsCheck = checkUploadLimits(newFiles);
@@ -108,6 +218,11 @@ export default function Home() {
     setFiles(prev => prev.filter((_, i) => i !== index));
   }, []);
 
+  const handleFilesRemove = useCallback((indexes: number[]) => {
+    const removed = new Set(indexes);
+    setFiles(prev => prev.filter((_, i) => !removed.has(i)));
+  }, []);
+
   const handleUpload = useCallback(async () => {
     if (files.length === 0) return;
     
@@ -133,38 +248,181 @@ export default function Home() {
   const addUploadedFiles = useCallback((newFiles: any[]) => {
     console.log('Adding uploaded files to list:', newFiles);
     setUploadedFiles(prev => [...prev, ...newFiles]);
+    loadQuota();
     
     // Refresh the file list from the server to ensure consistency
     setTimeout(() => {
       loadFilesFromServer(currentPath);
     }, 1000);
-  }, [currentPath, loadFilesFromServer]);
+  }, [currentPath, loadFilesFromServer, loadQuota]);
 
   // Function to handle file deletion
   const handleFileDeleted = useCallback((fileId: string) => {
     console.log('File deleted:', fileId);
     // Remove the deleted file from the local state
     setUploadedFiles(prev => prev.filter(file => file.id !== fileId));
+    loadQuota();
     
     // Refresh the file list from the server to ensure consistency
     setTimeout(() => {
       loadFilesFromServer(currentPath);
     }, 500);
+  }, [currentPath, loadFilesFromServer, loadQuota]);
+
+  // Moves, copies, renames and batch actions change the listing and may change usage
+  const handleFilesChanged = useCallback(() => {
+    loadFilesFromServer(currentPath);
+    loadQuota();
+  }, [currentPath, loadFilesFromServer, loadQuota]);
+
+  const startWatchingJobs = useCallback(() => {
+    setJobsRefreshKey(key => key + 1);
+  }, []);
+
+  // An extracted folder or a new archive may belong in the folder on screen
+  const handleJobCompleted = useCallback((job: Job) => {
+    loadQuota();
+    if (job.destination === currentPath) {
+      loadFilesFromServer(currentPath);
+    }
+  }, [currentPath, loadFilesFromServer, loadQuota]);
+
+  // Clickable segments of the current path, starting at the root
+  const breadcrumbs = currentPath.split('/').filter(Boolean).reduce(
+    (crumbs, segment) => [...crumbs, { name: segment, path: `${crumbs[crumbs.length - 1].path.replace(/\/$/, '')}/${segment}` }],
+    [{ name: '/', path: '/' }]
+  );
+
+  const handleCreateFolder = useCallback(async (name: string) => {
+    try {
+      const response = await fetch('/api/files/mkdir', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: currentPath, name })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create folder');
+      }
+
+      setIsNewFolderOpen(false);
+      loadFilesFromServer(currentPath);
+    } catch (error) {
+      setNewFolderError(error instanceof Error ? error.message : 'Failed to create folder');
+    }
   }, [currentPath, loadFilesFromServer]);
 
+  const closeNewFolder = useCallback(() => setIsNewFolderOpen(false), []);
+
+  // Start a search over, or continue it from a cursor. Matches show up as
+  // the server finds them; starting over cancels a search still running.
+  const runSearch = useCallback(async (filters: SearchFilters, cursor: string | null = null) => {
+    searchAbortRef.current?.abort();
+    if (!cursor) {
+      setSearchResults([]);
+      setSearchCursor(null);
+      setContentSearch(null);
+    }
+    setSearchError(null);
+    if (!hasSearchCriteria(filters)) {
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    setIsSearching(true);
+    try {
+      if (filters.mode === 'content') {
+        const page = await searchFileContents(filters, controller.signal);
+        setSearchResults(page.hits);
+        setContentSearch({ total: page.total, indexing: page.index.indexing });
+      } else {
+        const page = await searchFiles(
+          filters,
+          result => setSearchResults(prev => [...prev, result]),
+          { cursor, signal: controller.signal }
+        );
+        setSearchCursor(page.nextCursor);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setSearchError(error instanceof Error ? error.message : 'Search failed');
+    } finally {
+      if (searchAbortRef.current === controller) {
+        setIsSearching(false);
+      }
+    }
+  }, []);
+
+  // Re-run the search a moment after the query or a filter changes
+  useEffect(() => {
+    if (!isSearchOpen) return;
+    const timer = setTimeout(() => runSearch(searchFilters), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [isSearchOpen, searchFilters, runSearch]);
+
+  const handleSearchQueryChange = useCallback((query: string) => {
+    setSearchFilters(prev => ({ ...prev, query }));
+    if (query.trim()) {
+      setIsTrashOpen(false);
+      setIsSearchOpen(true);
+    }
+  }, []);
+
+  const openSearch = useCallback(() => {
+    setIsTrashOpen(false);
+    setIsSearchOpen(true);
+  }, []);
+
+  const closeSearch = useCallback(() => {
+    searchAbortRef.current?.abort();
+    setIsSearchOpen(false);
+    setIsSearching(false);
+    setSearchFilters(EMPTY_SEARCH_FILTERS);
+    setSearchResults([]);
+    setSearchCursor(null);
+    setSearchError(null);
+    setContentSearch(null);
+  }, []);
+
+  // Picking a folder anywhere leaves the trash view; items restored
+  // meanwhile may belong in the folder that is already open
+  const openPath = useCallback((path: string) => {
+    setIsTrashOpen(false);
+    closeSearch();
+    if (path === currentPath) {
+      loadFilesFromServer(path);
+    }
+    setCurrentPath(path);
+  }, [currentPath, loadFilesFromServer, closeSearch]);
+
   const formatFileSize = (bytes: number): string => {
     return StorageUtils.formatSize(bytes);
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-indigo-900">
-      <Header />
+      <Header
+        user={currentUser}
+        onLogout={handleLogout}
+        searchQuery={searchFilters.query}
+        onSearchQueryChange={handleSearchQueryChange}
+        onSearch={openSearch}
+        onSearchClear={closeSearch}
+      />
       
       <div className="flex h-[calc(100vh-4rem)]">
         <Sidebar 
           currentPath={currentPath}
-          onPathChange={setCurrentPath}
-          storageInfo={storageInfo}
+          onPathChange={openPath}
+          isAdmin={currentUser?.role === 'admin'}
+          isTrashOpen={isTrashOpen}
+          onTrashOpen={() => {
+            closeSearch();
+            setIsTrashOpen(true);
+          }}
         />
         
         <main className="flex-1 p-6 overflow-auto">
@@ -200,74 +458,193 @@ export default function Home() {
               </div>
             </div>
 
-            {/* File Upload Section */}
-            <FileUploader
-              files={files}
-              onFilesAdded={handleFileUpload}
-              onFileRemove={handleFileRemove}
-              onUpload={handleUpload}
-              isUploading={isUploading}
-              currentPath={currentPath}
-              storageInfo={storageInfo}
-              maxTotalUploads={NAS_CONFIG.MAX_TOTAL_UPLOADS}
-              maxFilesCount={NAS_CONFIG.MAX_FILES_COUNT}
-              onUploadComplete={addUploadedFiles}
-            />
-
-            {/* View Mode Toggle */}
-            <div className="flex items-center justify-between">
-              <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200">
-                Files in {currentPath}
-                {isLoadingFiles && (
-                  <span className="ml-2 text-sm text-slate-500 dark:text-slate-400">
-                    (Loading...)
-                  </span>
+            {isTrashOpen ? (
+              <TrashView onTrashChanged={loadQuota} />
+            ) : (
+              <>
+                {/* File Upload Section */}
+                {isSearchOpen ? (
+                  <SearchFilterBar
+                    filters={searchFilters}
+                    currentPath={currentPath}
+                    onChange={setSearchFilters}
+                    onClear={closeSearch}
+                  />
+                ) : (
+                  <FileUploader
+                    files={files}
+                    onFilesAdded={handleFileUpload}
+                    onFileRemove={handleFileRemove}
+                    onFilesRemove={handleFilesRemove}
+                    onUpload={handleUpload}
+                    isUploading={isUploading}
+                    currentPath={currentPath}
+                    storageInfo={storageInfo}
+                    maxTotalUploads={NAS_CONFIG.MAX_TOTAL_UPLOADS}
+                    maxFilesCount={NAS_CONFIG.MAX_FILES_COUNT}
+                    onUploadComplete={addUploadedFiles}
+                  />
+                )}
+
+                <JobsPanel refreshKey={jobsRefreshKey} onJobCompleted={handleJobCompleted} />
+
+                {/* View Mode Toggle */}
+                <div className="flex items-center justify-between">
+                  {isSearchOpen ? (
+                    <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200">
+                      Search results
+                      <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">
+                        {isSearching
+                          ? `(Searching... ${searchResults.length} found)`
+                          : hasSearchCriteria(searchFilters)
+                            ? `(${searchResults.length}${searchCursor ? '+' : ''}${contentSearch && contentSearch.total > searchResults.length ? ` of ${contentSearch.total}` : ''} found${searchFilters.path !== '/' ? ` in ${searchFilters.path}` : ''}${contentSearch?.indexing ? ', still indexing' : ''})`
+                            : searchFilters.mode === 'content' ? '(Type the words to look for)' : '(Type a name or pick a filter)'}
+                      </span>
+                    </h2>
+                  ) : (
+                    <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200">
+                      Files in{' '}
+                      {breadcrumbs.map((crumb, index) => (
+                        <span key={crumb.path}>
+                          {index > 1 && <span className="text-slate-400">/</span>}
+                          {index === breadcrumbs.length - 1 ? (
+                            <span>{crumb.name}</span>
+                          ) : (
+                            <button
+                              onClick={() => setCurrentPath(crumb.path)}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {crumb.name}
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      {isLoadingFiles ? (
+                        <span className="ml-2 text-sm text-slate-500 dark:text-slate-400">
+                          (Loading...)
+                        </span>
+                      ) : listingTotal > uploadedFiles.length && (
+                        <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">
+                          ({uploadedFiles.length} of {listingTotal})
+                        </span>
+                      )}
+                    </h2>
+                  )}
+                  <div className="flex items-center space-x-2">
+                    {!isSearchOpen && (
+                      <button
+                        onClick={() => {
+                          setNewFolderError(null);
+                          setIsNewFolderOpen(true);
+                        }}
+                        className="p-2 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
+                        title="New folder"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6m-3-3v6m-9 1V7a2 2 0 012-2h6l2 2h6a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2z" />
+                        </svg>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => isSearchOpen ? runSearch(searchFilters) : loadFilesFromServer(currentPath)}
+                      className="p-2 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
+                      title="Refresh file list"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => setViewMode('grid')}
+                      className={`p-2 rounded-lg transition-colors ${
+                        viewMode === 'grid' 
+                          ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400' 
+                          : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600'
+                      }`}
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => setViewMode('list')}
+                      className={`p-2 rounded-lg transition-colors ${
+                        viewMode === 'list' 
+                          ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400' 
+                          : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600'
+                      }`}
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+
+                {searchError && (
+                  <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+                    {searchError}
+                  </div>
+                )}
+
+                {/* File List */}
+                {isSearchOpen ? (
+                  <FileList
+                    files={searchResults}
+                    viewMode={viewMode}
+                    currentPath={currentPath}
+                    showLocation
+                    emptyMessage={isSearching ? 'Searching...' : 'Nothing matches this search.'}
+                    onFileDeleted={(fileId) => {
+                      setSearchResults(prev => prev.filter(result => result.id !== fileId));
+                      loadQuota();
+                    }}
+                    onFolderOpen={openPath}
+                    onFilesChanged={() => {
+                      runSearch(searchFilters);
+                      loadQuota();
+                    }}
+                    onJobStarted={startWatchingJobs}
+                  />
+                ) : (
+                  <FileList
+                    files={uploadedFiles}
+                    viewMode={viewMode}
+                    currentPath={currentPath}
+                    onFileDeleted={handleFileDeleted}
+                    onFolderOpen={openPath}
+                    onFilesChanged={handleFilesChanged}
+                    sort={listingSort}
+                    onSortChange={setListingSort}
+                    hasMore={listingCursor !== null}
+                    isLoadingMore={isLoadingFiles}
+                    onLoadMore={loadMoreFiles}
+                    onJobStarted={startWatchingJobs}
+                  />
                 )}
-              </h2>
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={() => loadFilesFromServer(currentPath)}
-                  className="p-2 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
-                  title="Refresh file list"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                </button>
-                <button
-                  onClick={() => setViewMode('grid')}
-                  className={`p-2 rounded-lg transition-colors ${
-                    viewMode === 'grid' 
-                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400' 
-                      : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600'
-                  }`}
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
-                  </svg>
-                </button>
-                <button
-                  onClick={() => setViewMode('list')}
-                  className={`p-2 rounded-lg transition-colors ${
-                    viewMode === 'list' 
-                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400' 
-                      : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600'
-                  }`}
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
-                  </svg>
-                </button>
-              </div>
-            </div>
 
-            {/* File List */}
-            <FileList
-              files={uploadedFiles}
-              viewMode={viewMode}
-              currentPath={currentPath}
-              onFileDeleted={handleFileDeleted}
-            />
+                {isSearchOpen && searchCursor && !isSearching && (
+                  <div className="text-center">
+                    <button
+                      onClick={() => runSearch(searchFilters, searchCursor)}
+                      className="px-4 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 bg-white/70 dark:bg-slate-800/70 border border-slate-200/50 dark:border-slate-700/50 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                    >
+                      Load more results
+                    </button>
+                  </div>
+                )}
+
+                <PromptModal
+                  isOpen={isNewFolderOpen}
+                  title="New Folder"
+                  label={`Create a folder in ${currentPath}`}
+                  confirmText="Create"
+                  error={newFolderError}
+                  onConfirm={handleCreateFolder}
+                  onCancel={closeNewFolder}
+                />
+              </>
+            )}
 
             {/* Debug Info (remove in production) */}
             {process.env.NODE_ENV === 'development' && (
@@ -286,3 +663,13 @@ export default function Home() {
     </div>
   );
 }
+
+function getListingUrl(path: string, sort: ListingSort | null, cursor?: string): string {
+  const params = new URLSearchParams({ path, limit: String(LISTING_PAGE_SIZE) });
+  if (sort) {
+    params.set('sort', sort.key);
+    params.set('order', sort.order);
+  }
+  if (cursor) params.set('cursor', cursor);
+  return `/api/files?${params}`;
+}
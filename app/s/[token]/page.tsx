@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { useParams } from 'next/navigation';
+
+interface SharedEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  sizeFormatted: string;
+  modifiedAt: string;
+}
+
+interface ShareDetails {
+  name: string;
+  type: 'file' | 'directory';
+  owner: string;
+  expiresAt: string | null;
+  remainingDownloads: number | null;
+}
+
+interface ShareState {
+  share: ShareDetails;
+  file?: { name: string; sizeFormatted: string; modifiedAt: string };
+  path?: string;
+  entries?: SharedEntry[];
+}
+
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<ShareState | null>(null);
+  const [currentPath, setCurrentPath] = useState('/');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const apiBase = `/api/s/${encodeURIComponent(token)}`;
+
+  const loadShare = useCallback(async (path: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${apiBase}?path=${encodeURIComponent(path)}`);
+      const result = await response.json();
+
+      if (result.code === 'password_required') {
+        setNeedsPassword(true);
+        return;
+      }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'This link is not available');
+      }
+
+      setNeedsPassword(false);
+      setError(null);
+      setState(result);
+      setCurrentPath(result.path || '/');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'This link is not available');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    loadShare('/');
+  }, [loadShare]);
+
+  const handleUnlock = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const response = await fetch(apiBase, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Incorrect password');
+      }
+      await loadShare('/');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Incorrect password');
+    }
+  };
+
+  const downloadUrl = (path: string) => `${apiBase}/download?path=${encodeURIComponent(path)}`;
+
+  const parentPath = currentPath === '/' ? null : currentPath.split('/').slice(0, -1).join('/') || '/';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-indigo-900">
+      <div className="w-full max-w-lg bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm rounded-xl p-8 border border-slate-200/50 dark:border-slate-700/50 shadow-lg">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center">
+            <span className="text-xl">{state?.share.type === 'directory' ? '📁' : '📄'}</span>
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-slate-800 dark:text-slate-200 truncate">
+              {state ? state.share.name : 'Shared File'}
+            </h1>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {state ? `Shared by ${state.share.owner}` : 'NAS File Manager'}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-3 py-2 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {isLoading && !state && !needsPassword ? (
+          <div className="flex justify-center py-8">
+            <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : needsPassword ? (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <label htmlFor="share-password" className="block text-sm font-medium text-slate-600 dark:text-slate-300">
+              This link is password protected
+            </label>
+            <input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+              autoFocus
+            />
+            <button
+              type="submit"
+              className="w-full px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Unlock
+            </button>
+          </form>
+        ) : state?.file ? (
+          <div className="space-y-4">
+            <div className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+              <p>Size: {state.file.sizeFormatted}</p>
+              <p>Modified: {new Date(state.file.modifiedAt).toLocaleString()}</p>
+            </div>
+            <a
+              href={downloadUrl('/')}
+              className="block w-full text-center px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Download
+            </a>
+          </div>
+        ) : state?.entries ? (
+          <div>
+            <div className="flex items-center justify-between mb-3 text-sm text-slate-500 dark:text-slate-400">
+              <span className="truncate">{currentPath}</span>
+              {parentPath && (
+                <button onClick={() => loadShare(parentPath)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  Up
+                </button>
+              )}
+            </div>
+            {state.entries.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">This folder is empty.</p>
+            ) : (
+              <ul className="divide-y divide-slate-200/50 dark:divide-slate-700/50">
+                {state.entries.map(entry => (
+                  <li key={entry.path} className="flex items-center justify-between py-2">
+                    {entry.isDirectory ? (
+                      <button
+                        onClick={() => loadShare(entry.path)}
+                        className="flex items-center space-x-2 text-left text-slate-800 dark:text-slate-200 hover:text-blue-600 truncate"
+                      >
+                        <span>📁</span>
+                        <span className="truncate">{entry.name}</span>
+                      </button>
+                    ) : (
+                      <>
+                        <span className="flex items-center space-x-2 text-slate-800 dark:text-slate-200 truncate">
+                          <span>📄</span>
+                          <span className="truncate">{entry.name}</span>
+                        </span>
+                        <a
+                          href={downloadUrl(entry.path)}
+                          className="ml-3 text-sm text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                        >
+                          {entry.sizeFormatted} ⬇
+                        </a>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : null}
+
+        {state && (
+          <div className="mt-6 text-xs text-slate-400 dark:text-slate-500 space-y-1">
+            {state.share.expiresAt && <p>Expires {new Date(state.share.expiresAt).toLocaleString()}</p>}
+            {state.share.remainingDownloads !== null && <p>{state.share.remainingDownloads} download(s) remaining</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
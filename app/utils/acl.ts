@@ -0,0 +1,198 @@
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+import { getSystemFilePath, readJsonFile, writeJsonFile } from './json-store';
+import { normalizeVirtualPath, joinVirtualPath, ResolvedStoragePath } from './storage-path';
+import { AuthError, SessionUser, requireUser } from './auth';
+
+const ACL_FILE = 'acl.json';
+
+export type AclPermission = 'read' | 'write' | 'delete';
+
+export const ACL_PERMISSIONS: AclPermission[] = ['read', 'write', 'delete'];
+
+// A rule grants permissions on a path prefix to a principal:
+// 'user:<name>', 'group:<name>' or '*' for every signed-in user
+export interface AclRule {
+  path: string;
+  principal: string;
+  permissions: AclPermission[];
+}
+
+interface AclFile {
+  rules: AclRule[];
+}
+
+// Used until an admin saves a rule set of their own. Home folders stay open,
+// the shared tree is split by audience and /system is left to admins.
+const DEFAULT_ACL_RULES: AclRule[] = [
+  { path: '/', principal: '*', permissions: ['read', 'write', 'delete'] },
+  { path: '/shared/public', principal: '*', permissions: ['read', 'write'] },
+  { path: '/shared/team', principal: 'group:team', permissions: ['read', 'write', 'delete'] },
+  { path: '/shared/projects', principal: 'group:team', permissions: ['read', 'write', 'delete'] },
+  { path: '/shared/projects', principal: '*', permissions: ['read'] },
+  { path: '/system', principal: '*', permissions: [] }
+];
+
+const PRINCIPAL_PATTERN = /^(\*|user:[a-zA-Z0-9._-]{1,32}|group:[^\s:]{1,64})$/;
+
+export const AclStore = {
+  async list(): Promise<AclRule[]> {
+    const { rules } = await readJsonFile<AclFile>(getSystemFilePath(ACL_FILE), { rules: DEFAULT_ACL_RULES });
+    return rules;
+  },
+
+  // Replace the whole rule set; rules are validated and normalized first
+  async replace(rules: unknown): Promise<AclRule[]> {
+    if (!Array.isArray(rules)) {
+      throw new AuthError('Rules must be an array', 400);
+    }
+
+    const normalized = rules.map((rule, index) => normalizeRule(rule, index));
+    await writeJsonFile<AclFile>(getSystemFilePath(ACL_FILE), { rules: normalized });
+    return normalized;
+  }
+};
+
+// Effective permissions of a user on a virtual path. The most specific path
+// prefix that has rules decides; all of its rules that apply to the user are
+// combined. A prefix with rules, none of which match the user, denies access.
+// Admins always have every permission.
+export async function getPermissions(user: SessionUser, virtualPath: string): Promise<AclPermission[]> {
+  if (user.role === 'admin') {
+    return [...ACL_PERMISSIONS];
+  }
+
+  const rules = await AclStore.list();
+  return resolvePermissions(rules, user, virtualPath);
+}
+
+export async function hasPermission(user: SessionUser, virtualPath: string, permission: AclPermission): Promise<boolean> {
+  return (await getPermissions(user, virtualPath)).includes(permission);
+}
+
+export async function assertPermission(user: SessionUser, virtualPath: string, permission: AclPermission): Promise<void> {
+  if (!(await hasPermission(user, virtualPath, permission))) {
+    throw new AuthError(`You do not have ${permission} access to ${virtualPath}`, 403);
+  }
+}
+
+// Check a permission on a folder and on every folder below it, so an operation
+// on the whole tree (copy, move, delete) cannot reach into subfolders with
+// stricter rules. Symlinks are not followed.
+export async function assertTreePermission(
+  user: SessionUser,
+  folder: ResolvedStoragePath,
+  permission: AclPermission
+): Promise<void> {
+  await assertPermission(user, folder.virtualPath, permission);
+  if (user.role === 'admin') return;
+
+  const pending = [folder];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    const entries = await readdir(current.absolutePath, { withFileTypes: true }).catch(() => []);
+    const subfolders = entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => ({
+        virtualPath: joinVirtualPath(current.virtualPath, entry.name),
+        absolutePath: join(current.absolutePath, entry.name)
+      }));
+
+    const permissions = await getPermissionsForPaths(user, subfolders.map(subfolder => subfolder.virtualPath));
+    if (subfolders.some(subfolder => !permissions[subfolder.virtualPath].includes(permission))) {
+      // Without naming the subfolder, which the user may not even be able to see
+      throw new AuthError(`You do not have ${permission} access to everything in ${folder.virtualPath}`, 403);
+    }
+    pending.push(...subfolders);
+  }
+}
+
+// Check the session and the ACL for a route in one go
+export async function requirePermission(
+  request: Request,
+  virtualPath: string,
+  permission: AclPermission
+): Promise<SessionUser> {
+  const user = await requireUser(request);
+  await assertPermission(user, virtualPath, permission);
+  return user;
+}
+
+// Permissions for several paths at once, loading the rule set only once
+export async function getPermissionsForPaths(
+  user: SessionUser,
+  virtualPaths: string[]
+): Promise<{ [path: string]: AclPermission[] }> {
+  const rules = user.role === 'admin' ? [] : await AclStore.list();
+  const result: { [path: string]: AclPermission[] } = {};
+
+  for (const virtualPath of virtualPaths) {
+    result[virtualPath] = user.role === 'admin'
+      ? [...ACL_PERMISSIONS]
+      : resolvePermissions(rules, user, virtualPath);
+  }
+  return result;
+}
+
+function resolvePermissions(rules: AclRule[], user: SessionUser, virtualPath: string): AclPermission[] {
+  let bestLength = -1;
+  let candidates: AclRule[] = [];
+
+  for (const rule of rules) {
+    if (!isPathPrefix(rule.path, virtualPath)) continue;
+
+    if (rule.path.length > bestLength) {
+      bestLength = rule.path.length;
+      candidates = [rule];
+    } else if (rule.path.length === bestLength) {
+      candidates.push(rule);
+    }
+  }
+
+  const granted = new Set<AclPermission>();
+  for (const rule of candidates) {
+    if (appliesTo(rule.principal, user)) {
+      rule.permissions.forEach(permission => granted.add(permission));
+    }
+  }
+  return ACL_PERMISSIONS.filter(permission => granted.has(permission));
+}
+
+// Segment-aware prefix check: /shared/team covers /shared/team/x but not /shared/teamwork
+function isPathPrefix(prefix: string, virtualPath: string): boolean {
+  return prefix === '/' || virtualPath === prefix || virtualPath.startsWith(`${prefix}/`);
+}
+
+function appliesTo(principal: string, user: SessionUser): boolean {
+  if (principal === '*') return true;
+  if (principal.startsWith('user:')) return principal.slice(5) === user.username;
+  if (principal.startsWith('group:')) return user.groups.includes(principal.slice(6));
+  return false;
+}
+
+function normalizeRule(rule: unknown, index: number): AclRule {
+  const { path, principal, permissions } = (rule || {}) as Partial<AclRule>;
+
+  if (typeof path !== 'string') {
+    throw new AuthError(`Rule ${index + 1}: path is required`, 400);
+  }
+  if (typeof principal !== 'string' || !PRINCIPAL_PATTERN.test(principal)) {
+    throw new AuthError(`Rule ${index + 1}: principal must be "*", "user:<name>" or "group:<name>"`, 400);
+  }
+  if (!Array.isArray(permissions) || permissions.some(permission => !ACL_PERMISSIONS.includes(permission))) {
+    throw new AuthError(`Rule ${index + 1}: permissions must be a list of ${ACL_PERMISSIONS.join(', ')}`, 400);
+  }
+
+  let normalizedPath: string;
+  try {
+    normalizedPath = normalizeVirtualPath(path);
+  } catch (error) {
+    throw new AuthError(`Rule ${index + 1}: ${(error as Error).message}`, 400);
+  }
+
+  return {
+    path: normalizedPath,
+    principal,
+    permissions: ACL_PERMISSIONS.filter(permission => permissions.includes(permission))
+  };
+}
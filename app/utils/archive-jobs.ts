@@ -0,0 +1,345 @@
+import { mkdir, open, rm, stat, unlink, utimes } from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { dirname, join, posix, sep } from 'path';
+import { Readable, pipeline as pipelineStreams } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import { SessionUser } from './auth';
+import { assertPermission } from './acl';
+import { resolveStoragePath, joinVirtualPath, ResolvedStoragePath } from './storage-path';
+import { reserveQuota, assertQuota, QuotaReservation, trackTemporaryFile } from './quota';
+import { getNumberedFileName, placeFile } from './file-names';
+import { validateEntryName } from './file-operations';
+import { getArchiveFormat, ArchiveFormat, ARCHIVE_FORMATS } from './mime-types';
+import { readZipDirectory, openZipEntry, ZipEntry } from './zip-reader';
+import { readTarEntries } from './tar-reader';
+import { resolveArchiveItems, walkArchiveItems, createArchiveStream } from './archive';
+import { JobRegistry, Job, JobError } from './jobs';
+import { scheduleIndexUpdate } from './content-index';
+import { ZipSource } from './zip-writer';
+
+// Entries macOS adds to archives for its own metadata
+const MACOS_METADATA_FOLDER = '__MACOSX';
+
+// Unpack a zip, tar or tar.gz file into a new folder named after it, next to
+// the archive unless another destination is given. Everything the archive
+// would place outside that folder makes the job fail before it is written.
+export async function startExtractJob(user: SessionUser, path: string, destinationPath?: string): Promise<Job> {
+  const source = await resolveExistingFile(user, path);
+  const format = await detectArchiveFormat(source.absolutePath);
+  if (!format) {
+    throw new JobError('Only zip, tar and tar.gz archives can be extracted', 415);
+  }
+
+  const destination = await resolveWritableFolder(user, destinationPath ?? parentOf(source.virtualPath));
+
+  // A zip lists its contents up front, so a quota problem shows before any work starts
+  const zipEntries = format === 'zip' ? await readZipDirectory(source.absolutePath) : null;
+  if (zipEntries) {
+    if (zipEntries.some(entry => entry.encrypted)) {
+      throw new JobError('Encrypted archives cannot be extracted', 415);
+    }
+    const files = zipEntries.filter(entry => !entry.isDirectory && !entry.isSymlink);
+    await assertQuota(user, files.reduce((total, entry) => total + entry.uncompressedSize, 0), files.length);
+  }
+
+  const target = await createTargetFolder(destination, getExtractedFolderName(posix.basename(source.virtualPath)));
+
+  return startOrRemove(target, () => JobRegistry.start(user, {
+    type: 'extract',
+    sources: [source.virtualPath],
+    destination: destination.virtualPath,
+    result: target.virtualPath
+  }, async (job, signal) => {
+    const reservation = await reserveQuota(user);
+    const writtenFiles: string[] = [];
+    try {
+      if (zipEntries) {
+        await extractZip(source.absolutePath, zipEntries, target, { job, signal, reservation, writtenFiles });
+      } else {
+        await extractTar(source.absolutePath, format === 'tar.gz', target, { job, signal, reservation, writtenFiles });
+      }
+    } catch (error) {
+      reservation.release();
+      // Leave nothing half-extracted behind
+      await rm(target.absolutePath, { recursive: true, force: true }).catch(() => {});
+      throw error;
+    }
+
+    await reservation.commit(writtenFiles);
+    scheduleIndexUpdate(target.virtualPath);
+    return target.virtualPath;
+  }));
+}
+
+// Pack files and folders into a new archive in the destination folder. The
+// format follows the name's extension; an existing name gets a number.
+export async function startCompressJob(user: SessionUser, paths: string[], destinationPath: string, name: string): Promise<Job> {
+  const archiveName = validateEntryName(name);
+  const format = getArchiveFormat(archiveName);
+  if (!format) {
+    throw new JobError(`The archive name must end in ${ARCHIVE_FORMATS.map(extension => `.${extension}`).join(', ')}`, 400);
+  }
+
+  const items = await resolveArchiveItems(user, paths);
+  const destination = await resolveWritableFolder(user, destinationPath);
+
+  return JobRegistry.start(user, {
+    type: 'compress',
+    sources: items.map(item => item.virtualPath),
+    destination: destination.virtualPath,
+    result: null
+  }, async (job, signal) => {
+    // List everything first so progress has a total
+    const sources: ZipSource[] = [];
+    for await (const source of walkArchiveItems(user, items)) {
+      if (signal.aborted) throw new Error('Cancelled');
+      sources.push(source);
+    }
+    job.progress.totalEntries = sources.length;
+    job.progress.totalBytes = sources.reduce((total, source) => total + (source.size ?? 0), 0);
+
+    // Hidden while it is written, and left out of the quota scan (see quota.ts)
+    const tempPath = join(destination.absolutePath, `.${job.id}.part`);
+    const reservation = await reserveQuota(user);
+    const untrack = trackTemporaryFile(tempPath);
+    try {
+      reservation.add(0, 1);
+      await pipeline(
+        Readable.from(createArchiveStream(trackSources(sources, job), format)),
+        async function* (chunks: AsyncIterable<Buffer>) {
+          for await (const chunk of chunks) {
+            if (signal.aborted) throw new Error('Cancelled');
+            reservation.add(chunk.length, 0);
+            yield chunk;
+          }
+        },
+        createWriteStream(tempPath, { flags: 'wx' })
+      );
+
+      const placed = await placeFile(tempPath, destination.absolutePath, archiveName, 'rename');
+      const finalPath = join(destination.absolutePath, placed.fileName);
+      await reservation.commit([finalPath]);
+      return joinVirtualPath(destination.virtualPath, placed.fileName);
+    } catch (error) {
+      reservation.release();
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    } finally {
+      untrack();
+    }
+  });
+}
+
+interface ExtractContext {
+  job: Job;
+  signal: AbortSignal;
+  reservation: QuotaReservation;
+  // Absolute paths of the files created, recorded as the user's on success
+  writtenFiles: string[];
+}
+
+async function extractZip(archivePath: string, entries: ZipEntry[], target: ResolvedStoragePath, context: ExtractContext): Promise<void> {
+  const { job } = context;
+  job.progress.totalEntries = entries.length;
+  job.progress.totalBytes = entries.reduce((total, entry) => total + entry.uncompressedSize, 0);
+
+  for (const entry of entries) {
+    if (context.signal.aborted) throw new Error('Cancelled');
+    // Links could point anywhere on the host, as in tar archives below
+    const destination = entry.isSymlink ? null : await resolveEntryPath(target, entry.name);
+    if (destination) {
+      if (entry.isDirectory) {
+        await mkdir(destination, { recursive: true });
+      } else {
+        const data = await openZipEntry(archivePath, entry);
+        await writeEntry(destination, data, entry.uncompressedSize, entry.modifiedAt, context);
+      }
+    }
+    job.progress.processedEntries++;
+  }
+}
+
+async function extractTar(archivePath: string, gzipped: boolean, target: ResolvedStoragePath, context: ExtractContext): Promise<void> {
+  const { job } = context;
+  // The contents are only known once they are read, so progress follows the archive file
+  job.progress.totalBytes = (await stat(archivePath)).size;
+
+  async function* track(input: Readable): AsyncGenerator<Buffer> {
+    for await (const chunk of input) {
+      job.progress.processedBytes += chunk.length;
+      yield chunk;
+    }
+  }
+
+  const file = Readable.from(track(createReadStream(archivePath)));
+  // pipeline destroys every stream on an error, which ends the loop below with it
+  const input = gzipped ? pipelineStreams(file, createGunzip(), () => {}) : file;
+
+  for await (const { entry, data } of readTarEntries(input)) {
+    // Links could point anywhere on the host; special files have no place on a NAS
+    if (entry.type !== 'file' && entry.type !== 'directory') continue;
+    if (context.signal.aborted) throw new Error('Cancelled');
+
+    const destination = await resolveEntryPath(target, entry.name);
+    if (destination) {
+      if (entry.type === 'directory') {
+        await mkdir(destination, { recursive: true });
+      } else {
+        await writeEntry(destination, data, entry.size, entry.modifiedAt, context, false);
+      }
+    }
+    job.progress.processedEntries++;
+  }
+}
+
+// Write one file of the archive, holding its size against the quota first.
+// A zip entry that inflates past its declared size is rejected.
+async function writeEntry(
+  absolutePath: string,
+  data: AsyncIterable<Buffer>,
+  size: number,
+  modifiedAt: Date,
+  context: ExtractContext,
+  countsProgress = true
+): Promise<void> {
+  const { job, signal, reservation } = context;
+  reservation.add(size, 1);
+  await mkdir(dirname(absolutePath), { recursive: true });
+
+  let written = 0;
+  await pipeline(
+    data,
+    async function* (chunks: AsyncIterable<Buffer>) {
+      for await (const chunk of chunks) {
+        if (signal.aborted) throw new Error('Cancelled');
+        written += chunk.length;
+        if (written > size) {
+          throw new JobError(`${posix.basename(absolutePath)} is larger than the archive says`, 422);
+        }
+        if (countsProgress) job.progress.processedBytes += chunk.length;
+        yield chunk;
+      }
+    },
+    createWriteStream(absolutePath)
+  );
+
+  context.writtenFiles.push(absolutePath);
+  await utimes(absolutePath, modifiedAt, modifiedAt).catch(() => {});
+}
+
+// Where an archive entry goes on disk, or null for entries that are not
+// extracted (hidden files and macOS metadata). Paths that would leave the
+// target folder are refused: the storage root check rejects parent segments
+// and symlinks out of the root, and the result must stay inside the target.
+async function resolveEntryPath(target: ResolvedStoragePath, entryName: string): Promise<string | null> {
+  const unsafe = () => new JobError(`The archive contains an unsafe path: ${entryName}`, 422);
+
+  const name = entryName.replace(/\\/g, '/');
+  if (name.startsWith('/') || /^[a-zA-Z]:/.test(name) || /[\x00-\x1f]/.test(name)) {
+    throw unsafe();
+  }
+  const segments = name.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw unsafe();
+  }
+  if (segments.length === 0 || segments[0] === MACOS_METADATA_FOLDER || segments.some(segment => segment.startsWith('.'))) {
+    return null;
+  }
+
+  const resolved = await resolveStoragePath(joinVirtualPath(target.virtualPath, segments.join('/')));
+  if (!resolved.absolutePath.startsWith(`${target.absolutePath}${sep}`)) {
+    throw unsafe();
+  }
+  return resolved.absolutePath;
+}
+
+// What the first bytes say, whatever the name claims
+async function detectArchiveFormat(absolutePath: string): Promise<ArchiveFormat | null> {
+  const file = await open(absolutePath, 'r');
+  try {
+    const header = Buffer.alloc(512);
+    const { bytesRead } = await file.read(header, 0, header.length, 0);
+    if (bytesRead >= 4 && header.readUInt32LE(0) === 0x04034b50) return 'zip';
+    // An archive with no entries is just its end record
+    if (bytesRead >= 4 && header.readUInt32LE(0) === 0x06054b50) return 'zip';
+    if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) return 'tar.gz';
+    if (bytesRead === 512 && header.toString('ascii', 257, 262) === 'ustar') return 'tar';
+    return null;
+  } finally {
+    await file.close();
+  }
+}
+
+// "photos.tar.gz" -> "photos"
+function getExtractedFolderName(archiveName: string): string {
+  const name = archiveName.replace(/\.(zip|tar|tar\.gz|tgz|gz)$/i, '');
+  return name && !name.startsWith('.') ? name : 'Extracted';
+}
+
+// A new, empty folder: "photos", or "photos (1)" if that is taken
+async function createTargetFolder(destination: ResolvedStoragePath, name: string): Promise<ResolvedStoragePath> {
+  for (let number = 0; ; number++) {
+    const candidate = number === 0 ? name : getNumberedFileName(name, number);
+    const target = await resolveStoragePath(joinVirtualPath(destination.virtualPath, candidate));
+    try {
+      await mkdir(target.absolutePath);
+      return target;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+}
+
+// The job registry may refuse to start another job
+async function startOrRemove(target: ResolvedStoragePath, start: () => Job): Promise<Job> {
+  try {
+    return start();
+  } catch (error) {
+    await rm(target.absolutePath, { recursive: true, force: true }).catch(() => {});
+    throw error;
+  }
+}
+
+// Permission comes first, so the answer does not reveal what exists in unreadable folders
+async function resolveExistingFile(user: SessionUser, path: string): Promise<ResolvedStoragePath> {
+  const resolved = await resolveStoragePath(path);
+  await assertPermission(user, resolved.virtualPath, 'read');
+  const stats = await stat(resolved.absolutePath).catch(() => null);
+  if (!stats?.isFile()) {
+    throw new JobError(`"${resolved.virtualPath}" was not found`, 404);
+  }
+  return resolved;
+}
+
+async function resolveWritableFolder(user: SessionUser, path: string): Promise<ResolvedStoragePath> {
+  const resolved = await resolveStoragePath(path);
+  await assertPermission(user, resolved.virtualPath, 'write');
+  const stats = await stat(resolved.absolutePath).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new JobError(`Folder "${resolved.virtualPath}" was not found`, 404);
+  }
+  return resolved;
+}
+
+// Progress of a compress job, counted as each source is handed to the writer
+async function* trackSources(sources: ZipSource[], job: Job): AsyncGenerator<ZipSource> {
+  let previous: ZipSource | null = null;
+  for (const source of sources) {
+    if (previous) {
+      job.progress.processedBytes += previous.size ?? 0;
+      job.progress.processedEntries++;
+    }
+    previous = source;
+    yield source;
+  }
+  if (previous) {
+    job.progress.processedBytes += previous.size ?? 0;
+    job.progress.processedEntries++;
+  }
+}
+
+function parentOf(virtualPath: string): string {
+  const parent = posix.dirname(virtualPath);
+  return parent === '.' ? '/' : parent;
+}
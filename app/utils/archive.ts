@@ -0,0 +1,169 @@
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { Readable, pipeline } from 'stream';
+import { createGzip } from 'zlib';
+import { assertPermission, getPermissionsForPaths } from './acl';
+import { SessionUser } from './auth';
+import { getFileType, getFileCategory, ArchiveFormat } from './mime-types';
+import { resolveStoragePath, joinVirtualPath } from './storage-path';
+import { createZipStream, ZipSource } from './zip-writer';
+import { createTarStream } from './tar-writer';
+
+// Paths one archive request may name; each can be a whole folder
+export const MAX_ARCHIVE_ITEMS = 1000;
+
+// Formats that are compressed already gain nothing from deflate
+const STORED_CATEGORIES = ['image', 'video', 'audio', 'archive'];
+
+export interface ArchiveItem {
+  virtualPath: string;
+  absolutePath: string;
+  // Top-level name inside the archive, unique among the items
+  name: string;
+  isDirectory: boolean;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Check the requested paths and turn them into the archive's top-level
+// entries. Paths inside another requested folder are already included with it.
+export async function resolveArchiveItems(user: SessionUser, paths: string[]): Promise<ArchiveItem[]> {
+  if (paths.length === 0) {
+    throw new ArchiveError('At least one path is required', 400);
+  }
+  if (paths.length > MAX_ARCHIVE_ITEMS) {
+    throw new ArchiveError(`At most ${MAX_ARCHIVE_ITEMS} paths can be archived at once`, 400);
+  }
+
+  const resolved = [];
+  for (const path of paths) {
+    const { virtualPath, absolutePath } = await resolveStoragePath(path);
+    await assertPermission(user, virtualPath, 'read');
+
+    const stats = await stat(absolutePath).catch(() => null);
+    if (!stats || !(stats.isFile() || stats.isDirectory())) {
+      throw new ArchiveError(`${virtualPath} does not exist`, 404);
+    }
+    resolved.push({ virtualPath, absolutePath, isDirectory: stats.isDirectory() });
+  }
+
+  const items: ArchiveItem[] = [];
+  const usedNames = new Set<string>();
+  for (const item of resolved) {
+    const covered = resolved.some(other => other !== item && other.isDirectory &&
+      (other.virtualPath === '/' || item.virtualPath.startsWith(`${other.virtualPath}/`)));
+    if (covered || items.some(existing => existing.virtualPath === item.virtualPath)) continue;
+
+    const name = getUniqueName(item.virtualPath === '/' ? 'Home' : item.virtualPath.split('/').pop()!, usedNames);
+    usedNames.add(name.toLowerCase());
+    items.push({ ...item, name });
+  }
+  return items;
+}
+
+// File name offered for the download
+export function getArchiveName(items: ArchiveItem[]): string {
+  return items.length === 1 ? `${items[0].name}.zip` : 'download.zip';
+}
+
+// The items as an archive, chunk by chunk
+export function streamArchive(user: SessionUser, items: ArchiveItem[], format: ArchiveFormat = 'zip'): AsyncGenerator<Buffer> {
+  return createArchiveStream(walkArchiveItems(user, items), format);
+}
+
+export async function* createArchiveStream(sources: AsyncIterable<ZipSource>, format: ArchiveFormat): AsyncGenerator<Buffer> {
+  switch (format) {
+    case 'zip':
+      yield* createZipStream(sources);
+      break;
+    case 'tar':
+      yield* createTarStream(sources);
+      break;
+    case 'tar.gz':
+      // pipeline destroys every stream on an error, which ends the loop with it
+      yield* pipeline(Readable.from(createTarStream(sources)), createGzip(), () => {});
+      break;
+  }
+}
+
+// Every entry of the archive, folders before their contents, in name order.
+// Folders the user cannot read are left out with everything in them, as are
+// hidden entries and symlinks.
+export async function* walkArchiveItems(user: SessionUser, items: ArchiveItem[]): AsyncGenerator<ZipSource> {
+  for (const item of items) {
+    if (!item.isDirectory) {
+      const source = await toFileSource(item.name, item.absolutePath);
+      if (source) yield source;
+      continue;
+    }
+
+    // Pending folders, popped from the end; children are pushed in reverse so the walk stays in order
+    const stack = [{ name: item.name, virtualPath: item.virtualPath, absolutePath: item.absolutePath }];
+    while (stack.length > 0) {
+      const folder = stack.pop()!;
+      const folderStats = await stat(folder.absolutePath).catch(() => null);
+      if (!folderStats) continue;
+      yield { name: folder.name, isDirectory: true, modifiedAt: folderStats.mtime };
+
+      const entries = await readdir(folder.absolutePath, { withFileTypes: true }).catch(() => []);
+      const visible = entries
+        .filter(entry => !entry.name.startsWith('.') && (entry.isFile() || entry.isDirectory()))
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+      const folderPaths = visible.filter(entry => entry.isDirectory()).map(entry => joinVirtualPath(folder.virtualPath, entry.name));
+      const permissions = await getPermissionsForPaths(user, folderPaths);
+      const subfolders = [];
+
+      for (const entry of visible) {
+        const name = `${folder.name}/${entry.name}`;
+        const absolutePath = join(folder.absolutePath, entry.name);
+        if (entry.isDirectory()) {
+          const virtualPath = joinVirtualPath(folder.virtualPath, entry.name);
+          if (permissions[virtualPath].includes('read')) {
+            subfolders.push({ name, virtualPath, absolutePath });
+          }
+          continue;
+        }
+
+        const source = await toFileSource(name, absolutePath);
+        if (source) yield source;
+      }
+
+      stack.push(...subfolders.reverse());
+    }
+  }
+}
+
+async function toFileSource(name: string, absolutePath: string): Promise<ZipSource | null> {
+  // Removed since it was listed
+  const stats = await stat(absolutePath).catch(() => null);
+  if (!stats?.isFile()) return null;
+
+  const fileName = name.split('/').pop()!;
+  return {
+    name,
+    isDirectory: false,
+    modifiedAt: stats.mtime,
+    absolutePath,
+    size: stats.size,
+    store: STORED_CATEGORIES.includes(getFileCategory(getFileType(fileName)))
+  };
+}
+
+// "name", then "name (2)", "name (3)", ... before the extension; names differing only in case collide on some systems
+function getUniqueName(name: string, usedNames: Set<string>): string {
+  if (!usedNames.has(name.toLowerCase())) return name;
+
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  for (let i = 2; ; i++) {
+    const candidate = `${base} (${i})${extension}`;
+    if (!usedNames.has(candidate.toLowerCase())) return candidate;
+  }
+}
@@ -0,0 +1,368 @@
+import { scrypt, randomBytes, createHmac, timingSafeEqual } from 'crypto';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { promisify } from 'util';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { getSystemFilePath, readJsonFile, updateJsonFile } from './json-store';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'nas_session';
+
+const USERS_FILE = 'users.json';
+const SESSION_SECRET_FILE = 'session-secret';
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{1,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+export type UserRole = 'admin' | 'user';
+
+// Per-user overrides of USER_MAX_UPLOADS / USER_MAX_FILES_COUNT (see quota.ts);
+// a missing field falls back to the default, 0 means unlimited
+export interface UserQuota {
+  maxSize?: string;
+  maxFiles?: number;
+}
+
+interface StoredUser {
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  groups: string[];
+  quota?: UserQuota;
+  createdAt: string;
+}
+
+interface UsersFile {
+  users: StoredUser[];
+}
+
+// What the rest of the app gets to see about a user; never includes the hash
+export interface SessionUser {
+  username: string;
+  role: UserRole;
+  groups: string[];
+}
+
+interface SessionPayload {
+  sub: string;
+  // Fingerprint of the password hash, so a password change ends older sessions
+  pwd: string;
+  iat: number;
+  exp: number;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export const UserStore = {
+  async list(): Promise<(SessionUser & { quota?: UserQuota; createdAt: string })[]> {
+    const { users } = await readUsers();
+    return users.map(user => ({ ...toSessionUser(user), quota: user.quota, createdAt: user.createdAt }));
+  },
+
+  async get(username: string): Promise<SessionUser | null> {
+    const { users } = await readUsers();
+    const user = users.find(candidate => candidate.username === username);
+    return user ? toSessionUser(user) : null;
+  },
+
+  async getQuota(username: string): Promise<UserQuota | undefined> {
+    const { users } = await readUsers();
+    return users.find(candidate => candidate.username === username)?.quota;
+  },
+
+  async count(): Promise<number> {
+    const { users } = await readUsers();
+    return users.length;
+  },
+
+  async create(options: {
+    username: string;
+    password: string;
+    role?: UserRole;
+    groups?: string[];
+    // First-run setup only succeeds while there are no accounts at all
+    onlyIfEmpty?: boolean;
+  }): Promise<SessionUser> {
+    const username = options.username.trim();
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new AuthError('Username may only contain letters, numbers, dots, dashes and underscores (max 32)', 400);
+    }
+    if (options.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+
+    const passwordHash = await hashPassword(options.password);
+
+    return updateJsonFile<UsersFile, SessionUser>(getSystemFilePath(USERS_FILE), { users: [] }, (data) => {
+      if (options.onlyIfEmpty && data.users.length > 0) {
+        throw new AuthError('Initial setup has already been completed', 409);
+      }
+      if (data.users.some(user => user.username.toLowerCase() === username.toLowerCase())) {
+        throw new AuthError(`User "${username}" already exists`, 409);
+      }
+
+      const user: StoredUser = {
+        username,
+        passwordHash,
+        role: options.role || 'user',
+        groups: normalizeGroups(options.groups),
+        createdAt: new Date().toISOString()
+      };
+      data.users.push(user);
+      return toSessionUser(user);
+    });
+  },
+
+  // A quota of null removes the user's overrides
+  async update(
+    username: string,
+    changes: { password?: string; role?: UserRole; groups?: string[]; quota?: UserQuota | null }
+  ): Promise<SessionUser> {
+    if (changes.password !== undefined && changes.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+    if (changes.quota) {
+      validateQuota(changes.quota);
+    }
+    const passwordHash = changes.password !== undefined ? await hashPassword(changes.password) : undefined;
+
+    return updateJsonFile<UsersFile, SessionUser>(getSystemFilePath(USERS_FILE), { users: [] }, (data) => {
+      const user = data.users.find(candidate => candidate.username === username);
+      if (!user) {
+        throw new AuthError(`User "${username}" not found`, 404);
+      }
+      if (changes.role === 'user' && user.role === 'admin' && countAdmins(data.users) === 1) {
+        throw new AuthError('The last admin cannot be demoted', 409);
+      }
+
+      if (passwordHash) user.passwordHash = passwordHash;
+      if (changes.role) user.role = changes.role;
+      if (changes.groups) user.groups = normalizeGroups(changes.groups);
+      if (changes.quota === null) delete user.quota;
+      else if (changes.quota) user.quota = { ...user.quota, ...changes.quota };
+      return toSessionUser(user);
+    });
+  },
+
+  async remove(username: string): Promise<void> {
+    await updateJsonFile<UsersFile, void>(getSystemFilePath(USERS_FILE), { users: [] }, (data) => {
+      const user = data.users.find(candidate => candidate.username === username);
+      if (!user) {
+        throw new AuthError(`User "${username}" not found`, 404);
+      }
+      if (user.role === 'admin' && countAdmins(data.users) === 1) {
+        throw new AuthError('The last admin cannot be removed', 409);
+      }
+      data.users = data.users.filter(candidate => candidate !== user);
+    });
+  },
+
+  async verifyCredentials(username: string, password: string): Promise<SessionUser | null> {
+    const { users } = await readUsers();
+    const user = users.find(candidate => candidate.username === username);
+
+    if (!user) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await hashPassword(password);
+      return null;
+    }
+
+    return (await verifyPassword(password, user.passwordHash)) ? toSessionUser(user) : null;
+  }
+};
+
+// Signed, stateless session token: base64url(payload).base64url(hmac)
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const stored = await findStoredUser(user.username);
+  if (!stored) {
+    throw new AuthError(`User "${user.username}" not found`, 404);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    sub: user.username,
+    pwd: await getPasswordFingerprint(stored),
+    iat: now,
+    exp: now + getSessionMaxAge()
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${await signValue(encoded)}`;
+}
+
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(await signValue(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as SessionPayload;
+    if (typeof payload.sub !== 'string' || typeof payload.pwd !== 'string' || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Resolve the signed-in user for a request. The account is looked up again so
+// removed users and changed passwords end a session immediately, even with an
+// unexpired cookie.
+export async function getSessionUser(request: Request): Promise<SessionUser | null> {
+  const token = readCookie(request, SESSION_COOKIE);
+  const payload = await verifySessionToken(token);
+  if (!payload) return null;
+
+  const user = await findStoredUser(payload.sub);
+  if (!user) return null;
+  const expected = Buffer.from(await getPasswordFingerprint(user));
+  const actual = Buffer.from(payload.pwd);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return toSessionUser(user);
+}
+
+export async function requireUser(request: Request): Promise<SessionUser> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    throw new AuthError('Authentication required', 401);
+  }
+  return user;
+}
+
+export async function requireAdmin(request: Request): Promise<SessionUser> {
+  const user = await requireUser(request);
+  if (user.role !== 'admin') {
+    throw new AuthError('Administrator access required', 403);
+  }
+  return user;
+}
+
+export function getSessionMaxAge(): number {
+  return parseInt(NAS_CONFIG.SESSION_MAX_AGE) || 604800;
+}
+
+export function getSessionCookieOptions(request: Request) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    // The NAS is usually reached over plain http on the LAN
+    secure: new URL(request.url).protocol === 'https:',
+    path: '/',
+    maxAge: getSessionMaxAge()
+  };
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get('cookie');
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return undefined;
+}
+
+async function readUsers(): Promise<UsersFile> {
+  return readJsonFile<UsersFile>(getSystemFilePath(USERS_FILE), { users: [] });
+}
+
+async function findStoredUser(username: string): Promise<StoredUser | undefined> {
+  const { users } = await readUsers();
+  return users.find(candidate => candidate.username === username);
+}
+
+// Keyed with the session secret, as the cookie payload itself is readable
+async function getPasswordFingerprint(user: StoredUser): Promise<string> {
+  return (await signValue(`password:${user.passwordHash}`)).slice(0, 22);
+}
+
+function toSessionUser(user: StoredUser): SessionUser {
+  return {
+    username: user.username,
+    role: user.role,
+    groups: user.groups || []
+  };
+}
+
+function countAdmins(users: StoredUser[]): number {
+  return users.filter(user => user.role === 'admin').length;
+}
+
+function validateQuota(quota: UserQuota): void {
+  const { maxSize, maxFiles } = quota;
+  if (maxSize !== undefined && (typeof maxSize !== 'string' || (maxSize !== '0' && !StorageUtils.parseSize(maxSize)))) {
+    throw new AuthError('Quota size must look like "500MB" or "2GB", or be "0" for unlimited', 400);
+  }
+  if (maxFiles !== undefined && (!Number.isSafeInteger(maxFiles) || maxFiles < 0)) {
+    throw new AuthError('Quota file count must be a whole number (0 for unlimited)', 400);
+  }
+}
+
+function normalizeGroups(groups: string[] | undefined): string[] {
+  return Array.from(new Set((groups || []).map(group => group.trim()).filter(Boolean)));
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// HMAC a value with the session secret; also used for share-link cookies
+export async function signValue(value: string): Promise<string> {
+  return createHmac('sha256', await getSessionSecret()).update(value).digest('base64url');
+}
+
+// NAS_SESSION_SECRET wins; otherwise a random secret is generated on first use
+// and kept in the system directory so sessions survive restarts
+let cachedSecret: string | null = null;
+
+async function getSessionSecret(): Promise<string> {
+  if (process.env.NAS_SESSION_SECRET) {
+    return process.env.NAS_SESSION_SECRET;
+  }
+  if (cachedSecret) {
+    return cachedSecret;
+  }
+
+  const secretPath = getSystemFilePath(SESSION_SECRET_FILE);
+  try {
+    cachedSecret = (await readFile(secretPath, 'utf8')).trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    cachedSecret = randomBytes(32).toString('hex');
+    await mkdir(dirname(secretPath), { recursive: true, mode: 0o700 });
+    // 'wx' so a concurrent first request cannot overwrite a secret already in use
+    await writeFile(secretPath, cachedSecret, { mode: 0o600, flag: 'wx' }).catch(async () => {
+      cachedSecret = (await readFile(secretPath, 'utf8')).trim();
+    });
+  }
+  return cachedSecret;
+}
@@ -0,0 +1,112 @@
+import { SessionUser, AuthError } from './auth';
+import { assertPermission } from './acl';
+import { resolveStoragePath, StoragePathError } from './storage-path';
+import { RecycleBin, RecycleBinError } from './recycle-bin';
+import { moveEntry, copyEntry, FileOperationError } from './file-operations';
+import { QuotaError } from './quota';
+
+// Paths one batch request may name
+export const MAX_BATCH_ITEMS = 1000;
+
+export type BatchAction = 'delete' | 'move' | 'copy';
+
+export const BATCH_ACTIONS: BatchAction[] = ['delete', 'move', 'copy'];
+
+export interface BatchItemResult {
+  // The path as requested
+  path: string;
+  success: boolean;
+  // Where the item ended up after a move or copy
+  target?: string;
+  isDirectory?: boolean;
+  error?: string;
+  status?: number;
+  // An existing item that blocked a move or copy
+  conflict?: string;
+}
+
+export class BatchError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'BatchError';
+  }
+}
+
+// Check a batch request before anything is touched
+export function validateBatch(action: unknown, paths: unknown, destination: unknown): {
+  action: BatchAction;
+  paths: string[];
+  destination: string | null;
+} {
+  if (!BATCH_ACTIONS.includes(action as BatchAction)) {
+    throw new BatchError(`action must be one of ${BATCH_ACTIONS.join(', ')}`, 400);
+  }
+  if (!Array.isArray(paths) || paths.length === 0 || paths.some(path => typeof path !== 'string')) {
+    throw new BatchError('paths must be a non-empty list of paths', 400);
+  }
+  if (paths.length > MAX_BATCH_ITEMS) {
+    throw new BatchError(`At most ${MAX_BATCH_ITEMS} items can be changed at once`, 400);
+  }
+  if (action !== 'delete' && (typeof destination !== 'string' || destination === '')) {
+    throw new BatchError('A destination folder is required', 400);
+  }
+  return {
+    action: action as BatchAction,
+    paths: Array.from(new Set(paths as string[])),
+    destination: action === 'delete' ? null : destination as string
+  };
+}
+
+// Apply the action to every path in order. Each item succeeds or fails on its
+// own, so one bad item does not stop the rest.
+export async function runBatch(
+  user: SessionUser,
+  action: BatchAction,
+  paths: string[],
+  destination: string | null
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = [];
+
+  for (const path of paths) {
+    try {
+      switch (action) {
+        case 'delete': {
+          const { virtualPath } = await resolveStoragePath(path);
+          await assertPermission(user, virtualPath, 'delete');
+          const entry = await RecycleBin.moveToTrash(user, virtualPath);
+          results.push({ path: virtualPath, success: true, isDirectory: entry.isDirectory });
+          break;
+        }
+        case 'move':
+        case 'copy': {
+          const operation = action === 'move' ? moveEntry : copyEntry;
+          const result = await operation(user, path, destination || '/');
+          results.push({ path: result.source ?? path, success: true, target: result.path, isDirectory: result.isDirectory });
+          break;
+        }
+      }
+    } catch (error) {
+      results.push(toFailure(path, action, error));
+    }
+  }
+
+  return results;
+}
+
+// Errors meant for the user keep their message; anything else is logged
+function toFailure(path: string, action: BatchAction, error: unknown): BatchItemResult {
+  if (error instanceof FileOperationError) {
+    return { path, success: false, error: error.message, status: error.status, conflict: error.conflictPath };
+  }
+  if (
+    error instanceof BatchError ||
+    error instanceof RecycleBinError ||
+    error instanceof StoragePathError ||
+    error instanceof AuthError ||
+    error instanceof QuotaError
+  ) {
+    return { path, success: false, error: error.message, status: error.status };
+  }
+  console.error(`Batch ${action} of ${path} failed:`, error);
+  return { path, success: false, error: `Failed to ${action}`, status: 500 };
+}
@@ -0,0 +1,370 @@
+import { mkdir, readdir, readFile, writeFile, rename, rm, stat, unlink } from 'fs/promises';
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import { once } from 'events';
+import { createHash, randomUUID } from 'crypto';
+import { join } from 'path';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { sanitizeFileName, placeFile, ConflictPolicy } from './file-names';
+import { INTERNAL_DIRECTORIES, resolveStoragePath } from './storage-path';
+import { QuotaReservation, trackTemporaryFile } from './quota';
+import { assertPermission } from './acl';
+import { SessionUser } from './auth';
+import { ContentStore } from './content-store';
+import { SHA256_PATTERN } from './sha256';
+
+// Hidden directory under the storage root that holds in-flight chunk sessions.
+// Keeping it on the same volume lets finalize rename the assembled file into place.
+export const CHUNK_SESSION_DIR = INTERNAL_DIRECTORIES.uploads;
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const MANIFEST_FILE = 'manifest.json';
+const CHUNK_SUFFIX = '.chunk';
+
+export interface ChunkedUploadSession {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  uploadPath: string;
+  owner: string;
+  // Sessions created before conflict policies existed have none and are renamed
+  conflictPolicy?: ConflictPolicy;
+  // The client's SHA-256 of the whole file, checked once it is assembled
+  expectedSha256?: string;
+  chunkSize: number;
+  totalChunks: number;
+  createdAt: string;
+}
+
+export interface ChunkedUploadStatus extends ChunkedUploadSession {
+  receivedChunks: number[];
+  receivedBytes: number;
+  complete: boolean;
+}
+
+export interface FinalizedUpload {
+  session: ChunkedUploadSession;
+  fileName: string;
+  // Conflict policy used to place the file, null when the name was free
+  appliedPolicy: ConflictPolicy | null;
+  sha256: string;
+  // The assembled file matched the checksum given when the session started
+  verified: boolean;
+  // The same content was already stored, so the file shares it
+  deduplicated: boolean;
+}
+
+export class ChunkedUploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ChunkedUploadError';
+  }
+}
+
+// Pending finalize calls by upload id
+const finalizeLocks = new Map<string, Promise<unknown>>();
+
+export const ChunkedUploadStore = {
+  getChunkSize: (): number => {
+    // Minimum 1MB chunks, configurable via environment variable
+    return Math.max(1024 * 1024, StorageUtils.parseSize(NAS_CONFIG.CHUNK_SIZE));
+  },
+
+  async createSession(options: {
+    fileName: string;
+    fileSize: number;
+    fileType?: string;
+    uploadPath: string;
+    owner: string;
+    conflictPolicy: ConflictPolicy;
+    sha256?: string;
+  }): Promise<ChunkedUploadSession> {
+    const fileName = sanitizeFileName(options.fileName);
+    if (!fileName) {
+      throw new ChunkedUploadError('A valid file name is required', 400);
+    }
+    if (!Number.isSafeInteger(options.fileSize) || options.fileSize < 0) {
+      throw new ChunkedUploadError('A valid file size is required', 400);
+    }
+
+    const expectedSha256 = options.sha256?.trim().toLowerCase();
+    if (expectedSha256 !== undefined && !SHA256_PATTERN.test(expectedSha256)) {
+      throw new ChunkedUploadError('sha256 must be a hex-encoded SHA-256 digest', 400);
+    }
+
+    const maxFileSize = StorageUtils.parseSize(NAS_CONFIG.MAX_FILE_SIZE);
+    if (maxFileSize > 0 && options.fileSize > maxFileSize) {
+      throw new ChunkedUploadError(`File exceeds the maximum file size (${NAS_CONFIG.MAX_FILE_SIZE})`, 413);
+    }
+
+    const chunkSize = ChunkedUploadStore.getChunkSize();
+    const session: ChunkedUploadSession = {
+      uploadId: randomUUID(),
+      fileName,
+      fileSize: options.fileSize,
+      fileType: options.fileType || 'application/octet-stream',
+      uploadPath: options.uploadPath,
+      owner: options.owner,
+      conflictPolicy: options.conflictPolicy,
+      expectedSha256,
+      chunkSize,
+      // An empty file is still one (empty) chunk so finalize has something to assemble
+      totalChunks: Math.max(1, Math.ceil(options.fileSize / chunkSize)),
+      createdAt: new Date().toISOString()
+    };
+
+    const sessionDir = getSessionDir(session.uploadId);
+    await mkdir(sessionDir, { recursive: true });
+    await writeFile(join(sessionDir, MANIFEST_FILE), JSON.stringify(session, null, 2));
+
+    return session;
+  },
+
+  async getSession(uploadId: string): Promise<ChunkedUploadSession> {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new ChunkedUploadError('Invalid upload id', 400);
+    }
+
+    try {
+      const manifest = await readFile(join(getSessionDir(uploadId), MANIFEST_FILE), 'utf8');
+      return JSON.parse(manifest) as ChunkedUploadSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ChunkedUploadError('Upload session not found', 404);
+      }
+      throw error;
+    }
+  },
+
+  // Sessions belong to the user who started them; anyone else gets a 404
+  async assertOwner(uploadId: string, username: string): Promise<void> {
+    const session = await ChunkedUploadStore.getSession(uploadId);
+    if (session.owner !== username) {
+      throw new ChunkedUploadError('Upload session not found', 404);
+    }
+  },
+
+  async getStatus(uploadId: string): Promise<ChunkedUploadStatus> {
+    const session = await ChunkedUploadStore.getSession(uploadId);
+    const receivedChunks = await listReceivedChunks(session);
+    const receivedBytes = receivedChunks.reduce((sum, index) => sum + getExpectedChunkLength(session, index), 0);
+
+    return {
+      ...session,
+      receivedChunks,
+      receivedBytes,
+      complete: receivedChunks.length === session.totalChunks
+    };
+  },
+
+  // Chunks may arrive in any order (or more than once); each one is written to its
+  // own file and only becomes visible under its final name once fully received.
+  async writeChunk(uploadId: string, chunkIndex: number, body: ReadableStream<Uint8Array>): Promise<number> {
+    const session = await ChunkedUploadStore.getSession(uploadId);
+
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= session.totalChunks) {
+      throw new ChunkedUploadError(`Chunk index must be between 0 and ${session.totalChunks - 1}`, 400);
+    }
+
+    const expectedLength = getExpectedChunkLength(session, chunkIndex);
+    const chunkPath = getChunkPath(uploadId, chunkIndex);
+    const partialPath = `${chunkPath}.${randomUUID()}.part`;
+
+    try {
+      const written = await writeStreamToFile(body, partialPath, expectedLength);
+      if (written !== expectedLength) {
+        throw new ChunkedUploadError(`Chunk ${chunkIndex} should be ${expectedLength} bytes but was ${written}`, 400);
+      }
+      await rename(partialPath, chunkPath);
+      return written;
+    } catch (error) {
+      await unlink(partialPath).catch(() => {});
+      throw error;
+    }
+  },
+
+  // The session's size was held against the quotas when it started; quota
+  // only records the finished file as the user's. Calls for the same upload
+  // run one after another: a second one finds the session gone, or retries
+  // after a failure such as a name clash.
+  async finalize(uploadId: string, user: SessionUser, quota?: QuotaReservation): Promise<FinalizedUpload> {
+    const previous = finalizeLocks.get(uploadId) || Promise.resolve();
+    const next = previous.catch(() => {}).then(() => finalizeSession(uploadId, user, quota));
+
+    finalizeLocks.set(uploadId, next);
+    try {
+      return await next;
+    } finally {
+      if (finalizeLocks.get(uploadId) === next) {
+        finalizeLocks.delete(uploadId);
+      }
+    }
+  },
+
+  async abort(uploadId: string): Promise<void> {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new ChunkedUploadError('Invalid upload id', 400);
+    }
+    await rm(getSessionDir(uploadId), { recursive: true, force: true });
+  },
+
+  // Remove sessions that have not received a chunk within CHUNK_SESSION_TTL
+  async cleanupStaleSessions(): Promise<number> {
+    const ttl = parseInt(NAS_CONFIG.CHUNK_SESSION_TTL);
+    const root = join(NAS_CONFIG.STORAGE_PATH, CHUNK_SESSION_DIR);
+    let removed = 0;
+
+    let entries: string[];
+    try {
+      entries = await readdir(root);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (!UPLOAD_ID_PATTERN.test(entry)) continue;
+      try {
+        const stats = await stat(join(root, entry));
+        if (Date.now() - stats.mtime.getTime() > ttl) {
+          await ChunkedUploadStore.abort(entry);
+          removed++;
+        }
+      } catch (error) {
+        console.error(`Error cleaning up upload session ${entry}:`, error);
+      }
+    }
+
+    return removed;
+  }
+};
+
+async function finalizeSession(uploadId: string, user: SessionUser, quota?: QuotaReservation): Promise<FinalizedUpload> {
+  const session = await ChunkedUploadStore.getSession(uploadId);
+  const receivedChunks = await listReceivedChunks(session);
+
+  if (receivedChunks.length !== session.totalChunks) {
+    const missing = session.totalChunks - receivedChunks.length;
+    throw new ChunkedUploadError(`Upload is incomplete: ${missing} chunk(s) missing`, 409);
+  }
+
+  // Access may have changed since the session started
+  await assertPermission(user, session.uploadPath, 'write');
+  if (session.conflictPolicy === 'overwrite') {
+    await assertPermission(user, session.uploadPath, 'delete');
+  }
+
+  // Resolve again: the folder may have been replaced by a symlink since the session started
+  const { absolutePath: targetDir } = await resolveStoragePath(session.uploadPath);
+  await mkdir(targetDir, { recursive: true });
+
+  // Assemble next to the destination so the final rename stays on one filesystem
+  const assemblyPath = join(targetDir, `.${session.fileName}.${uploadId}.part`);
+  // Counted by the reservation while it is written, not by usage scans
+  const untrack = trackTemporaryFile(assemblyPath);
+  try {
+    const output = createWriteStream(assemblyPath);
+    const hash = createHash('sha256');
+    let sha256 = '';
+    let deduplicated = false;
+
+    try {
+      for (let index = 0; index < session.totalChunks; index++) {
+        for await (const data of createReadStream(getChunkPath(uploadId, index))) {
+          hash.update(data);
+          if (!output.write(data)) {
+            await once(output, 'drain');
+          }
+        }
+      }
+      await closeStream(output);
+      sha256 = hash.digest('hex');
+
+      const assembled = await stat(assemblyPath);
+      if (assembled.size !== session.fileSize) {
+        throw new ChunkedUploadError(`Assembled file is ${assembled.size} bytes, expected ${session.fileSize}`, 500);
+      }
+      if (session.expectedSha256 && session.expectedSha256 !== sha256) {
+        // Some chunk was corrupted on the way; there is no telling which, so start over
+        await ChunkedUploadStore.abort(uploadId);
+        throw new ChunkedUploadError(
+          `Checksum mismatch for ${session.fileName}: expected ${session.expectedSha256}, received ${sha256}`,
+          422
+        );
+      }
+      deduplicated = await ContentStore.deduplicate(assemblyPath, sha256, assembled.size);
+    } catch (error) {
+      output.destroy();
+      await unlink(assemblyPath).catch(() => {});
+      throw error;
+    }
+
+    // A clash with the fail policy also keeps the session, so it can be retried after a rename
+    const { fileName, appliedPolicy } = await placeFile(assemblyPath, targetDir, session.fileName, session.conflictPolicy || 'rename');
+
+    if (appliedPolicy !== 'skip') {
+      await quota?.commit([join(targetDir, fileName)]);
+    }
+    await ChunkedUploadStore.abort(uploadId);
+    return { session, fileName, appliedPolicy, sha256, verified: Boolean(session.expectedSha256), deduplicated };
+  } finally {
+    untrack();
+  }
+}
+
+function getSessionDir(uploadId: string): string {
+  return join(NAS_CONFIG.STORAGE_PATH, CHUNK_SESSION_DIR, uploadId);
+}
+
+function getChunkPath(uploadId: string, chunkIndex: number): string {
+  return join(getSessionDir(uploadId), `${chunkIndex}${CHUNK_SUFFIX}`);
+}
+
+function getExpectedChunkLength(session: ChunkedUploadSession, chunkIndex: number): number {
+  const start = chunkIndex * session.chunkSize;
+  return Math.max(0, Math.min(session.chunkSize, session.fileSize - start));
+}
+
+async function listReceivedChunks(session: ChunkedUploadSession): Promise<number[]> {
+  const entries = await readdir(getSessionDir(session.uploadId));
+  return entries
+    .filter(entry => entry.endsWith(CHUNK_SUFFIX))
+    .map(entry => parseInt(entry.slice(0, -CHUNK_SUFFIX.length), 10))
+    .filter(index => Number.isInteger(index) && index >= 0 && index < session.totalChunks)
+    .sort((a, b) => a - b);
+}
+
+// Stream a request body to disk, refusing to write more than maxBytes
+async function writeStreamToFile(body: ReadableStream<Uint8Array>, filePath: string, maxBytes: number): Promise<number> {
+  const output = createWriteStream(filePath);
+  const reader = body.getReader();
+  let written = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      written += value.byteLength;
+      if (written > maxBytes) {
+        throw new ChunkedUploadError(`Chunk exceeds the expected size of ${maxBytes} bytes`, 413);
+      }
+      if (!output.write(value)) {
+        await once(output, 'drain');
+      }
+    }
+    await closeStream(output);
+    return written;
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    output.destroy();
+    throw error;
+  }
+}
+
+function closeStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(() => resolve());
+  });
+}
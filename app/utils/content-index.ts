@@ -0,0 +1,469 @@
+import { mkdir, readdir, readFile, rm, lstat, unlink, writeFile } from 'fs/promises';
+import { Stats } from 'fs';
+import { join, posix } from 'path';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { getPermissionsForPaths } from './acl';
+import { SessionUser } from './auth';
+import type { SearchResult } from './file-search';
+import { getSystemFilePath, readJsonFile, writeJsonFile } from './json-store';
+import { getFileType } from './mime-types';
+import { resolveStoragePath, joinVirtualPath } from './storage-path';
+import { extractText, getTextSource } from './text-extract';
+
+// The index lives in .nas/content-index/: index.json maps every term to the
+// documents containing it, and text/<id>.txt keeps the extracted text of each
+// document for snippets. It is kept in memory once loaded and written back
+// after each batch of changes.
+const INDEX_DIRECTORY = 'content-index';
+const INDEX_FILE = 'index.json';
+const TEXT_DIRECTORY = 'text';
+const INDEX_VERSION = 1;
+
+// A full walk picks up changes made outside the app (SMB, the shell, ...); it runs at most this often
+const RESCAN_INTERVAL = 60 * 60 * 1000;
+// Bigger files are not read at all
+const MAX_INDEXED_FILE_SIZE = 100 * 1024 * 1024;
+// A long walk saves its progress every so many documents
+const SAVE_INTERVAL = 200;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+const SNIPPET_LENGTH = 240;
+// Text shown before the first match in a snippet
+const SNIPPET_LEAD = 60;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export const DEFAULT_CONTENT_SEARCH_LIMIT = 20;
+export const MAX_CONTENT_SEARCH_LIMIT = 100;
+
+interface IndexedDocument {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  // Number of terms; 0 when the file had no readable text
+  length: number;
+}
+
+interface IndexFile {
+  version: number;
+  nextId: number;
+  // When the last full walk finished, in ms
+  lastScan: number;
+  documents: { [id: string]: IndexedDocument };
+  // Term to document id to number of occurrences. Both levels have no
+  // prototype: terms such as "constructor" must not resolve to Object's.
+  terms: { [term: string]: { [id: string]: number } };
+}
+
+// A document that matched, shaped like a search result, with the best bit of its text
+export interface ContentSearchHit extends SearchResult {
+  score: number;
+  snippet: string;
+  // [start, end) offsets of the matched words in snippet
+  highlights: [number, number][];
+}
+
+export interface ContentIndexStatus {
+  enabled: boolean;
+  documents: number;
+  // Paths waiting to be indexed, and whether the indexer is running
+  pending: number;
+  indexing: boolean;
+  lastScan: string | null;
+}
+
+export class ContentIndexError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ContentIndexError';
+  }
+}
+
+type IndexTask = { kind: 'sync'; path: string } | { kind: 'move'; from: string; to: string };
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+let loadedIndex: Promise<IndexFile> | null = null;
+// Document id by path, for the loaded index
+const documentIds = new Map<string, string>();
+const taskQueue: IndexTask[] = [];
+let worker: Promise<void> | null = null;
+let unsavedChanges = 0;
+
+export function isContentIndexEnabled(): boolean {
+  return NAS_CONFIG.CONTENT_INDEX !== 'false';
+}
+
+// Bring the index up to date with these files or folders in the background:
+// new and changed files are indexed, missing ones dropped, folders walked
+export function scheduleIndexUpdate(...virtualPaths: string[]): void {
+  if (!isContentIndexEnabled()) return;
+  for (const path of virtualPaths) {
+    if (!taskQueue.some(task => task.kind === 'sync' && task.path === path)) {
+      taskQueue.push({ kind: 'sync', path });
+    }
+  }
+  startWorker();
+}
+
+// A file or folder was renamed or moved; its documents keep their text
+export function scheduleIndexMove(from: string, to: string): void {
+  if (!isContentIndexEnabled()) return;
+  taskQueue.push({ kind: 'move', from, to }, { kind: 'sync', path: to });
+  startWorker();
+}
+
+export async function getContentIndexStatus(): Promise<ContentIndexStatus> {
+  const index = isContentIndexEnabled() ? await loadIndex() : null;
+  return {
+    enabled: isContentIndexEnabled(),
+    documents: index ? Object.keys(index.documents).length : 0,
+    pending: taskQueue.length,
+    indexing: worker !== null,
+    lastScan: index?.lastScan ? new Date(index.lastScan).toISOString() : null
+  };
+}
+
+// Documents below scope containing every word of the query that the user can
+// read, best first. Scores are BM25 over the whole index.
+export async function searchContent(
+  user: SessionUser,
+  query: string,
+  options: { scope?: string; limit?: number } = {}
+): Promise<{ hits: ContentSearchHit[]; total: number }> {
+  if (!isContentIndexEnabled()) {
+    throw new ContentIndexError('Content search is disabled on this server', 404);
+  }
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    throw new ContentIndexError(`Search for at least one word of ${MIN_TERM_LENGTH} or more letters`, 400);
+  }
+
+  const index = await loadIndex();
+  rescanIfDue(index);
+
+  // Start from the rarest term so the intersection stays small
+  const postings = terms
+    .map(term => getPosting(index, term) || {})
+    .sort((a, b) => Object.keys(a).length - Object.keys(b).length);
+  const scope = options.scope || '/';
+  const candidates = Object.keys(postings[0]).filter(id =>
+    index.documents[id] &&
+    postings.every(posting => Object.hasOwn(posting, id)) &&
+    isInside(index.documents[id].path, scope)
+  );
+
+  const permissions = await getPermissionsForPaths(user, candidates.map(id => index.documents[id].path));
+  const readable = candidates.filter(id => permissions[index.documents[id].path].includes('read'));
+
+  const documentCount = Object.keys(index.documents).length;
+  const averageLength = Object.values(index.documents).reduce((sum, document) => sum + document.length, 0) / Math.max(documentCount, 1);
+  const scored = readable.map(id => {
+    const document = index.documents[id];
+    let score = 0;
+    for (const posting of postings) {
+      const frequency = posting[id];
+      const documentFrequency = Object.keys(posting).length;
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / (averageLength || 1)));
+    }
+    return { id, document, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const hits: ContentSearchHit[] = [];
+  const termSet = new Set(terms);
+  for (const { id, document, score } of scored.slice(0, options.limit || DEFAULT_CONTENT_SEARCH_LIMIT)) {
+    const text = await readFile(getTextPath(id), 'utf8').catch(() => '');
+    const name = posix.basename(document.path);
+    hits.push({
+      id: `content_${document.path}`,
+      name,
+      isDirectory: false,
+      size: document.size,
+      type: getFileType(name),
+      path: document.path,
+      parentPath: posix.dirname(document.path),
+      uploadedAt: new Date(document.mtimeMs).toISOString(),
+      sizeFormatted: StorageUtils.formatSize(document.size),
+      score: Math.round(score * 1000) / 1000,
+      ...buildSnippet(text, termSet)
+    });
+  }
+  return { hits, total: scored.length };
+}
+
+function startWorker(): void {
+  if (worker) return;
+  worker = runTasks()
+    .catch(error => console.error('Content indexing failed:', error))
+    .finally(() => {
+      worker = null;
+      // Tasks queued while the last save was being written
+      if (taskQueue.length > 0) startWorker();
+    });
+}
+
+async function runTasks(): Promise<void> {
+  const index = await loadIndex();
+  rescanIfDue(index);
+
+  while (taskQueue.length > 0) {
+    const task = taskQueue.shift()!;
+    try {
+      if (task.kind === 'move') {
+        moveDocuments(index, task.from, task.to);
+      } else {
+        await syncPath(index, task.path);
+      }
+    } catch (error) {
+      console.error(`Failed to index ${task.kind === 'move' ? task.to : task.path}:`, error);
+    }
+  }
+  if (unsavedChanges > 0) {
+    await saveIndex(index);
+  }
+}
+
+function rescanIfDue(index: IndexFile): void {
+  if (Date.now() - index.lastScan > RESCAN_INTERVAL && !taskQueue.some(task => task.kind === 'sync' && task.path === '/')) {
+    // Counts as done from the start, so searches during the walk do not queue another
+    index.lastScan = Date.now();
+    taskQueue.push({ kind: 'sync', path: '/' });
+    startWorker();
+  }
+}
+
+async function loadIndex(): Promise<IndexFile> {
+  if (!loadedIndex) {
+    loadedIndex = readJsonFile<IndexFile | null>(getIndexPath(INDEX_FILE), null).then(async stored => {
+      if (stored && stored.version === INDEX_VERSION) {
+        for (const [id, document] of Object.entries(stored.documents)) {
+          documentIds.set(document.path, id);
+        }
+        const terms = Object.create(null);
+        for (const [term, posting] of Object.entries(stored.terms)) {
+          terms[term] = Object.assign(Object.create(null), posting);
+        }
+        return { ...stored, terms };
+      }
+      // Missing or from an older format: start over
+      await rm(getIndexPath(TEXT_DIRECTORY), { recursive: true, force: true });
+      return { version: INDEX_VERSION, nextId: 1, lastScan: 0, documents: {}, terms: Object.create(null) };
+    });
+    loadedIndex.catch(() => {
+      loadedIndex = null;
+    });
+  }
+  return loadedIndex;
+}
+
+async function saveIndex(index: IndexFile): Promise<void> {
+  unsavedChanges = 0;
+  await writeJsonFile(getIndexPath(INDEX_FILE), index);
+}
+
+async function noteChange(index: IndexFile): Promise<void> {
+  unsavedChanges++;
+  if (unsavedChanges >= SAVE_INTERVAL) {
+    await saveIndex(index);
+  }
+}
+
+// Make the index match what is on disk at a path
+async function syncPath(index: IndexFile, virtualPath: string): Promise<void> {
+  const resolved = await resolveStoragePath(virtualPath).catch(() => null);
+  const stats = resolved && !isHidden(resolved.virtualPath)
+    ? await lstat(resolved.absolutePath).catch(() => null)
+    : null;
+
+  if (!resolved || !stats || stats.isSymbolicLink()) {
+    await removeDocuments(index, path => isInside(path, virtualPath));
+  } else if (stats.isFile()) {
+    await indexFile(index, resolved.virtualPath, resolved.absolutePath, stats);
+  } else if (stats.isDirectory()) {
+    await syncDirectory(index, resolved.virtualPath, resolved.absolutePath);
+  }
+}
+
+// Index every file below a folder and drop documents of files that are gone
+async function syncDirectory(index: IndexFile, virtualPath: string, absolutePath: string): Promise<void> {
+  const seen = new Set<string>();
+  const stack = [{ virtualPath, absolutePath }];
+
+  while (stack.length > 0) {
+    const folder = stack.pop()!;
+    const entries = await readdir(folder.absolutePath, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      // Hidden entries include the server's own directories
+      if (entry.name.startsWith('.')) continue;
+      const path = joinVirtualPath(folder.virtualPath, entry.name);
+      const entryPath = join(folder.absolutePath, entry.name);
+
+      if (entry.isDirectory()) {
+        stack.push({ virtualPath: path, absolutePath: entryPath });
+      } else if (entry.isFile()) {
+        const stats = await lstat(entryPath).catch(() => null);
+        if (!stats) continue;
+        seen.add(path);
+        await indexFile(index, path, entryPath, stats);
+      }
+    }
+  }
+
+  await removeDocuments(index, path => isInside(path, virtualPath) && !seen.has(path));
+}
+
+async function indexFile(index: IndexFile, virtualPath: string, absolutePath: string, stats: Stats): Promise<void> {
+  const existingId = documentIds.get(virtualPath);
+  const existing = existingId ? index.documents[existingId] : undefined;
+  const mtimeMs = Math.floor(stats.mtimeMs);
+  const source = getTextSource(posix.basename(virtualPath));
+
+  if (!source || stats.size > MAX_INDEXED_FILE_SIZE) {
+    if (existingId) await removeDocument(index, existingId);
+    return;
+  }
+  if (existing && existing.size === stats.size && existing.mtimeMs === mtimeMs) return;
+
+  let text = '';
+  try {
+    text = await extractText(absolutePath, source);
+  } catch (error) {
+    // Recorded without text, so an unreadable file is not retried until it changes
+    console.warn(`Not indexing the text of ${virtualPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (existingId) await removeDocument(index, existingId);
+  const id = String(index.nextId++);
+  const counts = countTerms(text);
+  let length = 0;
+  for (const [term, count] of counts) {
+    const posting = getPosting(index, term) || (index.terms[term] = Object.create(null));
+    posting[id] = count;
+    length += count;
+  }
+
+  await mkdir(getIndexPath(TEXT_DIRECTORY), { recursive: true, mode: 0o700 });
+  await writeFile(getTextPath(id), text, { mode: 0o600 });
+  index.documents[id] = { path: virtualPath, size: stats.size, mtimeMs, length };
+  documentIds.set(virtualPath, id);
+  await noteChange(index);
+}
+
+async function removeDocuments(index: IndexFile, matches: (path: string) => boolean): Promise<void> {
+  for (const [path, id] of [...documentIds]) {
+    if (matches(path)) {
+      await removeDocument(index, id);
+    }
+  }
+}
+
+async function removeDocument(index: IndexFile, id: string): Promise<void> {
+  const document = index.documents[id];
+  if (!document) return;
+
+  // The stored text says which terms to clear; without it every term is checked
+  const text = await readFile(getTextPath(id), 'utf8').catch(() => null);
+  const terms = text !== null ? countTerms(text).keys() : Object.keys(index.terms);
+  for (const term of terms) {
+    const posting = getPosting(index, term);
+    if (!posting || !Object.hasOwn(posting, id)) continue;
+    delete posting[id];
+    if (Object.keys(posting).length === 0) {
+      delete index.terms[term];
+    }
+  }
+
+  delete index.documents[id];
+  documentIds.delete(document.path);
+  await unlink(getTextPath(id)).catch(() => {});
+  await noteChange(index);
+}
+
+function getPosting(index: IndexFile, term: string): { [id: string]: number } | undefined {
+  return Object.hasOwn(index.terms, term) ? index.terms[term] : undefined;
+}
+
+function moveDocuments(index: IndexFile, from: string, to: string): void {
+  for (const [path, id] of [...documentIds]) {
+    if (!isInside(path, from)) continue;
+    const target = to + path.slice(from.length);
+    documentIds.delete(path);
+    documentIds.set(target, id);
+    index.documents[id].path = target;
+    unsavedChanges++;
+  }
+}
+
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const term = normalizeTerm(match[0]);
+    if (term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+// Case and accents are ignored: "Café" is found by "cafe"
+function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// A stretch of text around the first match, with the matched words marked
+function buildSnippet(text: string, terms: Set<string>): { snippet: string; highlights: [number, number][] } {
+  let first = -1;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (terms.has(normalizeTerm(match[0]))) {
+      first = match.index;
+      break;
+    }
+  }
+
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  // Start and end on word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > Math.max(first, start)) end = space;
+  }
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+  const highlights: [number, number][] = [];
+  for (const match of snippet.matchAll(TOKEN_PATTERN)) {
+    if (terms.has(normalizeTerm(match[0]))) {
+      highlights.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return { snippet, highlights };
+}
+
+function isInside(path: string, folder: string): boolean {
+  return folder === '/' || path === folder || path.startsWith(`${folder}/`);
+}
+
+function isHidden(virtualPath: string): boolean {
+  return virtualPath.split('/').some(segment => segment.startsWith('.'));
+}
+
+function getIndexPath(name: string): string {
+  return join(getSystemFilePath(INDEX_DIRECTORY), name);
+}
+
+function getTextPath(id: string): string {
+  return join(getIndexPath(TEXT_DIRECTORY), `${id}.txt`);
+}
@@ -0,0 +1,171 @@
+import { link, lstat, mkdir, readdir, rename, rmdir, stat, unlink } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { dirname, join } from 'path';
+import { NAS_CONFIG } from '../config/nas';
+import { getSystemFilePath, readJsonFile, updateJsonFile } from './json-store';
+import { SHA256_PATTERN } from './sha256';
+import { trackTemporaryFile } from './quota';
+
+// Uploaded files are registered here under their SHA-256, e.g.
+// .nas/objects/3f/3f7a...; an identical upload becomes another hard link to
+// the same object. The link count doubles as the reference count: removing
+// one copy leaves the others in place, and an object is only dropped once the
+// store holds the last link.
+const OBJECTS_DIRECTORY = 'objects';
+// Size and mtime of each object when it was registered. Anything editing a
+// copy in place changes the shared inode, and such an object must not be
+// handed out for new uploads any more.
+const INDEX_FILE = 'objects.json';
+
+export interface DedupStats {
+  // Distinct contents in the store
+  objects: number;
+  // Files in the storage (trash included) that share an object
+  references: number;
+  // Space the referenced files take on disk
+  storedBytes: number;
+  // Space they would take if every copy were stored separately
+  logicalBytes: number;
+  savedBytes: number;
+}
+
+interface ObjectsIndex {
+  objects: { [sha256: string]: { size: number; mtimeMs: number } };
+}
+
+export const ContentStore = {
+  isEnabled(): boolean {
+    return NAS_CONFIG.DEDUPLICATION !== 'false';
+  },
+
+  // Make the finished file at filePath share storage with an identical,
+  // earlier upload, or register it as the first copy of its content.
+  // Returns true when the bytes were already stored.
+  async deduplicate(filePath: string, sha256: string, size: number): Promise<boolean> {
+    if (!ContentStore.isEnabled() || size === 0 || !SHA256_PATTERN.test(sha256)) {
+      return false;
+    }
+
+    const objectPath = getObjectPath(sha256);
+    await mkdir(dirname(objectPath), { recursive: true, mode: 0o700 });
+
+    // Two attempts: a stale object is dropped after the first one
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await link(filePath, objectPath);
+        await recordObject(sha256, objectPath);
+        return false;
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        // Another volume, too many links or no hard links on this filesystem: store a plain copy
+        if (code === 'EXDEV' || code === 'EMLINK' || code === 'EPERM' || code === 'ENOTSUP') {
+          return false;
+        }
+        if (code !== 'EEXIST') throw error;
+      }
+
+      if (!(await isIntact(sha256, objectPath, size))) {
+        await unlink(objectPath).catch(() => {});
+        continue;
+      }
+
+      // Swap the new file for a link to the stored one; the name never disappears
+      const linkPath = `${filePath}.${randomUUID()}.part`;
+      const untrack = trackTemporaryFile(linkPath);
+      try {
+        await link(objectPath, linkPath);
+        await rename(linkPath, filePath);
+        return true;
+      } catch (error) {
+        await unlink(linkPath).catch(() => {});
+        // The object was collected in the meantime; register this file instead
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      } finally {
+        untrack();
+      }
+    }
+    return false;
+  },
+
+  async getStats(): Promise<DedupStats> {
+    const stats: DedupStats = { objects: 0, references: 0, storedBytes: 0, logicalBytes: 0, savedBytes: 0 };
+
+    await forEachObject(async (_sha256, objectStats) => {
+      // One link belongs to the store itself
+      const references = objectStats.nlink - 1;
+      if (references < 1) return;
+
+      stats.objects++;
+      stats.references += references;
+      stats.storedBytes += objectStats.size;
+      stats.logicalBytes += objectStats.size * references;
+      stats.savedBytes += objectStats.size * (references - 1);
+    });
+    return stats;
+  },
+
+  // Drop objects no file refers to any more; returns how many were removed
+  async collectGarbage(): Promise<number> {
+    const removed: string[] = [];
+
+    await forEachObject(async (sha256, objectStats, objectPath) => {
+      if (objectStats.nlink > 1) return;
+      await unlink(objectPath);
+      await rmdir(dirname(objectPath)).catch(() => {});
+      removed.push(sha256);
+    });
+
+    if (removed.length > 0) {
+      await updateJsonFile<ObjectsIndex, void>(getSystemFilePath(INDEX_FILE), { objects: {} }, (data) => {
+        for (const sha256 of removed) {
+          delete data.objects[sha256];
+        }
+      });
+    }
+    return removed.length;
+  }
+};
+
+function getObjectPath(sha256: string): string {
+  return join(getSystemFilePath(OBJECTS_DIRECTORY), sha256.slice(0, 2), sha256);
+}
+
+async function recordObject(sha256: string, objectPath: string): Promise<void> {
+  const { size, mtimeMs } = await stat(objectPath);
+  await updateJsonFile<ObjectsIndex, void>(getSystemFilePath(INDEX_FILE), { objects: {} }, (data) => {
+    data.objects[sha256] = { size, mtimeMs };
+  });
+}
+
+async function isIntact(sha256: string, objectPath: string, size: number): Promise<boolean> {
+  const { objects } = await readJsonFile<ObjectsIndex>(getSystemFilePath(INDEX_FILE), { objects: {} });
+  const recorded = objects[sha256];
+  const current = await stat(objectPath).catch(() => null);
+  return Boolean(recorded && current && current.size === size &&
+    current.size === recorded.size && current.mtimeMs === recorded.mtimeMs);
+}
+
+async function forEachObject(
+  visit: (sha256: string, stats: { nlink: number; size: number }, objectPath: string) => Promise<void>
+): Promise<void> {
+  const root = getSystemFilePath(OBJECTS_DIRECTORY);
+  let prefixes: string[];
+  try {
+    prefixes = await readdir(root);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  for (const prefix of prefixes) {
+    const names = await readdir(join(root, prefix)).catch(() => [] as string[]);
+    for (const name of names) {
+      if (!SHA256_PATTERN.test(name)) continue;
+      const objectPath = join(root, prefix, name);
+      const objectStats = await lstat(objectPath).catch(() => null);
+      if (objectStats?.isFile()) {
+        await visit(name, objectStats, objectPath);
+      }
+    }
+  }
+}
@@ -0,0 +1,22 @@
+// CRC-32 as used by ZIP (IEEE 802.3, reflected polynomial 0xEDB88320).
+// zlib.crc32 would do, but only exists from Node 20.15 / 22.2 on, and the
+// server supports Node 18.
+
+const TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  TABLE[n] = c >>> 0;
+}
+
+// Checksum of data; pass the previous result as `value` to continue over
+// several chunks, as with zlib.crc32
+export function crc32(data: Uint8Array, value = 0): number {
+  let crc = ~value >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
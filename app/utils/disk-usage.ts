@@ -0,0 +1,108 @@
+import { statfs } from 'fs/promises';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { INTERNAL_DIRECTORIES } from './storage-path';
+import { ContentStore, DedupStats } from './content-store';
+import { getTopLevelUsage } from './quota';
+
+export interface FolderUsage {
+  name: string;
+  path: string;
+  size: number;
+  fileCount: number;
+}
+
+export interface DiskUsage {
+  // Filesystem that holds the storage root, from statfs
+  capacity: number;
+  free: number;
+  // Free space usable by the server (excludes blocks reserved for root)
+  available: number;
+  used: number;
+  percentage: number;
+  // Everything under the storage root, by top-level folder
+  folders: FolderUsage[];
+  // Files directly in the root
+  rootFiles: FolderUsage;
+  trash: FolderUsage;
+  // Space shared by identical uploads (see content-store.ts)
+  dedup: DedupStats;
+  checkedAt: string;
+}
+
+let cached: { usage: DiskUsage; expiresAt: number } | null = null;
+let refreshing: Promise<DiskUsage> | null = null;
+
+// Measuring walks the whole tree, so results are reused for
+// STORAGE_CHECK_INTERVAL. Once that has passed the previous result is still
+// served while a fresh one is computed in the background.
+export async function getDiskUsage(): Promise<DiskUsage> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.usage;
+  }
+
+  const refresh = refreshDiskUsage();
+  if (cached) {
+    refresh.catch(error => console.error('Error refreshing disk usage:', error));
+    return cached.usage;
+  }
+  return refresh;
+}
+
+function refreshDiskUsage(): Promise<DiskUsage> {
+  if (!refreshing) {
+    refreshing = measureDiskUsage()
+      .then(usage => {
+        const interval = parseInt(NAS_CONFIG.STORAGE_CHECK_INTERVAL) || 30000;
+        cached = { usage, expiresAt: Date.now() + interval };
+        return usage;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+async function measureDiskUsage(): Promise<DiskUsage> {
+  const root = NAS_CONFIG.STORAGE_PATH;
+  const stats = await statfs(root);
+  const capacity = stats.blocks * stats.bsize;
+  const free = stats.bfree * stats.bsize;
+  const used = capacity - free;
+  const available = stats.bavail * stats.bsize;
+
+  const folders: FolderUsage[] = [];
+  const rootFiles: FolderUsage = { name: '', path: '/', size: 0, fileCount: 0 };
+  let trash: FolderUsage = { name: INTERNAL_DIRECTORIES.trash, path: '', size: 0, fileCount: 0 };
+
+  // The quota scan already walks the whole tree; reuse its per-item totals
+  for (const [name, entry] of await getTopLevelUsage()) {
+    const totals = { size: entry.bytes, fileCount: entry.files };
+    if (name === INTERNAL_DIRECTORIES.trash) {
+      trash = { ...trash, ...totals };
+    } else if (name.startsWith('.')) {
+      // Other internal folders and hidden files are not shown
+    } else if (entry.isDirectory) {
+      folders.push({ name, path: `/${name}`, ...totals });
+    } else {
+      rootFiles.size += totals.size;
+      rootFiles.fileCount += totals.fileCount;
+    }
+  }
+
+  folders.sort((a, b) => b.size - a.size);
+
+  return {
+    capacity,
+    free,
+    available,
+    used,
+    // Same as df: reserved blocks count as neither used nor available
+    percentage: StorageUtils.calculatePercentage(used, used + available),
+    folders,
+    rootFiles,
+    trash,
+    dedup: await ContentStore.getStats(),
+    checkedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,21 @@
+// Let the browser fetch a ZIP of the given files and folders itself, so the
+// archive streams to disk while the server writes it. The paths are posted as
+// a form: a large selection would not fit in a URL. The response is an
+// attachment, so the page stays where it is.
+export function downloadArchive(paths: string[]): void {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = '/api/files/archive';
+  form.style.display = 'none';
+  for (const path of paths) {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = 'path';
+    input.value = path;
+    form.appendChild(input);
+  }
+
+  document.body.appendChild(form);
+  form.submit();
+  document.body.removeChild(form);
+}
@@ -0,0 +1,115 @@
+import { link, rename, unlink, lstat } from 'fs/promises';
+import { join } from 'path';
+
+// What to do when an upload has the same name as an existing entry:
+// - rename: keep both, storing the new file as "report (1).pdf"
+// - overwrite: replace the existing file
+// - skip: keep the existing file and discard the upload
+// - fail: reject the upload
+export type ConflictPolicy = 'rename' | 'overwrite' | 'skip' | 'fail';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['rename', 'overwrite', 'skip', 'fail'];
+
+export interface PlacedFile {
+  fileName: string;
+  // The policy that was applied, or null when the name was free
+  appliedPolicy: ConflictPolicy | null;
+}
+
+export class FileConflictError extends Error {
+  public status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileConflictError';
+  }
+}
+
+// Strip any directory components and characters that are not valid in file names
+export function sanitizeFileName(fileName: string): string {
+  const baseName = fileName.split(/[\\/]/).pop() || '';
+  return baseName.replace(/[\x00-\x1f]/g, '').replace(/^\.+$/, '').trim();
+}
+
+export function parseConflictPolicy(value: string | null | undefined): ConflictPolicy | null {
+  const policy = value || 'rename';
+  return CONFLICT_POLICIES.includes(policy as ConflictPolicy) ? policy as ConflictPolicy : null;
+}
+
+// Identifier for a freshly stored file, as returned to the client
+export function createFileId(): string {
+  return `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// "report.pdf" -> "report (1).pdf"; dotfiles and names without an extension
+// are numbered at the end
+export function getNumberedFileName(fileName: string, number: number): string {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) {
+    return `${fileName} (${number})`;
+  }
+  return `${fileName.slice(0, dot)} (${number})${fileName.slice(dot)}`;
+}
+
+// Move a finished temp file to fileName inside targetDir, resolving a name
+// clash with the given policy. Free names are claimed with a hard link, which
+// fails instead of replacing a file that appeared in the meantime.
+export async function placeFile(
+  tempPath: string,
+  targetDir: string,
+  fileName: string,
+  policy: ConflictPolicy
+): Promise<PlacedFile> {
+  try {
+    if (await claimName(tempPath, join(targetDir, fileName))) {
+      return { fileName, appliedPolicy: null };
+    }
+
+    switch (policy) {
+      case 'overwrite': {
+        const existing = await lstat(join(targetDir, fileName));
+        if (!existing.isFile()) {
+          throw new FileConflictError(`${fileName} already exists and is not a file`);
+        }
+        await rename(tempPath, join(targetDir, fileName));
+        // rename() does nothing when both names already link to the same
+        // file, as after deduplication (see content-store.ts)
+        await unlink(tempPath).catch(() => {});
+        return { fileName, appliedPolicy: 'overwrite' };
+      }
+      case 'skip':
+        await unlink(tempPath);
+        return { fileName, appliedPolicy: 'skip' };
+      case 'fail':
+        throw new FileConflictError(`${fileName} already exists`);
+      case 'rename':
+        for (let number = 1; ; number++) {
+          const candidate = getNumberedFileName(fileName, number);
+          if (await claimName(tempPath, join(targetDir, candidate))) {
+            return { fileName: candidate, appliedPolicy: 'rename' };
+          }
+        }
+    }
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+// Returns false if something already has that name
+async function claimName(tempPath: string, destination: string): Promise<boolean> {
+  try {
+    await link(tempPath, destination);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'EEXIST') return false;
+    // Some filesystems (FAT, some network shares) have no hard links
+    if (code !== 'EPERM' && code !== 'ENOTSUP' && code !== 'ENOSYS') throw error;
+
+    if (await lstat(destination).then(() => true, () => false)) return false;
+    await rename(tempPath, destination);
+    return true;
+  }
+  await unlink(tempPath);
+  return true;
+}
@@ -0,0 +1,287 @@
+import { NextResponse } from 'next/server';
+import { mkdir, rename, cp, rm, lstat, stat, readdir } from 'fs/promises';
+import { join, posix, sep } from 'path';
+import { SessionUser, AuthError } from './auth';
+import { assertPermission, assertTreePermission } from './acl';
+import { resolveStoragePath, joinVirtualPath, ResolvedStoragePath, StoragePathError } from './storage-path';
+import { reserveQuota, measureTree, QuotaError } from './quota';
+
+export class FileOperationError extends Error {
+  constructor(message: string, public status: number, public conflictPath?: string) {
+    super(message);
+    this.name = 'FileOperationError';
+  }
+}
+
+// Turn an error from one of the operations below into the route's response;
+// anything unexpected is logged and reported as fallbackMessage
+export function toFileOperationResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof QuotaError) {
+    return NextResponse.json({ error: error.message, quota: error.details }, { status: error.status });
+  }
+  if (error instanceof FileOperationError) {
+    return NextResponse.json({ error: error.message, conflict: error.conflictPath }, { status: error.status });
+  }
+  if (error instanceof StoragePathError || error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+export interface FileOperationResult {
+  // Virtual path of the item before the operation (absent for mkdir)
+  source?: string;
+  // Virtual path of the created, renamed, moved or copied item
+  path: string;
+  isDirectory: boolean;
+}
+
+// Create a folder named `name` inside `parentPath`
+export async function createDirectory(user: SessionUser, parentPath: string, name: string): Promise<FileOperationResult> {
+  const folderName = validateEntryName(name);
+  const parent = await resolveExistingDirectory(parentPath);
+  await assertPermission(user, parent.virtualPath, 'write');
+
+  const target = await resolveStoragePath(joinVirtualPath(parent.virtualPath, folderName));
+  try {
+    // Non-recursive, so an existing entry is reported instead of reused
+    await mkdir(target.absolutePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw conflict(target.virtualPath);
+    }
+    throw error;
+  }
+
+  return { path: target.virtualPath, isDirectory: true };
+}
+
+// Give a file or folder a new name in the same directory
+export async function renameEntry(user: SessionUser, path: string, newName: string): Promise<FileOperationResult> {
+  const name = validateEntryName(newName);
+  const source = await resolveExistingEntry(path);
+  const parentPath = parentOf(source.virtualPath);
+  await assertSourcePermission(user, source, 'delete');
+  await assertPermission(user, parentPath, 'write');
+
+  const target = await resolveStoragePath(joinVirtualPath(parentPath, name));
+  if (target.virtualPath === source.virtualPath) {
+    return { source: source.virtualPath, path: target.virtualPath, isDirectory: source.isDirectory };
+  }
+  await assertTargetFree(target, source);
+
+  await rename(source.absolutePath, target.absolutePath);
+  return { source: source.virtualPath, path: target.virtualPath, isDirectory: source.isDirectory };
+}
+
+// Move a file or folder into another directory, keeping its name
+export async function moveEntry(user: SessionUser, path: string, destinationPath: string): Promise<FileOperationResult> {
+  const source = await resolveExistingEntry(path);
+  const destination = await resolveExistingDirectory(destinationPath);
+  await assertSourcePermission(user, source, 'delete');
+  await assertPermission(user, destination.virtualPath, 'write');
+  assertNotInsideSource(source, destination);
+
+  const target = await resolveStoragePath(joinVirtualPath(destination.virtualPath, posix.basename(source.virtualPath)));
+  if (target.virtualPath === source.virtualPath) {
+    throw new FileOperationError(`"${source.virtualPath}" is already in ${destination.virtualPath}`, 400);
+  }
+  await assertTargetFree(target, source);
+
+  try {
+    await rename(source.absolutePath, target.absolutePath);
+  } catch (error) {
+    // Folders on another volume cannot be renamed into place; copy, then remove
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    // The copy leaves symlinks out, and removing the source would lose them
+    if (await containsSymlink(source.absolutePath)) {
+      throw new FileOperationError(`"${source.virtualPath}" contains symbolic links, which cannot be moved to another volume`, 409);
+    }
+    await copyTree(source.absolutePath, target.absolutePath);
+    await rm(source.absolutePath, { recursive: true, force: true });
+  }
+
+  return { source: source.virtualPath, path: target.virtualPath, isDirectory: source.isDirectory };
+}
+
+// Copy a file or folder (recursively) into another directory, keeping its name.
+// The copy is new data, so it counts against the quotas and belongs to the user.
+export async function copyEntry(user: SessionUser, path: string, destinationPath: string): Promise<FileOperationResult> {
+  const source = await resolveExistingEntry(path);
+  const destination = await resolveExistingDirectory(destinationPath);
+  await assertSourcePermission(user, source, 'read');
+  await assertPermission(user, destination.virtualPath, 'write');
+  assertNotInsideSource(source, destination);
+
+  const target = await resolveStoragePath(joinVirtualPath(destination.virtualPath, posix.basename(source.virtualPath)));
+  await assertTargetFree(target, source);
+
+  const quota = await reserveQuota(user);
+  try {
+    const { bytes, files } = await measureTree(source.absolutePath);
+    quota.add(bytes, files);
+
+    try {
+      await copyTree(source.absolutePath, target.absolutePath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      // Something appeared at the target meanwhile; it is not ours to clean up
+      if (code === 'ERR_FS_CP_EEXIST' || code === 'EEXIST') {
+        throw conflict(target.virtualPath);
+      }
+      // Leave nothing half-copied behind
+      await rm(target.absolutePath, { recursive: true, force: true }).catch(() => {});
+      throw error;
+    }
+
+    await quota.commit([target.absolutePath]);
+  } finally {
+    quota.release();
+  }
+
+  return { source: source.virtualPath, path: target.virtualPath, isDirectory: source.isDirectory };
+}
+
+// Create the folders of a relative path such as "Photos/2024" inside
+// parentPath, as far as they are missing, and return the innermost one.
+// Uploads of whole folders use it to rebuild their tree.
+export async function ensureDirectoryPath(user: SessionUser, parentPath: string, relativePath: string): Promise<ResolvedStoragePath> {
+  const names = relativePath.split('/').filter(name => name !== '').map(validateEntryName);
+  let current = await resolveExistingDirectory(parentPath);
+
+  for (const name of names) {
+    const next = await resolveStoragePath(joinVirtualPath(current.virtualPath, name));
+    const existing = await stat(next.absolutePath).catch(() => null);
+    if (existing && !existing.isDirectory()) {
+      throw new FileOperationError(`"${next.virtualPath}" exists and is not a folder`, 409, next.virtualPath);
+    }
+    if (!existing) {
+      await assertPermission(user, current.virtualPath, 'write');
+      try {
+        await mkdir(next.absolutePath);
+      } catch (error) {
+        // Created by a parallel upload of the same folder
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+    }
+    current = next;
+  }
+
+  await assertPermission(user, current.virtualPath, 'write');
+  return current;
+}
+
+// Reject names that are empty, contain separators or would be hidden
+export function validateEntryName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new FileOperationError('A name is required', 400);
+  }
+
+  const trimmed = name.trim();
+  if (/[\\/\x00-\x1f]/.test(trimmed)) {
+    throw new FileOperationError('Names cannot contain slashes or control characters', 400);
+  }
+  if (trimmed.startsWith('.')) {
+    throw new FileOperationError('Names cannot start with a dot', 400);
+  }
+  if (Buffer.byteLength(trimmed) > 255) {
+    throw new FileOperationError('Name is too long', 400);
+  }
+  return trimmed;
+}
+
+async function resolveExistingEntry(path: unknown): Promise<ResolvedStoragePath & { isDirectory: boolean }> {
+  if (typeof path !== 'string' || !path) {
+    throw new FileOperationError('Path is required', 400);
+  }
+
+  const resolved = await resolveStoragePath(path);
+  if (resolved.virtualPath === '/') {
+    throw new FileOperationError('The storage root cannot be changed', 400);
+  }
+
+  try {
+    const stats = await lstat(resolved.absolutePath);
+    return { ...resolved, isDirectory: stats.isDirectory() };
+  } catch {
+    throw new FileOperationError(`"${resolved.virtualPath}" was not found`, 404);
+  }
+}
+
+async function resolveExistingDirectory(path: unknown): Promise<ResolvedStoragePath> {
+  const resolved = await resolveStoragePath(typeof path === 'string' ? path : null);
+  const stats = await stat(resolved.absolutePath).catch(() => null);
+  if (!stats || !stats.isDirectory()) {
+    throw new FileOperationError(`Folder "${resolved.virtualPath}" was not found`, 404);
+  }
+  return resolved;
+}
+
+// A folder takes everything below it along, so every subfolder must allow it too
+async function assertSourcePermission(
+  user: SessionUser,
+  source: ResolvedStoragePath & { isDirectory: boolean },
+  permission: 'read' | 'delete'
+): Promise<void> {
+  if (source.isDirectory) {
+    await assertTreePermission(user, source, permission);
+  } else {
+    await assertPermission(user, source.virtualPath, permission);
+  }
+}
+
+async function assertTargetFree(target: ResolvedStoragePath, source: ResolvedStoragePath): Promise<void> {
+  try {
+    const existing = await lstat(target.absolutePath);
+    // Case-only renames on case-insensitive volumes point at the source itself
+    const sourceStats = await lstat(source.absolutePath);
+    if (existing.ino === sourceStats.ino && existing.dev === sourceStats.dev) return;
+    throw conflict(target.virtualPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+}
+
+// A folder cannot be moved or copied into itself or one of its subfolders
+function assertNotInsideSource(source: ResolvedStoragePath & { isDirectory: boolean }, destination: ResolvedStoragePath): void {
+  if (!source.isDirectory) return;
+  if (destination.absolutePath === source.absolutePath || destination.absolutePath.startsWith(`${source.absolutePath}${sep}`)) {
+    throw new FileOperationError('A folder cannot be placed inside itself', 400);
+  }
+}
+
+// Symlinks are skipped: a copied link could point anywhere on the host
+async function copyTree(source: string, target: string): Promise<void> {
+  await cp(source, target, {
+    recursive: true,
+    errorOnExist: true,
+    force: false,
+    preserveTimestamps: true,
+    filter: async (path) => !(await lstat(path)).isSymbolicLink()
+  });
+}
+
+async function containsSymlink(absolutePath: string): Promise<boolean> {
+  const stats = await lstat(absolutePath);
+  if (stats.isSymbolicLink()) return true;
+  if (!stats.isDirectory()) return false;
+
+  for (const name of await readdir(absolutePath)) {
+    if (await containsSymlink(join(absolutePath, name))) return true;
+  }
+  return false;
+}
+
+function parentOf(virtualPath: string): string {
+  const parent = posix.dirname(virtualPath);
+  return parent === '.' ? '/' : parent;
+}
+
+function conflict(virtualPath: string): FileOperationError {
+  return new FileOperationError(`An item named "${posix.basename(virtualPath)}" already exists in ${parentOf(virtualPath)}`, 409, virtualPath);
+}
@@ -0,0 +1,234 @@
+import { NextResponse } from 'next/server';
+import { createReadStream, Stats } from 'fs';
+import { Readable } from 'stream';
+import { randomBytes } from 'crypto';
+import { getMimeType } from './mime-types';
+
+// Requests asking for more ranges than this are served in full instead
+const MAX_RANGES = 32;
+
+export interface FileResponseOptions {
+  fileName: string;
+  disposition?: 'attachment' | 'inline';
+  contentType?: string;
+  extraHeaders?: { [name: string]: string };
+}
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Serve a file from disk as a streamed response with support for HTTP Range
+// (single and multi-range), If-Range and ETag/Last-Modified revalidation.
+export function createFileResponse(
+  request: Request,
+  filePath: string,
+  stats: Stats,
+  options: FileResponseOptions
+): NextResponse {
+  const size = stats.size;
+  const contentType = options.contentType || getMimeType(options.fileName);
+  const etag = getEtag(stats);
+  const lastModified = stats.mtime.toUTCString();
+  const isHead = request.method === 'HEAD';
+
+  const headers = new Headers({
+    'Accept-Ranges': 'bytes',
+    'ETag': etag,
+    'Last-Modified': lastModified,
+    'Cache-Control': 'private, no-cache',
+    'Content-Disposition': formatContentDisposition(options.disposition || 'attachment', options.fileName),
+    ...(options.disposition === 'inline' ? getInlineSecurityHeaders(contentType) : {}),
+    ...options.extraHeaders
+  });
+
+  if (isNotModified(request, etag, stats.mtime)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const ranges = getRequestedRanges(request, stats);
+
+  if (ranges === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${size}`);
+    headers.delete('Content-Disposition');
+    return NextResponse.json(
+      { error: 'Requested range not satisfiable' },
+      { status: 416, headers }
+    );
+  }
+
+  // No (usable) Range header: send the whole file
+  if (!ranges) {
+    headers.set('Content-Type', contentType);
+    headers.set('Content-Length', size.toString());
+    return new NextResponse(isHead ? null : streamFile(filePath, 0, size - 1), { status: 200, headers });
+  }
+
+  if (ranges.length === 1) {
+    const { start, end } = ranges[0];
+    headers.set('Content-Type', contentType);
+    headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+    headers.set('Content-Length', (end - start + 1).toString());
+    return new NextResponse(isHead ? null : streamFile(filePath, start, end), { status: 206, headers });
+  }
+
+  // Several ranges are sent as multipart/byteranges
+  const boundary = randomBytes(16).toString('hex');
+  const partHeaders = ranges.map(({ start, end }) =>
+    `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+  const contentLength = ranges.reduce(
+    (sum, { start, end }, index) => sum + Buffer.byteLength(partHeaders[index]) + (end - start + 1),
+    Buffer.byteLength(trailer)
+  );
+
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', contentLength.toString());
+
+  const byteRanges = ranges;
+  async function* multipartBody() {
+    for (let index = 0; index < byteRanges.length; index++) {
+      const { start, end } = byteRanges[index];
+      yield Buffer.from(partHeaders[index]);
+      yield* createReadStream(filePath, { start, end });
+    }
+    yield Buffer.from(trailer);
+  }
+
+  const body = isHead ? null : Readable.toWeb(Readable.from(multipartBody())) as unknown as ReadableStream;
+  return new NextResponse(body, { status: 206, headers });
+}
+
+// Whether createFileResponse sends the start of the file for this request:
+// the whole file, or ranges whose first (after merging) begins at byte 0.
+// Works without building the response, so nothing is opened to find out.
+export function includesFirstByte(request: Request, stats: Stats): boolean {
+  if (isNotModified(request, getEtag(stats), stats.mtime)) return false;
+  const ranges = getRequestedRanges(request, stats);
+  return ranges === null || (Array.isArray(ranges) && ranges[0].start === 0);
+}
+
+// The ranges createFileResponse serves for this request, sorted and merged.
+// null means the whole file (or a 304).
+function getRequestedRanges(request: Request, stats: Stats): ByteRange[] | 'unsatisfiable' | null {
+  const rangeHeader = request.headers.get('range');
+  return rangeHeader && isRangeFresh(request, getEtag(stats), stats.mtime)
+    ? parseRangeHeader(rangeHeader, stats.size)
+    : null;
+}
+
+// A quoted ASCII name for old clients plus the exact UTF-8 name (RFC 6266)
+export function formatContentDisposition(disposition: 'attachment' | 'inline', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function getEtag(stats: Stats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+function streamFile(filePath: string, start: number, end: number): ReadableStream | null {
+  // Empty files have no bytes to stream
+  if (end < start) return null;
+  return Readable.toWeb(createReadStream(filePath, { start, end })) as unknown as ReadableStream;
+}
+
+// Parse "bytes=0-99,200-,-50". Returns null when the header is malformed (it is
+// then ignored, per RFC 9110) and 'unsatisfiable' when no range fits the file.
+function parseRangeHeader(header: string, size: number): ByteRange[] | 'unsatisfiable' | null {
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)-(\d*)$/);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+    let start: number;
+    let end: number;
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const suffixLength = parseInt(parts[2], 10);
+      if (suffixLength === 0) continue;
+      start = Math.max(0, size - suffixLength);
+      end = size - 1;
+    } else {
+      start = parseInt(parts[1], 10);
+      end = parts[2] === '' ? size - 1 : Math.min(parseInt(parts[2], 10), size - 1);
+      if (parts[2] !== '' && parseInt(parts[2], 10) < start) return null;
+    }
+
+    if (start >= size || end < start) continue;
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length === 0) return 'unsatisfiable';
+  return mergeRanges(ranges);
+}
+
+// Coalesce overlapping or adjacent ranges so clients cannot request the same bytes repeatedly
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  if (ranges.length === 1) return ranges;
+
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [{ ...sorted[0] }];
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function isNotModified(request: Request, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    // Weak comparison: W/"x" matches "x"
+    const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(tag => strip(tag) === etag);
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && Math.floor(mtime.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+// If-Range only lets the Range through when the client's copy is still current
+function isRangeFresh(request: Request, etag: string, mtime: Date): boolean {
+  const ifRange = request.headers.get('if-range');
+  if (!ifRange) return true;
+
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    // Strong comparison only; a weak validator never matches
+    return value === etag;
+  }
+
+  const date = Date.parse(value);
+  return !isNaN(date) && Math.floor(mtime.getTime() / 1000) * 1000 === date;
+}
+
+// Files shown inline are rendered on the app's own origin. Uploaded HTML or
+// SVG must not run scripts there, so such documents get an opaque origin. The
+// built-in PDF viewer refuses to load in a sandbox, so PDFs are left out.
+function getInlineSecurityHeaders(contentType: string): { [name: string]: string } {
+  const headers: { [name: string]: string } = { 'X-Content-Type-Options': 'nosniff' };
+  if (contentType !== 'application/pdf') {
+    headers['Content-Security-Policy'] = 'sandbox';
+  }
+  return headers;
+}
@@ -0,0 +1,318 @@
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { StorageUtils } from '../config/nas';
+import { getPermissionsForPaths } from './acl';
+import { SessionUser } from './auth';
+import { getFileType, getFileCategory, FileCategory, FILE_CATEGORIES } from './mime-types';
+import { resolveStoragePath, joinVirtualPath, normalizeVirtualPath } from './storage-path';
+
+export const DEFAULT_SEARCH_LIMIT = 100;
+export const MAX_SEARCH_LIMIT = 500;
+
+export interface SearchCriteria {
+  // Case-insensitive substring of the name, or a glob (*, ?, [abc]) matching the whole name
+  query: string;
+  types: FileCategory[];
+  minSize: number | null;
+  maxSize: number | null;
+  modifiedAfter: Date | null;
+  modifiedBefore: Date | null;
+}
+
+// A matching file or folder, shaped like an entry of /api/files plus the folder it is in
+export interface SearchResult {
+  id: string;
+  name: string;
+  isDirectory: boolean;
+  childCount?: number;
+  size: number;
+  type: string;
+  path: string;
+  parentPath: string;
+  uploadedAt: string;
+  sizeFormatted: string;
+}
+
+export class SearchError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SearchError';
+  }
+}
+
+const GLOB_CHARACTERS = /[*?[]/;
+
+// A name pattern, one token per character of the name except for stars
+type GlobToken =
+  | { kind: 'star' }
+  | { kind: 'any' }
+  | { kind: 'char'; char: string }
+  | { kind: 'class'; negated: boolean; ranges: [string, string][] };
+
+export function parseSearchCriteria(searchParams: URLSearchParams): SearchCriteria {
+  const types = (searchParams.get('type') || '').split(',').map(type => type.trim()).filter(Boolean);
+  for (const type of types) {
+    if (!FILE_CATEGORIES.includes(type as FileCategory)) {
+      throw new SearchError(`Type must be one of: ${FILE_CATEGORIES.join(', ')}`, 400);
+    }
+  }
+
+  const criteria: SearchCriteria = {
+    query: (searchParams.get('q') || '').trim(),
+    types: types as FileCategory[],
+    minSize: parseSizeParam(searchParams.get('minSize'), 'minSize'),
+    maxSize: parseSizeParam(searchParams.get('maxSize'), 'maxSize'),
+    modifiedAfter: parseDateParam(searchParams.get('modifiedAfter'), 'modifiedAfter'),
+    modifiedBefore: parseDateParam(searchParams.get('modifiedBefore'), 'modifiedBefore')
+  };
+
+  const hasFilter = criteria.types.length > 0 || criteria.minSize !== null || criteria.maxSize !== null ||
+    criteria.modifiedAfter !== null || criteria.modifiedBefore !== null;
+  if (!criteria.query && !hasFilter) {
+    throw new SearchError('Give a name to search for or at least one filter', 400);
+  }
+  // Reject a bad pattern now, before any results are streamed
+  createNameMatcher(criteria.query);
+  return criteria;
+}
+
+// Walk the tree below scopePath depth first, in name order, yielding every
+// match the user can see. Folders the user cannot read are skipped along with
+// everything in them, as are hidden entries and symlinks. Results come strictly
+// after `after` (a path returned earlier), which is how pages continue.
+export async function* searchFiles(
+  user: SessionUser,
+  scopePath: string,
+  criteria: SearchCriteria,
+  options: { after?: string | null; signal?: AbortSignal } = {}
+): AsyncGenerator<SearchResult> {
+  const { virtualPath, absolutePath } = await resolveStoragePath(scopePath);
+  const after = options.after ? splitPath(normalizeVirtualPath(options.after)) : null;
+  const matchName = createNameMatcher(criteria.query);
+
+  // Pending folders, popped from the end; children are pushed in reverse so the walk stays in order
+  const stack = [{ virtualPath, absolutePath }];
+
+  while (stack.length > 0) {
+    if (options.signal?.aborted) return;
+    const folder = stack.pop()!;
+
+    const entries = await readdir(folder.absolutePath, { withFileTypes: true }).catch(() => []);
+    const visible = entries
+      .filter(entry => !entry.name.startsWith('.') && (entry.isFile() || entry.isDirectory()))
+      .sort((a, b) => compareNames(a.name, b.name));
+
+    const folderPaths = visible.filter(entry => entry.isDirectory()).map(entry => joinVirtualPath(folder.virtualPath, entry.name));
+    const permissions = await getPermissionsForPaths(user, folderPaths);
+    const subfolders: { virtualPath: string; absolutePath: string }[] = [];
+
+    for (const entry of visible) {
+      const path = joinVirtualPath(folder.virtualPath, entry.name);
+      const entryPath = join(folder.absolutePath, entry.name);
+      if (entry.isDirectory() && !permissions[path].includes('read')) continue;
+
+      const position = after ? comparePosition(splitPath(path), after) : 'after';
+      if (position === 'before') continue;
+      if (entry.isDirectory()) {
+        subfolders.push({ virtualPath: path, absolutePath: entryPath });
+      }
+      // An ancestor of the cursor was already returned; only its contents are left
+      if (position === 'ancestor' || !matchName(entry.name)) continue;
+
+      const result = await toSearchResult(entry.name, path, folder.virtualPath, entryPath, entry.isDirectory());
+      if (result && matchesFilters(result, criteria)) {
+        yield result;
+      }
+    }
+
+    stack.push(...subfolders.reverse());
+  }
+}
+
+async function toSearchResult(
+  name: string,
+  path: string,
+  parentPath: string,
+  absolutePath: string,
+  isDirectory: boolean
+): Promise<SearchResult | null> {
+  try {
+    const stats = await stat(absolutePath);
+    if (isDirectory) {
+      const children = await readdir(absolutePath);
+      return {
+        id: `dir_${path}`,
+        name,
+        isDirectory: true,
+        childCount: children.filter(child => !child.startsWith('.')).length,
+        size: 0,
+        type: 'directory',
+        path,
+        parentPath,
+        uploadedAt: stats.mtime.toISOString(),
+        sizeFormatted: ''
+      };
+    }
+    return {
+      id: `search_${path}`,
+      name,
+      isDirectory: false,
+      size: stats.size,
+      type: getFileType(name),
+      path,
+      parentPath,
+      uploadedAt: stats.mtime.toISOString(),
+      sizeFormatted: StorageUtils.formatSize(stats.size)
+    };
+  } catch {
+    // Removed while the search was running
+    return null;
+  }
+}
+
+function matchesFilters(result: SearchResult, criteria: SearchCriteria): boolean {
+  if (criteria.types.length > 0 && !criteria.types.includes(getFileCategory(result.type))) return false;
+
+  // Size limits only make sense for files
+  if ((criteria.minSize !== null || criteria.maxSize !== null) && result.isDirectory) return false;
+  if (criteria.minSize !== null && result.size < criteria.minSize) return false;
+  if (criteria.maxSize !== null && result.size > criteria.maxSize) return false;
+
+  const modified = new Date(result.uploadedAt).getTime();
+  if (criteria.modifiedAfter && modified < criteria.modifiedAfter.getTime()) return false;
+  if (criteria.modifiedBefore && modified > criteria.modifiedBefore.getTime()) return false;
+  return true;
+}
+
+function createNameMatcher(query: string): (name: string) => boolean {
+  if (!query) return () => true;
+  if (!GLOB_CHARACTERS.test(query)) {
+    const needle = query.toLowerCase();
+    return name => name.toLowerCase().includes(needle);
+  }
+
+  const tokens = compileGlob(query);
+  return name => matchGlob(tokens, name);
+}
+
+function compileGlob(query: string): GlobToken[] {
+  const tokens: GlobToken[] = [];
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === '*') {
+      // Consecutive stars match the same as one
+      if (tokens[tokens.length - 1]?.kind !== 'star') {
+        tokens.push({ kind: 'star' });
+      }
+    } else if (char === '?') {
+      tokens.push({ kind: 'any' });
+    } else if (char === '[' && query.indexOf(']', i + 2) !== -1) {
+      // A character class; a leading ! negates it as in shell globs
+      const end = query.indexOf(']', i + 2);
+      let body = query.slice(i + 1, end);
+      const negated = body[0] === '!' || body[0] === '^';
+      if (negated) body = body.slice(1);
+
+      const ranges: [string, string][] = [];
+      for (let j = 0; j < body.length; j++) {
+        if (body[j + 1] === '-' && j + 2 < body.length) {
+          const from = body[j];
+          const to = body[j + 2];
+          if (from > to) {
+            throw new SearchError(`Invalid range "${from}-${to}" in the search pattern`, 400);
+          }
+          ranges.push([from, to]);
+          j += 2;
+        } else {
+          ranges.push([body[j], body[j]]);
+        }
+      }
+      tokens.push({ kind: 'class', negated, ranges });
+      i = end;
+    } else {
+      tokens.push({ kind: 'char', char: char.toLowerCase() });
+    }
+  }
+  return tokens;
+}
+
+// Case-insensitive. A failed match only goes back to the last star, so the
+// time stays proportional to the name times the pattern, whatever the query.
+function matchGlob(tokens: GlobToken[], name: string): boolean {
+  let token = 0;
+  let position = 0;
+  let lastStar = -1;
+  let starPosition = 0;
+
+  while (position < name.length) {
+    const current = tokens[token];
+    if (current?.kind === 'star') {
+      lastStar = token++;
+      starPosition = position;
+    } else if (current && matchesCharacter(current, name[position])) {
+      token++;
+      position++;
+    } else if (lastStar !== -1) {
+      // Let the last star take one more character and try again from there
+      token = lastStar + 1;
+      position = ++starPosition;
+    } else {
+      return false;
+    }
+  }
+  while (tokens[token]?.kind === 'star') token++;
+  return token === tokens.length;
+}
+
+function matchesCharacter(token: Exclude<GlobToken, { kind: 'star' }>, char: string): boolean {
+  switch (token.kind) {
+    case 'any':
+      return true;
+    case 'char':
+      return char.toLowerCase() === token.char;
+    case 'class': {
+      const candidates = [char, char.toLowerCase(), char.toUpperCase()];
+      const inClass = token.ranges.some(([from, to]) => candidates.some(candidate => candidate >= from && candidate <= to));
+      return inClass !== token.negated;
+    }
+  }
+}
+
+function parseSizeParam(value: string | null, name: string): number | null {
+  if (value === null || value.trim() === '') return null;
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return Number(text);
+  if (!/^\d+(\.\d+)?\s*[KMGT]?B$/i.test(text)) {
+    throw new SearchError(`${name} must be a number of bytes or a size like 10MB`, 400);
+  }
+  return StorageUtils.parseSize(text);
+}
+
+function parseDateParam(value: string | null, name: string): Date | null {
+  if (value === null || value.trim() === '') return null;
+  const date = new Date(value.trim());
+  if (isNaN(date.getTime())) {
+    throw new SearchError(`${name} must be a date, e.g. 2024-05-31`, 400);
+  }
+  return date;
+}
+
+function splitPath(virtualPath: string): string[] {
+  return virtualPath.split('/').filter(Boolean);
+}
+
+// Plain code unit order, so the walk and the cursor always agree
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Where a path falls in the walk relative to the cursor
+function comparePosition(path: string[], cursor: string[]): 'before' | 'ancestor' | 'after' {
+  for (let i = 0; i < Math.min(path.length, cursor.length); i++) {
+    const order = compareNames(path[i], cursor[i]);
+    if (order !== 0) return order < 0 ? 'before' : 'after';
+  }
+  if (path.length < cursor.length) return 'ancestor';
+  // The cursor itself was the last result of the previous page
+  return path.length === cursor.length ? 'before' : 'after';
+}
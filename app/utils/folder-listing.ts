@@ -0,0 +1,316 @@
+import { readdir, stat } from 'fs/promises';
+import { Dirent, Stats } from 'fs';
+import { join, extname } from 'path';
+import { StorageUtils } from '../config/nas';
+import { getPermissionsForPaths } from './acl';
+import { SessionUser } from './auth';
+import { getFileType, getFileCategory, getMimeType, FileCategory, FILE_CATEGORIES } from './mime-types';
+import { joinVirtualPath } from './storage-path';
+
+export type ListingSortKey = 'name' | 'size' | 'date' | 'type';
+export type ListingOrder = 'asc' | 'desc';
+
+// A column and direction picked in the file list
+export interface ListingSort {
+  key: ListingSortKey;
+  order: ListingOrder;
+}
+
+export const LISTING_SORT_KEYS: ListingSortKey[] = ['name', 'size', 'date', 'type'];
+export const MAX_LISTING_LIMIT = 1000;
+
+// Entries are statted this many at a time
+const STAT_CONCURRENCY = 64;
+
+export interface ListingOptions {
+  // null keeps the classic order: folders by name, then files newest first
+  sort: ListingSortKey | null;
+  order: ListingOrder;
+  types: FileCategory[];
+  // null returns everything
+  limit: number | null;
+  cursor: string | null;
+}
+
+export interface ListingEntry {
+  id: string;
+  name: string;
+  isDirectory: boolean;
+  childCount?: number;
+  size: number;
+  type: string;
+  path: string;
+  uploadedAt: string;
+  sizeFormatted: string;
+}
+
+export interface FolderListing {
+  entries: ListingEntry[];
+  // Entries matching the type filter, across all pages
+  total: number;
+  // Pass back as ?cursor= for the next page; null on the last one
+  nextCursor: string | null;
+}
+
+export class ListingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ListingError';
+  }
+}
+
+// An entry before it is turned into a ListingEntry; stats are only read when needed
+interface Candidate {
+  name: string;
+  isDirectory: boolean;
+  stats?: Stats | null;
+}
+
+// Where the previous page stopped: the last entry's sort value and name
+interface Cursor {
+  sort: ListingSortKey | null;
+  order: ListingOrder;
+  isDirectory: boolean;
+  value: string | number;
+  name: string;
+}
+
+export function parseListingOptions(searchParams: URLSearchParams): ListingOptions {
+  const sort = searchParams.get('sort');
+  if (sort !== null && !LISTING_SORT_KEYS.includes(sort as ListingSortKey)) {
+    throw new ListingError(`Sort must be one of: ${LISTING_SORT_KEYS.join(', ')}`, 400);
+  }
+
+  const order = searchParams.get('order') || (sort === 'size' || sort === 'date' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ListingError('Order must be asc or desc', 400);
+  }
+
+  const types = (searchParams.get('type') || '').split(',').map(type => type.trim()).filter(Boolean);
+  for (const type of types) {
+    if (!FILE_CATEGORIES.includes(type as FileCategory)) {
+      throw new ListingError(`Type must be one of: ${FILE_CATEGORIES.join(', ')}`, 400);
+    }
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam === null ? null : Number(limitParam);
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LISTING_LIMIT)) {
+    throw new ListingError(`Limit must be between 1 and ${MAX_LISTING_LIMIT}`, 400);
+  }
+
+  return {
+    sort: sort as ListingSortKey | null,
+    order,
+    types: types as FileCategory[],
+    limit,
+    cursor: searchParams.get('cursor')
+  };
+}
+
+// One page of a folder's visible entries, folders first. Sorting by name or
+// type needs nothing but the directory itself, so only the returned page is
+// statted; sorting by size or date stats every entry, in parallel.
+export async function listFolder(
+  user: SessionUser,
+  virtualPath: string,
+  absolutePath: string,
+  options: ListingOptions
+): Promise<FolderListing> {
+  const cursor = options.cursor ? decodeCursor(options.cursor, options) : null;
+
+  let dirents: Dirent[];
+  try {
+    dirents = await readdir(absolutePath, { withFileTypes: true });
+  } catch (error) {
+    // A folder that does not exist yet is simply empty
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { entries: [], total: 0, nextCursor: null };
+    }
+    throw error;
+  }
+
+  // Hidden entries include the server's internal directories and in-progress uploads
+  let candidates: Candidate[] = dirents
+    .filter(dirent => !dirent.name.startsWith('.') && (dirent.isFile() || dirent.isDirectory()))
+    .map(dirent => ({ name: dirent.name, isDirectory: dirent.isDirectory() }));
+
+  // Only show folders the user is allowed to open
+  const folderPaths = candidates.filter(candidate => candidate.isDirectory).map(candidate => joinVirtualPath(virtualPath, candidate.name));
+  const permissions = await getPermissionsForPaths(user, folderPaths);
+  candidates = candidates.filter(candidate =>
+    !candidate.isDirectory || permissions[joinVirtualPath(virtualPath, candidate.name)].includes('read'));
+
+  if (options.types.length > 0) {
+    candidates = candidates.filter(candidate => options.types.includes(getFileCategory(getCandidateType(candidate))));
+  }
+
+  if (needsStats(options.sort)) {
+    await statAll(absolutePath, candidates);
+    // Entries removed since readdir
+    candidates = candidates.filter(candidate => candidate.stats);
+  }
+
+  candidates.sort((a, b) => compareCandidates(a, b, options));
+  const total = candidates.length;
+
+  if (cursor) {
+    const position = candidates.findIndex(candidate => compareToCursor(candidate, cursor, options) > 0);
+    candidates = position === -1 ? [] : candidates.slice(position);
+  }
+
+  const hasMore = options.limit !== null && candidates.length > options.limit;
+  const page = options.limit !== null ? candidates.slice(0, options.limit) : candidates;
+
+  await statAll(absolutePath, page);
+  const entries: ListingEntry[] = [];
+  for (const candidate of page) {
+    const entry = await toListingEntry(virtualPath, absolutePath, candidate);
+    if (entry) entries.push(entry);
+  }
+
+  const last = page[page.length - 1];
+  return {
+    entries,
+    total,
+    nextCursor: hasMore && last ? encodeCursor(last, options) : null
+  };
+}
+
+async function toListingEntry(virtualPath: string, absolutePath: string, candidate: Candidate): Promise<ListingEntry | null> {
+  const stats = candidate.stats;
+  // Skip entries that can't be read
+  if (!stats) return null;
+  const path = joinVirtualPath(virtualPath, candidate.name);
+
+  if (candidate.isDirectory) {
+    const children = await readdir(join(absolutePath, candidate.name)).catch(() => null);
+    if (!children) return null;
+    return {
+      id: `dir_${path}`,
+      name: candidate.name,
+      isDirectory: true,
+      childCount: children.filter(child => !child.startsWith('.')).length,
+      size: 0,
+      type: 'directory',
+      path,
+      uploadedAt: stats.mtime.toISOString(),
+      sizeFormatted: ''
+    };
+  }
+
+  return {
+    id: `${stats.mtime.getTime()}_${Math.random().toString(36).substring(2, 8)}`,
+    name: candidate.name,
+    isDirectory: false,
+    size: stats.size,
+    type: getFileType(candidate.name),
+    path,
+    uploadedAt: stats.mtime.toISOString(),
+    sizeFormatted: StorageUtils.formatSize(stats.size)
+  };
+}
+
+function needsStats(sort: ListingSortKey | null): boolean {
+  // The classic order sorts files by date
+  return sort === null || sort === 'size' || sort === 'date';
+}
+
+async function statAll(absolutePath: string, candidates: Candidate[]): Promise<void> {
+  const pending = candidates.filter(candidate => candidate.stats === undefined);
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const candidate = pending[next++];
+      candidate.stats = await stat(join(absolutePath, candidate.name)).catch(() => null);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(STAT_CONCURRENCY, pending.length) }, worker));
+}
+
+function getCandidateType(candidate: Candidate): string {
+  return candidate.isDirectory ? 'directory' : getFileType(candidate.name);
+}
+
+// The value an entry is sorted by; ties are broken by name
+function getSortValue(candidate: { name: string; isDirectory: boolean; stats?: Stats | null }, options: ListingOptions): string | number {
+  switch (options.sort) {
+    case 'size':
+      return candidate.isDirectory ? 0 : candidate.stats?.size ?? 0;
+    case 'date':
+      return candidate.stats?.mtimeMs ?? 0;
+    case 'type':
+      // Full MIME type then extension, so .jpg and .jpeg sit together but stay apart
+      return candidate.isDirectory ? '' : `${getMimeType(candidate.name)} ${extname(candidate.name).toLowerCase()}`;
+    case 'name':
+      return candidate.name;
+    default:
+      // Classic order: folders by name, files newest first
+      return candidate.isDirectory ? candidate.name : -(candidate.stats?.mtimeMs ?? 0);
+  }
+}
+
+function compareCandidates(a: Candidate, b: Candidate, options: ListingOptions): number {
+  return compareKeys(
+    { isDirectory: a.isDirectory, value: getSortValue(a, options), name: a.name },
+    { isDirectory: b.isDirectory, value: getSortValue(b, options), name: b.name },
+    options
+  );
+}
+
+function compareToCursor(candidate: Candidate, cursor: Cursor, options: ListingOptions): number {
+  return compareKeys(
+    { isDirectory: candidate.isDirectory, value: getSortValue(candidate, options), name: candidate.name },
+    cursor,
+    options
+  );
+}
+
+function compareKeys(
+  a: { isDirectory: boolean; value: string | number; name: string },
+  b: { isDirectory: boolean; value: string | number; name: string },
+  options: ListingOptions
+): number {
+  // Folders always come first
+  if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+
+  let order = typeof a.value === 'number' && typeof b.value === 'number'
+    ? a.value - b.value
+    : String(a.value).localeCompare(String(b.value));
+  if (options.sort !== null && options.order === 'desc') order = -order;
+  if (order !== 0) return order;
+
+  // Equal values keep a stable order, whatever the direction
+  const byName = a.name.localeCompare(b.name);
+  if (byName !== 0) return byName;
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+function encodeCursor(candidate: Candidate, options: ListingOptions): string {
+  const cursor: Cursor = {
+    sort: options.sort,
+    order: options.order,
+    isDirectory: candidate.isDirectory,
+    value: getSortValue(candidate, options),
+    name: candidate.name
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string, options: ListingOptions): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new ListingError('Invalid cursor', 400);
+  }
+  if (typeof cursor !== 'object' || cursor === null || typeof cursor.name !== 'string' ||
+      (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')) {
+    throw new ListingError('Invalid cursor', 400);
+  }
+  // A cursor only makes sense in the order it was made for
+  if (cursor.sort !== options.sort || cursor.order !== options.order) {
+    throw new ListingError('The cursor belongs to a different sort order; start from the first page', 400);
+  }
+  return cursor;
+}
@@ -0,0 +1,188 @@
+import { mkdir, readdir, stat } from 'fs/promises';
+import { join, basename } from 'path';
+import { NAS_CONFIG } from '../config/nas';
+import { getSystemFilePath, readJsonFile, updateJsonFile } from './json-store';
+import { getPermissionsForPaths } from './acl';
+import { SessionUser } from './auth';
+import { resolveStoragePath, normalizeVirtualPath, joinVirtualPath } from './storage-path';
+
+const FOLDERS_FILE = 'folders.json';
+
+export interface FolderTreeNode {
+  name: string;
+  path: string;
+  // Whether expanding the folder would show anything
+  hasChildren: boolean;
+}
+
+// A folder an admin put in the Sidebar's quick access list
+export interface PinnedFolder {
+  path: string;
+  name: string;
+  icon: string;
+}
+
+interface FoldersFile {
+  // Set once the default directories have been created
+  initializedAt: string | null;
+  pins: PinnedFolder[];
+}
+
+export class FolderTreeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'FolderTreeError';
+  }
+}
+
+// Pinned on first boot, matching the folders created from DEFAULT_DIRECTORIES
+const DEFAULT_PINS: PinnedFolder[] = [
+  { path: '/Documents', name: 'Documents', icon: '📄' },
+  { path: '/Pictures', name: 'Pictures', icon: '🖼️' },
+  { path: '/Music', name: 'Music', icon: '🎵' },
+  { path: '/Videos', name: 'Videos', icon: '🎬' },
+  { path: '/Downloads', name: 'Downloads', icon: '⬇️' },
+  { path: '/shared', name: 'Shared', icon: '👥' }
+];
+
+const MAX_PINS = 50;
+const MAX_PIN_NAME_LENGTH = 64;
+// Emoji can take several code units, so allow a little room
+const MAX_ICON_LENGTH = 16;
+
+// Create NAS_CONFIG.DEFAULT_DIRECTORIES and the default pins the first time
+// the server starts. Folders removed later on are not brought back.
+export async function ensureDefaultDirectories(): Promise<void> {
+  const filePath = getSystemFilePath(FOLDERS_FILE);
+  const { initializedAt } = await readJsonFile<FoldersFile>(filePath, { initializedAt: null, pins: [] });
+  if (initializedAt) return;
+
+  for (const directory of NAS_CONFIG.DEFAULT_DIRECTORIES) {
+    await mkdir(join(NAS_CONFIG.STORAGE_PATH, normalizeVirtualPath(directory)), { recursive: true });
+  }
+
+  await updateJsonFile<FoldersFile, void>(filePath, { initializedAt: null, pins: [] }, (data) => {
+    data.initializedAt = new Date().toISOString();
+    if (data.pins.length === 0) {
+      data.pins = DEFAULT_PINS;
+    }
+  });
+  console.log(`Created default directories in ${NAS_CONFIG.STORAGE_PATH}`);
+}
+
+// One level of the folder tree: the subfolders of virtualPath the user can read
+export async function listSubfolders(user: SessionUser, virtualPath: string): Promise<FolderTreeNode[]> {
+  const { absolutePath } = await resolveStoragePath(virtualPath);
+
+  let names: string[];
+  try {
+    names = await listDirectoryNames(absolutePath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT') {
+      throw new FolderTreeError(`Folder not found: ${virtualPath}`, 404);
+    }
+    if (code === 'ENOTDIR') {
+      throw new FolderTreeError(`Not a folder: ${virtualPath}`, 400);
+    }
+    throw error;
+  }
+
+  const paths = names.map(name => joinVirtualPath(virtualPath, name));
+  const permissions = await getPermissionsForPaths(user, paths);
+  const nodes: FolderTreeNode[] = [];
+
+  for (const name of names) {
+    const path = joinVirtualPath(virtualPath, name);
+    if (!permissions[path].includes('read')) continue;
+
+    // Only a hint for the expand arrow, so unreadable folders count as empty
+    const children = await listDirectoryNames(join(absolutePath, name)).catch(() => []);
+    nodes.push({ name, path, hasChildren: children.length > 0 });
+  }
+
+  return nodes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const FolderPins = {
+  // Pins the user can open; folders that no longer exist are left out
+  async list(user: SessionUser): Promise<PinnedFolder[]> {
+    const { pins } = await readJsonFile<FoldersFile>(getSystemFilePath(FOLDERS_FILE), { initializedAt: null, pins: [] });
+    const permissions = await getPermissionsForPaths(user, pins.map(pin => pin.path));
+    const visible: PinnedFolder[] = [];
+
+    for (const pin of pins) {
+      if (!permissions[pin.path].includes('read')) continue;
+      if (await isDirectory(pin.path)) visible.push(pin);
+    }
+    return visible;
+  },
+
+  // Replace the whole list, in display order
+  async replace(pins: unknown): Promise<PinnedFolder[]> {
+    if (!Array.isArray(pins)) {
+      throw new FolderTreeError('Pins must be an array', 400);
+    }
+    if (pins.length > MAX_PINS) {
+      throw new FolderTreeError(`At most ${MAX_PINS} folders can be pinned`, 400);
+    }
+
+    const normalized: PinnedFolder[] = [];
+    for (const [index, pin] of pins.entries()) {
+      const result = normalizePin(pin, index);
+      if (normalized.some(existing => existing.path === result.path)) {
+        throw new FolderTreeError(`${result.path} is pinned twice`, 400);
+      }
+      if (!(await isDirectory(result.path))) {
+        throw new FolderTreeError(`Pin ${index + 1}: ${result.path} is not a folder`, 400);
+      }
+      normalized.push(result);
+    }
+
+    await updateJsonFile<FoldersFile, void>(getSystemFilePath(FOLDERS_FILE), { initializedAt: null, pins: [] }, (data) => {
+      data.pins = normalized;
+    });
+    return normalized;
+  }
+};
+
+function normalizePin(pin: unknown, index: number): PinnedFolder {
+  if (!pin || typeof pin !== 'object') {
+    throw new FolderTreeError(`Pin ${index + 1} must be an object`, 400);
+  }
+  const { path, name, icon } = pin as { path?: unknown; name?: unknown; icon?: unknown };
+
+  if (typeof path !== 'string' || !path) {
+    throw new FolderTreeError(`Pin ${index + 1} needs a path`, 400);
+  }
+  const virtualPath = normalizeVirtualPath(path);
+
+  const label = typeof name === 'string' && name.trim() ? name.trim() : basename(virtualPath) || 'Home';
+  if (label.length > MAX_PIN_NAME_LENGTH) {
+    throw new FolderTreeError(`Pin ${index + 1}: the name is longer than ${MAX_PIN_NAME_LENGTH} characters`, 400);
+  }
+
+  const symbol = typeof icon === 'string' && icon.trim() ? icon.trim() : '📁';
+  if (symbol.length > MAX_ICON_LENGTH) {
+    throw new FolderTreeError(`Pin ${index + 1}: the icon must be a single emoji`, 400);
+  }
+
+  return { path: virtualPath, name: label, icon: symbol };
+}
+
+// Visible subdirectories; hidden entries include the server's internal directories
+async function listDirectoryNames(absolutePath: string): Promise<string[]> {
+  const entries = await readdir(absolutePath, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map(entry => entry.name);
+}
+
+async function isDirectory(virtualPath: string): Promise<boolean> {
+  try {
+    const { absolutePath } = await resolveStoragePath(virtualPath);
+    return (await stat(absolutePath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
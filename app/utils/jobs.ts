@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { SessionUser } from './auth';
+
+// Long-running work started from the UI, such as extracting an archive. Jobs
+// run inside the server process and are kept in memory: the client polls them
+// for progress, and a restart forgets them along with any work in flight.
+
+// Finished jobs stay listed this long so the client can pick up the outcome
+const FINISHED_JOB_TTL = 60 * 60 * 1000;
+// Jobs one user may have running at the same time
+const MAX_RUNNING_JOBS = 3;
+
+export type JobType = 'extract' | 'compress';
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  processedBytes: number;
+  // 0 while unknown
+  totalBytes: number;
+  processedEntries: number;
+  // null when the entries are only known once they have been read
+  totalEntries: number | null;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  owner: string;
+  status: JobStatus;
+  // Virtual paths the job reads, and the folder its result goes to
+  sources: string[];
+  destination: string;
+  // Virtual path of what the job created, once it is known
+  result: string | null;
+  progress: JobProgress;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export class JobError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+// Does the work and returns the virtual path of its result. It reports
+// progress through job.progress and must stop soon after the signal aborts.
+export type JobRunner = (job: Job, signal: AbortSignal) => Promise<string>;
+
+const jobs = new Map<string, { job: Job; controller: AbortController }>();
+
+export const JobRegistry = {
+  // Register a job and start it in the background
+  start(user: SessionUser, fields: Pick<Job, 'type' | 'sources' | 'destination' | 'result'>, run: JobRunner): Job {
+    pruneFinishedJobs();
+    const running = Array.from(jobs.values()).filter(({ job }) => job.owner === user.username && job.status === 'running');
+    if (running.length >= MAX_RUNNING_JOBS) {
+      throw new JobError(`At most ${MAX_RUNNING_JOBS} jobs can run at once; wait for one to finish`, 429);
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      owner: user.username,
+      status: 'running',
+      ...fields,
+      progress: { processedBytes: 0, totalBytes: 0, processedEntries: 0, totalEntries: null },
+      error: null,
+      createdAt: new Date().toISOString(),
+      finishedAt: null
+    };
+    const controller = new AbortController();
+    jobs.set(job.id, { job, controller });
+
+    run(job, controller.signal).then(
+      (result) => {
+        job.status = 'completed';
+        job.result = result;
+      },
+      (error) => {
+        if (controller.signal.aborted) {
+          job.status = 'cancelled';
+          return;
+        }
+        job.status = 'failed';
+        // Errors meant for the user carry a status; anything else stays in the log
+        const status = (error as { status?: unknown }).status;
+        if (error instanceof Error && typeof status === 'number' && status < 500) {
+          job.error = error.message;
+        } else {
+          console.error(`Job ${job.id} (${job.type}) failed:`, error);
+          job.error = 'The job failed unexpectedly';
+        }
+      }
+    ).finally(() => {
+      job.finishedAt = new Date().toISOString();
+      console.log(`Job ${job.id} (${job.type} of ${job.sources.join(', ')}) ${job.status}`);
+    });
+
+    return job;
+  },
+
+  // Jobs of the user, newest first
+  list(user: SessionUser): Job[] {
+    pruneFinishedJobs();
+    return Array.from(jobs.values())
+      .map(({ job }) => job)
+      .filter(job => job.owner === user.username)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  get(user: SessionUser, id: string): Job {
+    return findJob(user, id).job;
+  },
+
+  // Stop a running job; what it created so far is removed. A finished job is removed from the list.
+  cancel(user: SessionUser, id: string): Job {
+    const { job, controller } = findJob(user, id);
+    if (job.status === 'running') {
+      controller.abort();
+    } else {
+      jobs.delete(id);
+    }
+    return job;
+  }
+};
+
+// Admins may look at anyone's jobs; everyone else only at their own
+function findJob(user: SessionUser, id: string): { job: Job; controller: AbortController } {
+  const entry = jobs.get(id);
+  if (!entry || (entry.job.owner !== user.username && user.role !== 'admin')) {
+    throw new JobError('Job not found', 404);
+  }
+  return entry;
+}
+
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - FINISHED_JOB_TTL;
+  for (const [id, { job }] of jobs) {
+    if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { mkdir, readFile, writeFile, rename } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { dirname, join } from 'path';
+import { NAS_CONFIG } from '../config/nas';
+import { INTERNAL_DIRECTORIES } from './storage-path';
+
+// Location of a server-side data file (users, shares, ...) inside the hidden
+// system directory, which the path resolver never exposes to clients
+export function getSystemFilePath(fileName: string): string {
+  return join(NAS_CONFIG.STORAGE_PATH, INTERNAL_DIRECTORIES.system, fileName);
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+// Write to a temp file and rename over the original so readers never see a partial file
+export async function writeJsonFile<T>(filePath: string, data: T): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+  await rename(tempPath, filePath);
+}
+
+// Serialize read-modify-write cycles on the same file within this process
+const fileLocks = new Map<string, Promise<unknown>>();
+
+export async function updateJsonFile<T, R>(
+  filePath: string,
+  fallback: T,
+  update: (data: T) => R | Promise<R>
+): Promise<R> {
+  const previous = fileLocks.get(filePath) || Promise.resolve();
+  const next = previous.catch(() => {}).then(async () => {
+    const data = await readJsonFile(filePath, fallback);
+    const result = await update(data);
+    await writeJsonFile(filePath, data);
+    return result;
+  });
+
+  fileLocks.set(filePath, next);
+  try {
+    return await next;
+  } finally {
+    if (fileLocks.get(filePath) === next) {
+      fileLocks.delete(filePath);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Extension to Content-Type mapping for files served back to the browser
+const MIME_TYPES: { [extension: string]: string } = {
+  // Images
+  'jpg': 'image/jpeg',
+  'jpeg': 'image/jpeg',
+  'png': 'image/png',
+  'gif': 'image/gif',
+  'bmp': 'image/bmp',
+  'webp': 'image/webp',
+  'svg': 'image/svg+xml',
+  'ico': 'image/x-icon',
+  'avif': 'image/avif',
+  'heic': 'image/heic',
+  'tif': 'image/tiff',
+  'tiff': 'image/tiff',
+
+  // Video
+  'mp4': 'video/mp4',
+  'm4v': 'video/mp4',
+  'webm': 'video/webm',
+  'mov': 'video/quicktime',
+  'avi': 'video/x-msvideo',
+  'wmv': 'video/x-ms-wmv',
+  'flv': 'video/x-flv',
+  'mkv': 'video/x-matroska',
+  'ogv': 'video/ogg',
+
+  // Audio
+  'mp3': 'audio/mpeg',
+  'wav': 'audio/wav',
+  'flac': 'audio/flac',
+  'aac': 'audio/aac',
+  'm4a': 'audio/mp4',
+  'ogg': 'audio/ogg',
+  'oga': 'audio/ogg',
+  'opus': 'audio/opus',
+
+  // Documents
+  'pdf': 'application/pdf',
+  'doc': 'application/msword',
+  'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'xls': 'application/vnd.ms-excel',
+  'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'ppt': 'application/vnd.ms-powerpoint',
+  'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'odt': 'application/vnd.oasis.opendocument.text',
+  'rtf': 'application/rtf',
+
+  // Text
+  'txt': 'text/plain',
+  'log': 'text/plain',
+  'md': 'text/markdown',
+  'csv': 'text/csv',
+  'html': 'text/html',
+  'htm': 'text/html',
+  'css': 'text/css',
+  'xml': 'application/xml',
+  'json': 'application/json',
+  'js': 'text/javascript',
+
+  // Archives
+  'zip': 'application/zip',
+  'rar': 'application/vnd.rar',
+  '7z': 'application/x-7z-compressed',
+  'tar': 'application/x-tar',
+  'gz': 'application/gzip',
+  'tgz': 'application/gzip'
+};
+
+export function getMimeType(fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+  return (extension && MIME_TYPES[extension]) || 'application/octet-stream';
+}
+
+// Coarse type used by file listings and search, e.g. 'image/*' for every picture
+export function getFileType(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  
+  if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp'].includes(extension || '')) {
+    return 'image/*';
+  }
+  if (['mp4', 'avi', 'mov', 'wmv', 'flv', 'webm'].includes(extension || '')) {
+    return 'video/*';
+  }
+  if (['mp3', 'wav', 'flac', 'aac', 'ogg'].includes(extension || '')) {
+    return 'audio/*';
+  }
+  if (extension === 'pdf') {
+    return 'application/pdf';
+  }
+  if (['doc', 'docx'].includes(extension || '')) {
+    return 'application/msword';
+  }
+  if (['xls', 'xlsx'].includes(extension || '')) {
+    return 'application/vnd.ms-excel';
+  }
+  if (['zip', 'rar', '7z', 'tar', 'gz', 'tgz'].includes(extension || '')) {
+    return 'application/zip';
+  }
+  
+  return 'application/octet-stream';
+}
+
+// Archive formats the server can create and extract
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar', 'tar.gz'];
+
+// The format a file name says it has, e.g. 'tar.gz' for "backup.tgz"
+export function getArchiveFormat(fileName: string): ArchiveFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.zip')) return 'zip';
+  if (name.endsWith('.tar')) return 'tar';
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz';
+  return null;
+}
+
+// Categories a search can be limited to; folders are listed as 'directory'
+export type FileCategory = 'folder' | 'image' | 'video' | 'audio' | 'pdf' | 'document' | 'spreadsheet' | 'archive' | 'other';
+
+export const FILE_CATEGORIES: FileCategory[] = ['folder', 'image', 'video', 'audio', 'pdf', 'document', 'spreadsheet', 'archive', 'other'];
+
+const TYPE_CATEGORIES: { [type: string]: FileCategory } = {
+  'directory': 'folder',
+  'image/*': 'image',
+  'video/*': 'video',
+  'audio/*': 'audio',
+  'application/pdf': 'pdf',
+  'application/msword': 'document',
+  'application/vnd.ms-excel': 'spreadsheet',
+  'application/zip': 'archive'
+};
+
+export function getFileCategory(type: string): FileCategory {
+  return TYPE_CATEGORIES[type] || 'other';
+}
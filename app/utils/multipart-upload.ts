@@ -0,0 +1,222 @@
+import formidable, { File as FormidableFile } from 'formidable';
+import { unlink } from 'fs/promises';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { IncomingMessage } from 'http';
+import type { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { join } from 'path';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { sanitizeFileName, createFileId, placeFile, ConflictPolicy, FileConflictError } from './file-names';
+import { QuotaError, QuotaReservation, trackTemporaryFile } from './quota';
+import { ContentStore } from './content-store';
+import { SHA256_PATTERN } from './sha256';
+
+export interface ReceivedFile {
+  id: string;
+  fileName: string;
+  originalName: string;
+  size: number;
+  type: string;
+  // Conflict policy used to place the file, null when the name was free
+  appliedPolicy: ConflictPolicy | null;
+  sha256: string;
+  // The client sent a checksum for the file and it matched
+  verified: boolean;
+  // The same content was already stored, so the file shares it
+  deduplicated: boolean;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Stream every file part of a multipart request into targetDir. Each part is
+// written to a hidden temp file and renamed to its final name once complete,
+// so nothing is buffered in memory and a half-written file is never visible.
+// With a quota reservation, the request is aborted as soon as it would go over.
+// Name clashes are resolved with conflictPolicy (see placeFile).
+// A `sha256` field sent right before a file part is the client's checksum of
+// that file; the part is hashed while it is written and a mismatch fails the
+// whole request.
+export async function receiveMultipartUpload(
+  request: Request,
+  targetDir: string,
+  quota?: QuotaReservation,
+  conflictPolicy: ConflictPolicy = 'rename'
+): Promise<ReceivedFile[]> {
+  if (!request.body) {
+    throw new UploadError('No files provided', 400);
+  }
+
+  const maxFileSize = StorageUtils.parseSize(NAS_CONFIG.MAX_FILE_SIZE) || Infinity;
+  const nodeRequest = toNodeRequest(request);
+  const received: ReceivedFile[] = [];
+  const pendingRenames: Promise<void>[] = [];
+  // The checksum field waiting for the next file part, then checksums by temp file name
+  // Parts are counted by the reservation while they are written, not by usage scans
+  const untrackTemporaryFiles: (() => void)[] = [];
+  let pendingChecksum: string | null = null;
+  const expectedChecksums = new Map<string, string>();
+  // Destroying the request does not fail the parse once the whole body has
+  // arrived, so the first error is also kept here and checked afterwards
+  let abortError: Error | null = null;
+  const abort = (error: Error) => {
+    abortError = abortError || error;
+    nodeRequest.destroy(error);
+  };
+
+  const form = formidable({
+    uploadDir: targetDir,
+    maxFileSize,
+    // Per-file limits and the storage quota are enforced below
+    maxTotalFileSize: Number.MAX_SAFE_INTEGER,
+    maxFiles: Infinity,
+    allowEmptyFiles: true,
+    minFileSize: 0,
+    hashAlgorithm: 'sha256',
+    filename: () => `.${randomUUID()}.upload`
+  });
+
+  // formidable only checks maxFileSize once a part has ended, so watch the
+  // bytes on disk and abort the request as soon as a part grows too large
+  form.on('field', (name, value) => {
+    if (name !== 'sha256') return;
+    const checksum = value.trim().toLowerCase();
+    if (!SHA256_PATTERN.test(checksum)) {
+      abort(new UploadError('sha256 must be a hex-encoded SHA-256 digest', 400));
+      return;
+    }
+    pendingChecksum = checksum;
+  });
+
+  form.on('fileBegin', (_name, file) => {
+    let countedBytes = 0;
+    untrackTemporaryFiles.push(trackTemporaryFile(file.filepath));
+    if (pendingChecksum) {
+      expectedChecksums.set(file.newFilename, pendingChecksum);
+      pendingChecksum = null;
+    }
+    try {
+      quota?.add(0, 1);
+    } catch (error) {
+      abort(error as Error);
+      return;
+    }
+
+    // The written file emits 'progress' after each write, but the typings omit its events
+    (file as unknown as EventEmitter).on('progress', (bytesWritten: number) => {
+      if (bytesWritten > maxFileSize) {
+        abort(new UploadError(
+          `${file.originalFilename || 'File'} exceeds the maximum file size (${NAS_CONFIG.MAX_FILE_SIZE})`,
+          413
+        ));
+        return;
+      }
+      try {
+        quota?.add(bytesWritten - countedBytes, 0);
+        countedBytes = bytesWritten;
+      } catch (error) {
+        abort(error as Error);
+      }
+    });
+  });
+
+  form.on('file', (_name, file) => {
+    // A part can finish after the request has already failed; drop it
+    if (abortError) {
+      pendingRenames.push(unlink(file.filepath).catch(() => {}));
+      return;
+    }
+    const expected = expectedChecksums.get(file.newFilename);
+    if (expected && expected !== file.hash) {
+      pendingRenames.push(unlink(file.filepath).catch(() => {}));
+      abort(new UploadError(
+        `Checksum mismatch for ${file.originalFilename || 'file'}: expected ${expected}, received ${file.hash}`,
+        422
+      ));
+      return;
+    }
+    // A file that cannot be placed (e.g. a name clash with the fail policy) fails the whole request
+    pendingRenames.push(moveIntoPlace(file, targetDir, conflictPolicy, Boolean(expected)).then(result => {
+      received.push(result);
+    }, error => abort(error as Error)));
+  });
+
+  try {
+    await form.parse(nodeRequest);
+    await Promise.all(pendingRenames);
+    if (abortError) {
+      throw abortError;
+    }
+  } catch (error) {
+    abortError = abortError || (error as Error);
+    // Roll back the files this request added. Skipped names still hold the
+    // existing file, and an overwritten file cannot be brought back anyway.
+    await Promise.allSettled(pendingRenames);
+    const added = received.filter(file => file.appliedPolicy === null || file.appliedPolicy === 'rename');
+    await Promise.all(added.map(file => unlink(join(targetDir, file.fileName)).catch(() => {})));
+    throw toUploadError(abortError);
+  } finally {
+    untrackTemporaryFiles.forEach(untrack => untrack());
+  }
+
+  if (received.length === 0) {
+    throw new UploadError('No files provided', 400);
+  }
+
+  return received;
+}
+
+async function moveIntoPlace(
+  file: FormidableFile,
+  targetDir: string,
+  conflictPolicy: ConflictPolicy,
+  verified: boolean
+): Promise<ReceivedFile> {
+  const originalName = sanitizeFileName(file.originalFilename || '') || 'upload';
+  const sha256 = file.hash || '';
+  let deduplicated = false;
+  try {
+    deduplicated = await ContentStore.deduplicate(file.filepath, sha256, file.size);
+  } catch (error) {
+    await unlink(file.filepath).catch(() => {});
+    throw error;
+  }
+  const { fileName, appliedPolicy } = await placeFile(file.filepath, targetDir, originalName, conflictPolicy);
+
+  return {
+    id: createFileId(),
+    fileName,
+    originalName,
+    size: file.size,
+    type: file.mimetype || 'application/octet-stream',
+    appliedPolicy,
+    sha256,
+    verified,
+    deduplicated
+  };
+}
+
+// formidable expects a Node.js IncomingMessage; adapt the Web request body
+function toNodeRequest(request: Request): IncomingMessage {
+  const stream = Readable.fromWeb(request.body as unknown as NodeReadableStream);
+  return Object.assign(stream, {
+    headers: Object.fromEntries(request.headers.entries())
+  }) as unknown as IncomingMessage;
+}
+
+function toUploadError(error: unknown): UploadError | QuotaError {
+  if (error instanceof UploadError || error instanceof QuotaError) {
+    return error;
+  }
+  if (error instanceof FileConflictError) {
+    return new UploadError(error.message, error.status);
+  }
+  const httpCode = (error as { httpCode?: number }).httpCode;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new UploadError(message, httpCode && httpCode >= 400 ? httpCode : 500);
+}
@@ -0,0 +1,91 @@
+import { getMimeType } from './mime-types';
+
+// How the preview modal shows a file; null means it can only be downloaded
+export type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | 'text';
+
+// Text previews only load the start of the file
+export const TEXT_PREVIEW_LIMIT = 1024 * 1024;
+
+// Extension to highlight.js language, limited to the languages in highlight.js/lib/common
+const CODE_LANGUAGES: { [extension: string]: string } = {
+  'js': 'javascript',
+  'mjs': 'javascript',
+  'cjs': 'javascript',
+  'jsx': 'javascript',
+  'ts': 'typescript',
+  'tsx': 'typescript',
+  'py': 'python',
+  'rb': 'ruby',
+  'go': 'go',
+  'rs': 'rust',
+  'java': 'java',
+  'kt': 'kotlin',
+  'c': 'c',
+  'h': 'c',
+  'cc': 'cpp',
+  'cpp': 'cpp',
+  'hpp': 'cpp',
+  'cs': 'csharp',
+  'php': 'php',
+  'swift': 'swift',
+  'lua': 'lua',
+  'pl': 'perl',
+  'r': 'r',
+  'sh': 'bash',
+  'bash': 'bash',
+  'zsh': 'bash',
+  'sql': 'sql',
+  'json': 'json',
+  'yaml': 'yaml',
+  'yml': 'yaml',
+  'toml': 'ini',
+  'ini': 'ini',
+  'conf': 'ini',
+  'cfg': 'ini',
+  'xml': 'xml',
+  'html': 'xml',
+  'htm': 'xml',
+  'css': 'css',
+  'scss': 'scss',
+  'less': 'less',
+  'md': 'markdown',
+  'diff': 'diff',
+  'patch': 'diff',
+  'graphql': 'graphql'
+};
+
+// Names that are code without an extension
+const CODE_FILE_NAMES: { [fileName: string]: string } = {
+  'makefile': 'makefile',
+  'dockerfile': 'bash'
+};
+
+// Image formats most browsers cannot display
+const UNSUPPORTED_IMAGE_TYPES = ['image/heic', 'image/tiff'];
+
+export function getPreviewKind(fileName: string): PreviewKind | null {
+  const type = getMimeType(fileName);
+
+  if (type.startsWith('image/')) {
+    return UNSUPPORTED_IMAGE_TYPES.includes(type) ? null : 'image';
+  }
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json' || type === 'application/xml') return 'text';
+  if (getHighlightLanguage(fileName)) return 'text';
+  return null;
+}
+
+// highlight.js language for a text file, or null to show it as plain text
+export function getHighlightLanguage(fileName: string): string | null {
+  const name = fileName.toLowerCase();
+  if (CODE_FILE_NAMES[name]) return CODE_FILE_NAMES[name];
+  const extension = name.includes('.') ? name.split('.').pop() : undefined;
+  return (extension && CODE_LANGUAGES[extension]) || null;
+}
+
+// The download route, served inline with the file's own Content-Type
+export function getPreviewUrl(path: string): string {
+  return `/api/files/download?path=${encodeURIComponent(path)}&inline=1`;
+}
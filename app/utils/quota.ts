@@ -0,0 +1,382 @@
+import { lstat, readdir, realpath } from 'fs/promises';
+import { Stats } from 'fs';
+import { join } from 'path';
+import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import { SessionUser, UserStore } from './auth';
+import { getSystemFilePath, readJsonFile, updateJsonFile } from './json-store';
+import { INTERNAL_DIRECTORIES } from './storage-path';
+
+// Which users uploaded which file, keyed by device and inode so the record
+// survives renames, moves and a trip through the trash on the same volume.
+// A deduplicated file (see content-store.ts) can have several uploaders.
+const OWNERS_FILE = 'owners.json';
+// A usage scan is reused for this long; uploads keep it current in between
+const USAGE_CACHE_TTL = 10 * 1000;
+// Written into each chunked upload session under .uploads (see chunked-upload.ts)
+const UPLOAD_SESSION_MANIFEST = 'manifest.json';
+
+export type QuotaReason = 'storage_limit' | 'file_count_limit' | 'user_storage_limit' | 'user_file_count_limit';
+
+export interface QuotaErrorDetails {
+  reason: QuotaReason;
+  // Limit in bytes or files, depending on the reason
+  limit: number;
+  used: number;
+  requested: number;
+}
+
+export class QuotaError extends Error {
+  public status = 413;
+
+  constructor(message: string, public details: QuotaErrorDetails) {
+    super(message);
+    this.name = 'QuotaError';
+  }
+}
+
+export interface QuotaUsage {
+  usedBytes: number;
+  fileCount: number;
+  // null when there is no limit
+  maxBytes: number | null;
+  maxFiles: number | null;
+}
+
+export interface QuotaSummary {
+  storage: QuotaUsage;
+  user: QuotaUsage;
+}
+
+// Incoming data held against the quotas while an upload is running
+export interface QuotaReservation {
+  // Count more bytes and/or files; throws QuotaError if a limit would be crossed
+  add(bytes: number, files: number): void;
+  // The upload succeeded: record the new files as owned by the user
+  commit(absolutePaths: string[]): Promise<void>;
+  release(): void;
+}
+
+export interface UsageTotals {
+  bytes: number;
+  files: number;
+}
+
+// One item directly in the storage root. Hard links within it count their
+// bytes once, like `du`; the same content in two items counts in both.
+export interface TopLevelUsage extends UsageTotals {
+  isDirectory: boolean;
+}
+
+interface StorageUsage {
+  total: UsageTotals;
+  byUser: Map<string, UsageTotals>;
+  // Keyed by name, trash included; not updated by uploads until the next scan
+  byEntry: Map<string, TopLevelUsage>;
+}
+
+interface OwnersFile {
+  // Older records hold a single username
+  files: { [inode: string]: string[] | string };
+}
+
+interface PendingUpload extends UsageTotals {
+  username: string;
+}
+
+const pendingUploads = new Set<PendingUpload>();
+// Absolute paths of files the server is still writing, such as uploads before
+// they get their final name. Their writers' reservations count them instead.
+const temporaryFiles = new Set<string>();
+let usageCache: { usage: Promise<StorageUsage>; expiresAt: number } | null = null;
+
+// Current usage and limits, for the whole storage root and for one user
+export async function getQuotaSummary(user: SessionUser): Promise<QuotaSummary> {
+  const usage = await getStorageUsage();
+  const storageLimits = getStorageLimits();
+  const userLimits = await getUserLimits(user);
+  const userUsage = usage.byUser.get(user.username) || { bytes: 0, files: 0 };
+
+  return {
+    storage: { usedBytes: usage.total.bytes, fileCount: usage.total.files, ...storageLimits },
+    user: { usedBytes: userUsage.bytes, fileCount: userUsage.files, ...userLimits }
+  };
+}
+
+// Throw a QuotaError if storing `bytes` in `files` new files would exceed a limit
+export async function assertQuota(user: SessionUser, bytes: number, files: number): Promise<void> {
+  const reservation = await reserveQuota(user);
+  try {
+    reservation.add(bytes, files);
+  } finally {
+    reservation.release();
+  }
+}
+
+// Start accounting for an upload. Usage is measured once; concurrent uploads
+// see each other through their reservations.
+export async function reserveQuota(user: SessionUser): Promise<QuotaReservation> {
+  const usage = await getStorageUsage();
+  const storageLimits = getStorageLimits();
+  const userLimits = await getUserLimits(user);
+  const pending: PendingUpload = { username: user.username, bytes: 0, files: 0 };
+  pendingUploads.add(pending);
+
+  return {
+    add(bytes: number, files: number) {
+      const inFlight = Array.from(pendingUploads);
+      const mine = inFlight.filter(upload => upload.username === user.username);
+      const userUsage = usage.byUser.get(user.username) || { bytes: 0, files: 0 };
+
+      checkLimit('storage_limit', storageLimits.maxBytes, usage.total.bytes + sum(inFlight, 'bytes'), bytes);
+      checkLimit('file_count_limit', storageLimits.maxFiles, usage.total.files + sum(inFlight, 'files'), files);
+      checkLimit('user_storage_limit', userLimits.maxBytes, userUsage.bytes + sum(mine, 'bytes'), bytes);
+      checkLimit('user_file_count_limit', userLimits.maxFiles, userUsage.files + sum(mine, 'files'), files);
+
+      pending.bytes += bytes;
+      pending.files += files;
+    },
+
+    async commit(absolutePaths: string[]) {
+      // Fold the upload into the shared snapshot so it stays accurate until the next scan
+      const userUsage = usage.byUser.get(user.username) || { bytes: 0, files: 0 };
+      usage.total.bytes += pending.bytes;
+      usage.total.files += pending.files;
+      userUsage.bytes += pending.bytes;
+      userUsage.files += pending.files;
+      usage.byUser.set(user.username, userUsage);
+      pendingUploads.delete(pending);
+
+      await recordOwnership(user, absolutePaths);
+    },
+
+    release() {
+      pendingUploads.delete(pending);
+    }
+  };
+}
+
+// Size and number of the files at or below a path, as a copy of it would add
+export async function measureTree(absolutePath: string): Promise<UsageTotals> {
+  const totals: UsageTotals = { bytes: 0, files: 0 };
+  await walkFiles(absolutePath, (stats) => {
+    totals.bytes += stats.size;
+    totals.files++;
+  });
+  return totals;
+}
+
+// Size of each item in the storage root, from the same scan as the quotas
+export async function getTopLevelUsage(): Promise<Map<string, TopLevelUsage>> {
+  return (await getStorageUsage()).byEntry;
+}
+
+// Leave a file the server is writing out of usage scans. Call the returned
+// function once the file has been moved into place or removed.
+export function trackTemporaryFile(absolutePath: string): () => void {
+  temporaryFiles.add(absolutePath);
+  return () => {
+    temporaryFiles.delete(absolutePath);
+  };
+}
+
+// Rescan on the next quota check, e.g. after files were deleted
+export function invalidateQuotaUsage(): void {
+  usageCache = null;
+}
+
+// Paths may be folders, e.g. a copied one: every file in them is recorded
+async function recordOwnership(user: SessionUser, absolutePaths: string[]): Promise<void> {
+  const keys: string[] = [];
+  for (const absolutePath of absolutePaths) {
+    await walkFiles(absolutePath, (stats) => {
+      keys.push(getInodeKey(stats));
+    });
+  }
+  if (keys.length === 0) return;
+
+  await updateJsonFile<OwnersFile, void>(getSystemFilePath(OWNERS_FILE), { files: {} }, (data) => {
+    for (const key of keys) {
+      const owners = toOwnerList(data.files[key]);
+      data.files[key] = owners.includes(user.username) ? owners : [...owners, user.username];
+    }
+  });
+}
+
+function getStorageUsage(): Promise<StorageUsage> {
+  if (!usageCache || usageCache.expiresAt <= Date.now()) {
+    const usage = scanStorage();
+    usageCache = { usage, expiresAt: Date.now() + USAGE_CACHE_TTL };
+    // A failed scan must not be served from the cache
+    usage.catch(() => {
+      if (usageCache?.usage === usage) usageCache = null;
+    });
+  }
+  return usageCache.usage;
+}
+
+// Walk the whole storage root, trash included: deleted items still take up
+// space until they are purged. Hard-linked copies of deduplicated content
+// count as files, but their bytes only once, and each uploader is charged
+// once per content. Open chunked upload sessions count with their declared
+// size, so staging chunks cannot get around the quotas.
+async function scanStorage(): Promise<StorageUsage> {
+  const owners = await readJsonFile<OwnersFile>(getSystemFilePath(OWNERS_FILE), { files: {} });
+  const usage: StorageUsage = { total: { bytes: 0, files: 0 }, byUser: new Map(), byEntry: new Map() };
+  const seen = new Set<string>();
+  const skipped = new Set([INTERNAL_DIRECTORIES.system, INTERNAL_DIRECTORIES.uploads]);
+
+  // Canonical, like the paths of temporary files (see resolveStoragePath)
+  let root = NAS_CONFIG.STORAGE_PATH;
+  let names: string[];
+  try {
+    root = await realpath(root);
+    names = await readdir(root);
+  } catch (error) {
+    // The storage root has not been created yet
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    names = [];
+  }
+
+  for (const name of names) {
+    if (skipped.has(name)) continue;
+
+    const entryPath = join(root, name);
+    const entryStats = await lstat(entryPath).catch(() => null);
+    if (!entryStats) continue;
+    const entry: TopLevelUsage = { bytes: 0, files: 0, isDirectory: entryStats.isDirectory() };
+    const seenInEntry = new Set<string>();
+
+    await walkFiles(entryPath, (stats, path) => {
+      if (temporaryFiles.has(path)) return;
+
+      const key = getInodeKey(stats);
+      entry.files++;
+      usage.total.files++;
+      if (!seenInEntry.has(key)) {
+        seenInEntry.add(key);
+        entry.bytes += stats.size;
+      }
+      if (seen.has(key)) return;
+      seen.add(key);
+      usage.total.bytes += stats.size;
+
+      for (const owner of toOwnerList(owners.files[key])) {
+        const userUsage = usage.byUser.get(owner) || { bytes: 0, files: 0 };
+        userUsage.bytes += stats.size;
+        userUsage.files++;
+        usage.byUser.set(owner, userUsage);
+      }
+    });
+    usage.byEntry.set(name, entry);
+  }
+
+  await countUploadSessions(join(root, INTERNAL_DIRECTORIES.uploads), usage);
+
+  // Forget files that no longer exist, so a reused inode is not charged to the wrong user
+  const stale = Object.keys(owners.files).filter(key => !seen.has(key));
+  if (stale.length > 0) {
+    await updateJsonFile<OwnersFile, void>(getSystemFilePath(OWNERS_FILE), { files: {} }, (data) => {
+      for (const key of stale) {
+        if (JSON.stringify(data.files[key]) === JSON.stringify(owners.files[key])) delete data.files[key];
+      }
+    });
+  }
+
+  return usage;
+}
+
+async function countUploadSessions(sessionsDirectory: string, usage: StorageUsage): Promise<void> {
+  let names: string[];
+  try {
+    names = await readdir(sessionsDirectory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  for (const name of names) {
+    // Sessions can be finalized or aborted while we read them
+    const session = await readJsonFile<{ owner?: string; fileSize?: number } | null>(
+      join(sessionsDirectory, name, UPLOAD_SESSION_MANIFEST),
+      null
+    ).catch(() => null);
+    if (!session?.owner || typeof session.fileSize !== 'number') continue;
+
+    usage.total.bytes += session.fileSize;
+    usage.total.files++;
+    const userUsage = usage.byUser.get(session.owner) || { bytes: 0, files: 0 };
+    userUsage.bytes += session.fileSize;
+    userUsage.files++;
+    usage.byUser.set(session.owner, userUsage);
+  }
+}
+
+// Call visit for each regular file at or below absolutePath. Symlinks are not
+// followed, and files or folders that disappear meanwhile are skipped.
+async function walkFiles(absolutePath: string, visit: (stats: Stats, path: string) => void): Promise<void> {
+  const stats = await lstat(absolutePath).catch(() => null);
+  if (!stats) return;
+  if (stats.isFile()) {
+    visit(stats, absolutePath);
+    return;
+  }
+  if (!stats.isDirectory()) return;
+
+  let names: string[];
+  try {
+    names = await readdir(absolutePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  for (const name of names) {
+    await walkFiles(join(absolutePath, name), visit);
+  }
+}
+
+function getStorageLimits(): Pick<QuotaUsage, 'maxBytes' | 'maxFiles'> {
+  return {
+    maxBytes: StorageUtils.parseSize(NAS_CONFIG.MAX_TOTAL_UPLOADS) || null,
+    maxFiles: parseInt(NAS_CONFIG.MAX_FILES_COUNT) || null
+  };
+}
+
+// Admins are only bound by quotas set on their own account
+async function getUserLimits(user: SessionUser): Promise<Pick<QuotaUsage, 'maxBytes' | 'maxFiles'>> {
+  const quota = await UserStore.getQuota(user.username);
+  const useDefaults = user.role !== 'admin';
+  const maxSize = quota?.maxSize ?? (useDefaults ? NAS_CONFIG.USER_MAX_UPLOADS : '0');
+  const maxFiles = quota?.maxFiles ?? (useDefaults ? parseInt(NAS_CONFIG.USER_MAX_FILES_COUNT) : 0);
+
+  return {
+    maxBytes: StorageUtils.parseSize(maxSize) || null,
+    maxFiles: maxFiles > 0 ? maxFiles : null
+  };
+}
+
+function checkLimit(reason: QuotaReason, limit: number | null, used: number, requested: number): void {
+  if (limit === null || requested === 0 || used + requested <= limit) return;
+
+  const isBytes = reason === 'storage_limit' || reason === 'user_storage_limit';
+  const scope = reason.startsWith('user_') ? 'Your' : 'The';
+  const what = isBytes ? 'storage quota' : 'file count limit';
+  const format = (value: number) => isBytes ? StorageUtils.formatSize(value) : `${value} file(s)`;
+
+  throw new QuotaError(
+    `${scope} ${what} (${format(limit)}) would be exceeded: ${format(used)} used, ${format(requested)} more requested`,
+    { reason, limit, used, requested }
+  );
+}
+
+function sum(uploads: PendingUpload[], field: keyof UsageTotals): number {
+  return uploads.reduce((total, upload) => total + upload[field], 0);
+}
+
+function toOwnerList(owners: string[] | string | undefined): string[] {
+  if (!owners) return [];
+  return Array.isArray(owners) ? owners : [owners];
+}
+
+function getInodeKey(stats: { dev: number; ino: number }): string {
+  return `${stats.dev}:${stats.ino}`;
+}
@@ -0,0 +1,253 @@
+import { mkdir, rename, rm, cp, lstat, stat, readdir, realpath } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { dirname, join, relative, sep } from 'path';
+import { NAS_CONFIG } from '../config/nas';
+import { SessionUser } from './auth';
+import { assertPermission, assertTreePermission } from './acl';
+import { getSystemFilePath, readJsonFile, updateJsonFile } from './json-store';
+import { INTERNAL_DIRECTORIES, resolveStoragePath } from './storage-path';
+import { invalidateQuotaUsage } from './quota';
+import { ContentStore } from './content-store';
+
+const TRASH_INDEX_FILE = 'trash.json';
+// Expired entries are purged at most this often, piggybacking on trash activity
+const RETENTION_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export interface TrashEntry {
+  id: string;
+  name: string;
+  originalPath: string;
+  deletedAt: string;
+  deletedBy: string;
+  isDirectory: boolean;
+  size: number;
+  // Virtual path of the volume whose .trash directory holds the item
+  volume: string;
+}
+
+interface TrashIndex {
+  entries: TrashEntry[];
+}
+
+export class RecycleBinError extends Error {
+  constructor(message: string, public status: number, public conflictPath?: string) {
+    super(message);
+    this.name = 'RecycleBinError';
+  }
+}
+
+let lastRetentionRun = 0;
+
+export const RecycleBin = {
+  // Move a file or folder into the trash of the volume it lives on, so
+  // deleting is a rename and never copies data between disks
+  async moveToTrash(user: SessionUser, virtualPath: string): Promise<TrashEntry> {
+    const resolved = await resolveStoragePath(virtualPath);
+    if (resolved.virtualPath === '/') {
+      throw new RecycleBinError('The storage root cannot be deleted', 400);
+    }
+
+    let stats;
+    try {
+      stats = await lstat(resolved.absolutePath);
+    } catch {
+      throw new RecycleBinError('File not found or not accessible', 404);
+    }
+
+    // A folder goes with everything in it, so each subfolder must allow deleting too
+    if (stats.isDirectory()) {
+      await assertTreePermission(user, resolved, 'delete');
+    } else {
+      await assertPermission(user, resolved.virtualPath, 'delete');
+    }
+
+    const root = await realpath(NAS_CONFIG.STORAGE_PATH);
+    const volumePath = await findVolumeRoot(root, resolved.absolutePath, stats.dev);
+    if (volumePath === resolved.absolutePath) {
+      throw new RecycleBinError('A mounted volume cannot be deleted', 400);
+    }
+
+    const entry: TrashEntry = {
+      id: randomUUID(),
+      name: resolved.virtualPath.split('/').pop() || resolved.virtualPath,
+      originalPath: resolved.virtualPath,
+      deletedAt: new Date().toISOString(),
+      deletedBy: user.username,
+      isDirectory: stats.isDirectory(),
+      size: await getTreeSize(resolved.absolutePath),
+      volume: toVirtualPath(root, volumePath)
+    };
+
+    const trashDirectory = join(volumePath, INTERNAL_DIRECTORIES.trash);
+    await mkdir(trashDirectory, { recursive: true, mode: 0o700 });
+    await rename(resolved.absolutePath, join(trashDirectory, entry.id));
+
+    try {
+      await updateJsonFile<TrashIndex, void>(getSystemFilePath(TRASH_INDEX_FILE), { entries: [] }, (data) => {
+        data.entries.push(entry);
+      });
+    } catch (error) {
+      // Without an index entry the item could never be restored; put it back
+      await rename(join(trashDirectory, entry.id), resolved.absolutePath).catch(() => {});
+      throw error;
+    }
+
+    purgeExpiredIfDue();
+    return entry;
+  },
+
+  // Items the user deleted; admins see the whole trash. Newest first.
+  async list(user: SessionUser): Promise<TrashEntry[]> {
+    await purgeExpiredIfDue();
+    const { entries } = await readIndex();
+    return entries
+      .filter(entry => canManage(user, entry))
+      .sort((a, b) => Date.parse(b.deletedAt) - Date.parse(a.deletedAt));
+  },
+
+  // Put an item back where it was, recreating missing parent folders
+  async restore(user: SessionUser, id: string): Promise<TrashEntry> {
+    const entry = await findEntry(user, id);
+    const target = await resolveStoragePath(entry.originalPath);
+    await assertPermission(user, target.virtualPath, 'write');
+
+    const existing = await lstat(target.absolutePath).catch(() => null);
+    if (existing) {
+      throw new RecycleBinError(
+        `An item already exists at ${entry.originalPath}; move or rename it first`,
+        409,
+        entry.originalPath
+      );
+    }
+
+    const payload = await getPayloadPath(entry);
+    await mkdir(dirname(target.absolutePath), { recursive: true });
+    try {
+      await rename(payload, target.absolutePath);
+    } catch (error) {
+      // The original folder may now be on another volume
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await cp(payload, target.absolutePath, { recursive: true, errorOnExist: true, force: false, preserveTimestamps: true });
+      await rm(payload, { recursive: true, force: true });
+    }
+
+    await removeEntries(candidate => candidate.id === entry.id);
+    return entry;
+  },
+
+  // Delete an item from the trash for good
+  async purge(user: SessionUser, id: string): Promise<void> {
+    const entry = await findEntry(user, id);
+    await rm(await getPayloadPath(entry), { recursive: true, force: true });
+    await removeEntries(candidate => candidate.id === entry.id);
+  },
+
+  // Empty everything the user is allowed to manage
+  async purgeAll(user: SessionUser): Promise<number> {
+    const entries = (await readIndex()).entries.filter(entry => canManage(user, entry));
+    for (const entry of entries) {
+      await rm(await getPayloadPath(entry), { recursive: true, force: true });
+    }
+    const ids = new Set(entries.map(entry => entry.id));
+    await removeEntries(candidate => ids.has(candidate.id));
+    return entries.length;
+  },
+
+  // Drop entries older than TRASH_RETENTION_DAYS; 0 disables auto-purge
+  async purgeExpired(): Promise<number> {
+    const retentionDays = parseFloat(NAS_CONFIG.TRASH_RETENTION_DAYS);
+    if (!retentionDays || retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const expired = (await readIndex()).entries.filter(entry => Date.parse(entry.deletedAt) < cutoff);
+    for (const entry of expired) {
+      await rm(await getPayloadPath(entry), { recursive: true, force: true });
+    }
+    const ids = new Set(expired.map(entry => entry.id));
+    await removeEntries(candidate => ids.has(candidate.id));
+
+    if (expired.length > 0) {
+      console.log(`Purged ${expired.length} expired item(s) from the trash`);
+    }
+    return expired.length;
+  }
+};
+
+async function purgeExpiredIfDue(): Promise<void> {
+  if (Date.now() - lastRetentionRun < RETENTION_CHECK_INTERVAL) return;
+  lastRetentionRun = Date.now();
+  try {
+    await RecycleBin.purgeExpired();
+  } catch (error) {
+    console.error('Error purging expired trash entries:', error);
+  }
+}
+
+function canManage(user: SessionUser, entry: TrashEntry): boolean {
+  return user.role === 'admin' || entry.deletedBy === user.username;
+}
+
+async function findEntry(user: SessionUser, id: string): Promise<TrashEntry> {
+  const { entries } = await readIndex();
+  const entry = entries.find(candidate => candidate.id === id);
+  if (!entry || !canManage(user, entry)) {
+    throw new RecycleBinError('Item not found in the trash', 404);
+  }
+  return entry;
+}
+
+async function getPayloadPath(entry: TrashEntry): Promise<string> {
+  const root = await realpath(NAS_CONFIG.STORAGE_PATH);
+  return join(root, entry.volume, INTERNAL_DIRECTORIES.trash, entry.id);
+}
+
+// Called once the payloads are gone, so the freed space counts again
+async function removeEntries(predicate: (entry: TrashEntry) => boolean): Promise<void> {
+  invalidateQuotaUsage();
+  await updateJsonFile<TrashIndex, void>(getSystemFilePath(TRASH_INDEX_FILE), { entries: [] }, (data) => {
+    data.entries = data.entries.filter(entry => !predicate(entry));
+  });
+  // A purged item may have been the last copy of deduplicated content
+  await ContentStore.collectGarbage().catch(error => console.error('Error collecting stored content:', error));
+}
+
+async function readIndex(): Promise<TrashIndex> {
+  return readJsonFile<TrashIndex>(getSystemFilePath(TRASH_INDEX_FILE), { entries: [] });
+}
+
+// The topmost directory inside the storage root that is on the same device
+// as the item, i.e. the storage root itself or the mount point of a volume
+async function findVolumeRoot(root: string, absolutePath: string, device: number): Promise<string> {
+  if ((await stat(root)).dev === device) {
+    return root;
+  }
+
+  let volume = absolutePath;
+  let parent = dirname(volume);
+  while (parent !== root && parent.startsWith(`${root}${sep}`) && (await stat(parent)).dev === device) {
+    volume = parent;
+    parent = dirname(parent);
+  }
+  return volume;
+}
+
+function toVirtualPath(root: string, absolutePath: string): string {
+  const relation = relative(root, absolutePath);
+  return relation === '' ? '/' : `/${relation.split(sep).join('/')}`;
+}
+
+// Total size of a file or folder; symlinks are not followed
+async function getTreeSize(path: string): Promise<number> {
+  const stats = await lstat(path);
+  if (!stats.isDirectory()) {
+    return stats.isFile() ? stats.size : 0;
+  }
+
+  let total = 0;
+  for (const name of await readdir(path)) {
+    total += await getTreeSize(join(path, name));
+  }
+  return total;
+}
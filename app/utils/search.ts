@@ -0,0 +1,106 @@
+import type { FileCategory } from './mime-types';
+import type { SearchResult } from './file-search';
+import type { ContentSearchHit, ContentIndexStatus } from './content-index';
+
+// What the search box and filter row ask for; empty fields are left out of the query
+export interface SearchFilters {
+  // Match names (with the filters below) or the text inside documents
+  mode: 'name' | 'content';
+  query: string;
+  types: FileCategory[];
+  // Sizes as typed, e.g. "10MB"
+  minSize: string;
+  maxSize: string;
+  // yyyy-mm-dd from a date input
+  modifiedAfter: string;
+  modifiedBefore: string;
+  // Folder to search below
+  path: string;
+}
+
+export interface SearchPage {
+  count: number;
+  // Pass back to get the next page; null when there are no more matches
+  nextCursor: string | null;
+}
+
+export interface ContentSearchPage {
+  hits: ContentSearchHit[];
+  total: number;
+  index: ContentIndexStatus;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  mode: 'name',
+  query: '',
+  types: [],
+  minSize: '',
+  maxSize: '',
+  modifiedAfter: '',
+  modifiedBefore: '',
+  path: '/'
+};
+
+export function hasSearchCriteria(filters: SearchFilters): boolean {
+  if (filters.mode === 'content') return Boolean(filters.query.trim());
+  return Boolean(filters.query.trim() || filters.types.length > 0 || filters.minSize.trim() ||
+    filters.maxSize.trim() || filters.modifiedAfter || filters.modifiedBefore);
+}
+
+// Run one page of a search, handing each match to onResult as soon as the server finds it
+export async function searchFiles(
+  filters: SearchFilters,
+  onResult: (result: SearchResult) => void,
+  options: { cursor?: string | null; signal?: AbortSignal } = {}
+): Promise<SearchPage> {
+  const params = new URLSearchParams({ path: filters.path });
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.types.length > 0) params.set('type', filters.types.join(','));
+  if (filters.minSize.trim()) params.set('minSize', filters.minSize.trim());
+  if (filters.maxSize.trim()) params.set('maxSize', filters.maxSize.trim());
+  // Whole days in local time: from the start of the first to the end of the last
+  if (filters.modifiedAfter) params.set('modifiedAfter', new Date(`${filters.modifiedAfter}T00:00:00`).toISOString());
+  if (filters.modifiedBefore) params.set('modifiedBefore', new Date(`${filters.modifiedBefore}T23:59:59.999`).toISOString());
+  if (options.cursor) params.set('cursor', options.cursor);
+
+  const response = await fetch(`/api/search?${params}`, { signal: options.signal });
+  if (!response.ok || !response.body) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || `Search failed with HTTP ${response.status}`);
+  }
+
+  // Newline-delimited JSON; the last line says how the page ended
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let newline;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+
+      const message = JSON.parse(line);
+      if (message.done) {
+        if (message.error) throw new Error(message.error);
+        return { count: message.count, nextCursor: message.nextCursor };
+      }
+      onResult(message);
+    }
+  }
+  throw new Error('The search ended unexpectedly');
+}
+
+// Best matches for the words of the query inside indexed documents
+export async function searchFileContents(filters: SearchFilters, signal?: AbortSignal): Promise<ContentSearchPage> {
+  const params = new URLSearchParams({ q: filters.query.trim(), path: filters.path });
+  const response = await fetch(`/api/search/content?${params}`, { signal });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Search failed with HTTP ${response.status}`);
+  }
+  return { hits: result.hits, total: result.total, index: result.index };
+}
@@ -0,0 +1,245 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { stat } from 'fs/promises';
+import { sep } from 'path';
+import { getSystemFilePath, readJsonFile, updateJsonFile } from './json-store';
+import { hashPassword, verifyPassword, signValue, SessionUser, UserStore } from './auth';
+import { hasPermission, getPermissionsForPaths } from './acl';
+import { resolveStoragePath, normalizeVirtualPath, ResolvedStoragePath } from './storage-path';
+
+const SHARES_FILE = 'shares.json';
+
+export interface StoredShare {
+  token: string;
+  path: string;
+  type: 'file' | 'directory';
+  owner: string;
+  createdAt: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  passwordHash: string | null;
+}
+
+// What owners and visitors get to see; never includes the password hash
+export interface ShareInfo {
+  token: string;
+  url: string;
+  path: string;
+  name: string;
+  type: 'file' | 'directory';
+  owner: string;
+  createdAt: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  active: boolean;
+}
+
+interface SharesFile {
+  shares: StoredShare[];
+}
+
+export class ShareError extends Error {
+  constructor(message: string, public status: number, public code?: 'password_required') {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+export const ShareStore = {
+  async create(options: {
+    path: string;
+    owner: SessionUser;
+    password?: string;
+    expiresAt?: string | null;
+    maxDownloads?: number | null;
+  }): Promise<ShareInfo> {
+    const { virtualPath, absolutePath } = await resolveStoragePath(options.path);
+    if (virtualPath === '/') {
+      throw new ShareError('The storage root cannot be shared', 400);
+    }
+    if (!(await hasPermission(options.owner, virtualPath, 'read'))) {
+      throw new ShareError(`You do not have read access to ${virtualPath}`, 403);
+    }
+
+    let stats;
+    try {
+      stats = await stat(absolutePath);
+    } catch {
+      throw new ShareError('File or folder not found', 404);
+    }
+
+    let expiresAt: string | null = null;
+    if (options.expiresAt) {
+      const expiry = Date.parse(options.expiresAt);
+      if (isNaN(expiry) || expiry <= Date.now()) {
+        throw new ShareError('Expiry must be a time in the future', 400);
+      }
+      expiresAt = new Date(expiry).toISOString();
+    }
+
+    const maxDownloads = options.maxDownloads ?? null;
+    if (maxDownloads !== null && (!Number.isInteger(maxDownloads) || maxDownloads < 1)) {
+      throw new ShareError('Download limit must be a positive whole number', 400);
+    }
+
+    const share: StoredShare = {
+      token: randomBytes(18).toString('base64url'),
+      path: virtualPath,
+      type: stats.isDirectory() ? 'directory' : 'file',
+      owner: options.owner.username,
+      createdAt: new Date().toISOString(),
+      expiresAt,
+      maxDownloads,
+      downloadCount: 0,
+      passwordHash: options.password ? await hashPassword(options.password) : null
+    };
+
+    await updateJsonFile<SharesFile, void>(getSystemFilePath(SHARES_FILE), { shares: [] }, (data) => {
+      data.shares.push(share);
+    });
+    return toShareInfo(share);
+  },
+
+  // Links created by a user; admins see everyone's
+  async list(user: SessionUser): Promise<ShareInfo[]> {
+    const { shares } = await readShares();
+    return shares
+      .filter(share => user.role === 'admin' || share.owner === user.username)
+      .map(toShareInfo);
+  },
+
+  async revoke(token: string, user: SessionUser): Promise<void> {
+    await updateJsonFile<SharesFile, void>(getSystemFilePath(SHARES_FILE), { shares: [] }, (data) => {
+      const share = data.shares.find(candidate => candidate.token === token);
+      if (!share || (share.owner !== user.username && user.role !== 'admin')) {
+        throw new ShareError('Share link not found', 404);
+      }
+      data.shares = data.shares.filter(candidate => candidate !== share);
+    });
+  },
+
+  // Look up a link for a visitor. Links whose owner was removed or lost read
+  // access to the shared path stop working as well.
+  async getActive(token: string): Promise<StoredShare> {
+    const { shares } = await readShares();
+    const share = shares.find(candidate => candidate.token === token);
+    if (!share) {
+      throw new ShareError('Share link not found', 404);
+    }
+
+    assertActive(share);
+
+    const owner = await UserStore.get(share.owner);
+    if (!owner || !(await hasPermission(owner, share.path, 'read'))) {
+      throw new ShareError('Share link not found', 404);
+    }
+    return share;
+  },
+
+  // Count a download, failing once the limit has been used up. Done under the
+  // file lock so concurrent downloads cannot exceed the limit.
+  async recordDownload(token: string): Promise<void> {
+    await updateJsonFile<SharesFile, void>(getSystemFilePath(SHARES_FILE), { shares: [] }, (data) => {
+      const share = data.shares.find(candidate => candidate.token === token);
+      if (!share) {
+        throw new ShareError('Share link not found', 404);
+      }
+      assertActive(share);
+      share.downloadCount++;
+    });
+  },
+
+  async verifyPassword(share: StoredShare, password: string): Promise<boolean> {
+    return share.passwordHash ? verifyPassword(password, share.passwordHash) : true;
+  }
+};
+
+export function getShareCookieName(token: string): string {
+  return `nas_share_${token}`;
+}
+
+// Proof that the visitor entered the password. Bound to the current hash, so
+// changing or removing the link invalidates it.
+export async function createShareAccessToken(share: StoredShare): Promise<string> {
+  return signValue(`share:${share.token}:${share.passwordHash}`);
+}
+
+export async function assertShareAccess(share: StoredShare, cookieValue: string | undefined): Promise<void> {
+  if (!share.passwordHash) return;
+
+  const expected = Buffer.from(await createShareAccessToken(share));
+  const actual = Buffer.from(cookieValue || '');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new ShareError('This link is password protected', 401, 'password_required');
+  }
+}
+
+// Resolve a path inside a shared folder (or the shared file itself for '/').
+// The result must stay inside the shared item even when symlinks are involved,
+// and the owner must still be able to read it: a share never reaches further
+// than its owner's access.
+export async function resolveSharedPath(share: StoredShare, subPath: string | null): Promise<ResolvedStoragePath> {
+  const relativePath = normalizeVirtualPath(subPath || '/');
+  if (share.type === 'file' && relativePath !== '/') {
+    throw new ShareError('File not found', 404);
+  }
+
+  const base = await resolveStoragePath(share.path);
+  const target = relativePath === '/' ? base : await resolveStoragePath(`${share.path}${relativePath}`);
+  if (target.absolutePath !== base.absolutePath && !target.absolutePath.startsWith(`${base.absolutePath}${sep}`)) {
+    throw new ShareError('File not found', 404);
+  }
+
+  const owner = await UserStore.get(share.owner);
+  if (!owner || !(await hasPermission(owner, target.virtualPath, 'read'))) {
+    throw new ShareError('File not found', 404);
+  }
+  return target;
+}
+
+// The paths, inside a shared folder, that the owner can read
+export async function filterReadableByOwner(share: StoredShare, virtualPaths: string[]): Promise<string[]> {
+  const owner = await UserStore.get(share.owner);
+  if (!owner) return [];
+
+  const permissions = await getPermissionsForPaths(owner, virtualPaths);
+  return virtualPaths.filter(path => permissions[path].includes('read'));
+}
+
+export function toShareInfo(share: StoredShare): ShareInfo {
+  return {
+    token: share.token,
+    url: `/s/${share.token}`,
+    path: share.path,
+    name: share.path.split('/').pop() || share.path,
+    type: share.type,
+    owner: share.owner,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    maxDownloads: share.maxDownloads,
+    downloadCount: share.downloadCount,
+    hasPassword: Boolean(share.passwordHash),
+    active: isActive(share)
+  };
+}
+
+function isActive(share: StoredShare): boolean {
+  if (share.expiresAt && Date.parse(share.expiresAt) <= Date.now()) return false;
+  if (share.maxDownloads !== null && share.downloadCount >= share.maxDownloads) return false;
+  return true;
+}
+
+function assertActive(share: StoredShare): void {
+  if (share.expiresAt && Date.parse(share.expiresAt) <= Date.now()) {
+    throw new ShareError('This link has expired', 410);
+  }
+  if (share.maxDownloads !== null && share.downloadCount >= share.maxDownloads) {
+    throw new ShareError('This link has reached its download limit', 410);
+  }
+}
+
+async function readShares(): Promise<SharesFile> {
+  return readJsonFile<SharesFile>(getSystemFilePath(SHARES_FILE), { shares: [] });
+}
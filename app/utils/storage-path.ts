@@ -0,0 +1,124 @@
+import { realpath, lstat } from 'fs/promises';
+import { join, relative, isAbsolute, sep } from 'path';
+import { NAS_CONFIG } from '../config/nas';
+
+// Hidden directories at the storage root that belong to the server itself.
+// They can never be addressed through a virtual path.
+export const INTERNAL_DIRECTORIES = {
+  uploads: '.uploads',
+  system: '.nas',
+  // Lives at the root of every volume (see recycle-bin.ts), not just the storage root
+  trash: '.trash'
+};
+
+export interface ResolvedStoragePath {
+  // Normalized path as the UI sees it, always starting with '/'
+  virtualPath: string;
+  // Canonical location on disk, guaranteed to be inside STORAGE_PATH
+  absolutePath: string;
+}
+
+export class StoragePathError extends Error {
+  constructor(message: string, public status: 400 | 403) {
+    super(message);
+    this.name = 'StoragePathError';
+  }
+}
+
+// Turn user input into a normalized virtual path, rejecting anything that
+// could be used to step outside the storage root.
+export function normalizeVirtualPath(input: string): string {
+  if (input.includes('\0')) {
+    throw new StoragePathError('Path contains a NUL byte', 400);
+  }
+  if (/^[a-zA-Z]:/.test(input)) {
+    throw new StoragePathError('Absolute system paths are not allowed', 400);
+  }
+
+  // Query parameters arrive decoded once; a second layer of encoding is only
+  // ever used to smuggle separators or dot segments past naive checks
+  const decoded = safeDecode(input);
+  if (decoded !== input) {
+    const count = (value: string, char: string) => value.split(char).length - 1;
+    const revealsSeparator = count(decoded, '/') > count(input, '/') || count(decoded, '\\') > count(input, '\\');
+    const revealsTraversal = decoded.split(/[\\/]/).includes('..');
+    if (decoded.includes('\0') || revealsSeparator || revealsTraversal) {
+      throw new StoragePathError('Encoded path segments are not allowed', 400);
+    }
+  }
+
+  const segments = input.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw new StoragePathError('Parent directory segments are not allowed', 400);
+  }
+  if (segments.length > 0 && Object.values(INTERNAL_DIRECTORIES).includes(segments[0])) {
+    throw new StoragePathError('Access to this path is not allowed', 403);
+  }
+  if (segments.includes(INTERNAL_DIRECTORIES.trash)) {
+    throw new StoragePathError('Access to this path is not allowed', 403);
+  }
+
+  return '/' + segments.join('/');
+}
+
+// Resolve a virtual path to a canonical absolute path inside STORAGE_PATH.
+// Symlinks are followed with realpath; anything that ends up outside the root
+// is rejected. The target itself does not need to exist yet.
+export async function resolveStoragePath(input: string | null | undefined): Promise<ResolvedStoragePath> {
+  const virtualPath = normalizeVirtualPath(input || '/');
+  const root = await realpath(NAS_CONFIG.STORAGE_PATH);
+  const segments = virtualPath.split('/').filter(Boolean);
+
+  // Canonicalize the deepest part of the path that exists, then append the rest
+  for (let depth = segments.length; depth >= 0; depth--) {
+    const candidate = join(root, ...segments.slice(0, depth));
+    try {
+      const canonical = await realpath(candidate);
+      if (!isInsideRoot(root, canonical)) {
+        throw new StoragePathError('Path resolves outside the storage root', 403);
+      }
+      return {
+        virtualPath,
+        absolutePath: join(canonical, ...segments.slice(depth))
+      };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        throw error;
+      }
+      // A dangling symlink would be followed by the next write; refuse it
+      if (await isSymlink(candidate)) {
+        throw new StoragePathError('Path resolves outside the storage root', 403);
+      }
+    }
+  }
+
+  // Unreachable: the storage root itself always resolves
+  throw new StoragePathError('Invalid path', 400);
+}
+
+// Join a virtual directory and an entry name without doubling the separator
+export function joinVirtualPath(directory: string, name: string): string {
+  return directory === '/' ? `/${name}` : `${directory}/${name}`;
+}
+
+function isInsideRoot(root: string, candidate: string): boolean {
+  const relation = relative(root, candidate);
+  return relation === '' || (relation !== '..' && !relation.startsWith(`..${sep}`) && !isAbsolute(relation));
+}
+
+async function isSymlink(candidate: string): Promise<boolean> {
+  try {
+    return (await lstat(candidate)).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
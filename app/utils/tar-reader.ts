@@ -0,0 +1,205 @@
+// Just enough of the tar format to unpack an archive as a stream: ustar and
+// old-style headers, pax extended headers for long names and large sizes, and
+// GNU long names. Links and special files are reported but carry no data.
+
+export interface TarEntry {
+  // Path inside the archive as stored, always with forward slashes
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'link' | 'other';
+  size: number;
+  modifiedAt: Date;
+}
+
+export class TarError extends Error {
+  constructor(message: string, public status: number = 415) {
+    super(message);
+    this.name = 'TarError';
+  }
+}
+
+const BLOCK_SIZE = 512;
+// pax and GNU long-name records larger than this are not names but an attack
+const MAX_METADATA_SIZE = 1024 * 1024;
+
+// Every entry of the archive in order, each with its data. An entry's data has
+// to be read (or left alone) before the next entry is requested; whatever is
+// left unread is skipped.
+export async function* readTarEntries(
+  input: AsyncIterable<Buffer>
+): AsyncGenerator<{ entry: TarEntry; data: AsyncGenerator<Buffer> }> {
+  const reader = createReader(input);
+  // Set by a pax or GNU record for the header that follows it
+  let override: { name?: string; size?: number; modifiedAt?: Date } = {};
+
+  while (true) {
+    const header = await reader.read(BLOCK_SIZE);
+    // A missing or all-zero block ends the archive
+    if (!header || header.every(byte => byte === 0)) return;
+    if (!hasValidChecksum(header)) {
+      throw new TarError('Not a tar archive, or a damaged one');
+    }
+
+    const typeFlag = String.fromCharCode(header[156]);
+    const isMetadata = ['x', 'L', 'g', 'K'].includes(typeFlag);
+    const size = (isMetadata ? undefined : override.size) ?? parseNumber(header, 124, 12);
+    const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+    if (typeFlag === 'x' || typeFlag === 'L') {
+      if (size > MAX_METADATA_SIZE) {
+        throw new TarError('The archive has an oversized extended header');
+      }
+      const record = await reader.read(size + padding);
+      if (!record) {
+        throw new TarError('The archive ends in the middle of an entry');
+      }
+      override = typeFlag === 'x'
+        ? { ...override, ...parsePaxRecords(record.subarray(0, size)) }
+        : { ...override, name: readString(record, 0, size) };
+      continue;
+    }
+    if (typeFlag === 'g' || typeFlag === 'K') {
+      // Global pax defaults and GNU long link targets change nothing we extract
+      await reader.skip(size + padding);
+      continue;
+    }
+
+    let name = override.name ?? readString(header, 0, 100);
+    const isUstar = readString(header, 257, 5) === 'ustar';
+    if (override.name === undefined && isUstar && header[345] !== 0) {
+      name = `${readString(header, 345, 155)}/${name}`;
+    }
+
+    const type = getEntryType(typeFlag, name);
+    const entry: TarEntry = {
+      name,
+      type,
+      // Only files have data worth reading; anything else is skipped
+      size: type === 'file' ? size : 0,
+      modifiedAt: override.modifiedAt ?? new Date(parseNumber(header, 136, 12) * 1000)
+    };
+    override = {};
+
+    let remaining = size;
+    async function* data(): AsyncGenerator<Buffer> {
+      while (remaining > 0) {
+        const chunk = await reader.next(remaining);
+        remaining -= chunk.length;
+        yield chunk;
+      }
+    }
+
+    yield { entry, data: data() };
+    await reader.skip(remaining + padding);
+  }
+}
+
+// Reads exact byte counts out of a stream of arbitrarily sized chunks
+function createReader(input: AsyncIterable<Buffer>) {
+  const iterator = input[Symbol.asyncIterator]();
+  let buffered: Buffer = Buffer.alloc(0);
+
+  const pull = async (): Promise<boolean> => {
+    const { value, done } = await iterator.next();
+    if (done) return false;
+    buffered = buffered.length > 0 ? Buffer.concat([buffered, value]) : value;
+    return true;
+  };
+
+  return {
+    // Exactly `length` bytes, or null if the input ends first
+    async read(length: number): Promise<Buffer | null> {
+      while (buffered.length < length) {
+        if (!(await pull())) return null;
+      }
+      const result = buffered.subarray(0, length);
+      buffered = buffered.subarray(length);
+      return result;
+    },
+
+    // Up to `limit` bytes, as soon as any are available
+    async next(limit: number): Promise<Buffer> {
+      if (buffered.length === 0 && !(await pull())) {
+        throw new TarError('The archive ends in the middle of an entry');
+      }
+      const result = buffered.subarray(0, Math.min(limit, buffered.length));
+      buffered = buffered.subarray(result.length);
+      return result;
+    },
+
+    async skip(length: number): Promise<void> {
+      while (length > 0) {
+        length -= (await this.next(length)).length;
+      }
+    }
+  };
+}
+
+function getEntryType(typeFlag: string, name: string): TarEntry['type'] {
+  switch (typeFlag) {
+    case '0':
+    case '\0':
+    case '7':
+      // Pre-POSIX archives mark folders only with a trailing slash
+      return name.endsWith('/') ? 'directory' : 'file';
+    case '5':
+      return 'directory';
+    case '2':
+      return 'symlink';
+    case '1':
+      return 'link';
+    default:
+      return 'other';
+  }
+}
+
+// The checksum is the sum of all header bytes, counting its own field as spaces
+function hasValidChecksum(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === parseNumber(header, 148, 8);
+}
+
+// Octal text, or big-endian base-256 when the high bit of the first byte is set (GNU)
+function parseNumber(buffer: Buffer, offset: number, length: number): number {
+  if (buffer[offset] & 0x80) {
+    let value = buffer[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + buffer[offset + i];
+    }
+    return value;
+  }
+  const text = readString(buffer, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+// "<length> <key>=<value>\n" records; only the keys that matter for extraction are kept
+function parsePaxRecords(data: Buffer): { name?: string; size?: number; modifiedAt?: Date } {
+  const result: { name?: string; size?: number; modifiedAt?: Date } = {};
+  let position = 0;
+
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    const length = parseInt(data.subarray(position, space).toString('ascii'), 10);
+    if (space === -1 || !Number.isInteger(length) || length <= 0 || position + length > data.length) {
+      throw new TarError('The archive has a malformed extended header');
+    }
+
+    const record = data.subarray(space + 1, position + length - 1).toString('utf8');
+    const separator = record.indexOf('=');
+    const key = record.slice(0, separator);
+    const value = record.slice(separator + 1);
+    if (key === 'path') result.name = value;
+    if (key === 'size') result.size = parseInt(value, 10);
+    if (key === 'mtime') result.modifiedAt = new Date(parseFloat(value) * 1000);
+    position += length;
+  }
+  return result;
+}
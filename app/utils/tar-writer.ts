@@ -0,0 +1,118 @@
+import { createReadStream } from 'fs';
+
+// Writes a ustar archive as a stream. Names over 100 bytes and files of 8 GB
+// or more get a pax extended header, which every current tar understands.
+
+export interface TarSource {
+  // Path inside the archive with forward slashes; folders without the trailing slash
+  name: string;
+  isDirectory: boolean;
+  modifiedAt: Date;
+  // Required for files
+  absolutePath?: string;
+  // Files are written with exactly this many bytes, so it is required too
+  size?: number;
+}
+
+const BLOCK_SIZE = 512;
+// The largest size the 11 octal digits of the header can hold
+const MAX_OCTAL_SIZE = 0o77777777777;
+const FILE_MODE = 0o644;
+const DIRECTORY_MODE = 0o755;
+
+// The archive for the given entries, chunk by chunk. Stopping the iteration
+// closes the file being read.
+export async function* createTarStream(sources: AsyncIterable<TarSource>): AsyncGenerator<Buffer> {
+  for await (const source of sources) {
+    const name = source.isDirectory ? `${source.name}/` : source.name;
+    const size = source.isDirectory ? 0 : source.size ?? 0;
+
+    const pax: { [key: string]: string } = {};
+    if (Buffer.byteLength(name) > 100) pax.path = name;
+    if (size > MAX_OCTAL_SIZE) pax.size = String(size);
+    if (Object.keys(pax).length > 0) {
+      const records = Buffer.from(Object.entries(pax).map(([key, value]) => formatPaxRecord(key, value)).join(''), 'utf8');
+      yield header({ name: 'PaxHeader', size: records.length, mode: FILE_MODE, modifiedAt: source.modifiedAt, typeFlag: 'x' });
+      yield records;
+      yield padding(records.length);
+    }
+
+    yield header({
+      name,
+      size: source.isDirectory ? 0 : size,
+      mode: source.isDirectory ? DIRECTORY_MODE : FILE_MODE,
+      modifiedAt: source.modifiedAt,
+      typeFlag: source.isDirectory ? '5' : '0'
+    });
+    if (source.isDirectory || size === 0) continue;
+
+    if (!source.absolutePath) {
+      throw new Error(`No file to read for ${source.name}`);
+    }
+    // The header has promised `size` bytes; a file that shrank cannot keep that promise
+    let written = 0;
+    for await (const chunk of createReadStream(source.absolutePath, { start: 0, end: size - 1 })) {
+      written += chunk.length;
+      yield chunk;
+    }
+    if (written !== size) {
+      throw new Error(`${source.name} changed while it was being archived`);
+    }
+    yield padding(size);
+  }
+
+  // Two empty blocks end the archive
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+function header(fields: { name: string; size: number; mode: number; modifiedAt: Date; typeFlag: string }): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  // Long names are cut at a character boundary; the pax header has the full one
+  block.write(fields.name, 0, 100, 'utf8');
+  writeOctal(block, fields.mode, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  // Sizes past the octal field are in the pax header; GNU base-256 keeps old readers close
+  if (fields.size > MAX_OCTAL_SIZE) {
+    writeBase256(block, fields.size, 124, 12);
+  } else {
+    writeOctal(block, fields.size, 124, 12);
+  }
+  writeOctal(block, Math.max(0, Math.floor(fields.modifiedAt.getTime() / 1000)), 136, 12);
+  block.write(fields.typeFlag, 156, 1, 'ascii');
+  block.write('ustar\u000000', 257, 8, 'ascii');
+
+  // The checksum is the sum of all header bytes, counting its own field as spaces
+  block.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of block) sum += byte;
+  writeOctal(block, sum, 148, 7);
+  return block;
+}
+
+// Zero-padded octal digits followed by a NUL
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(value.toString(8).padStart(length - 1, '0'), offset, length - 1, 'ascii');
+  block[offset + length - 1] = 0;
+}
+
+function writeBase256(block: Buffer, value: number, offset: number, length: number): void {
+  for (let i = length - 1; i > 0; i--) {
+    block[offset + i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  block[offset] = 0x80;
+}
+
+// "<length> <key>=<value>\n", where the length counts its own digits too
+function formatPaxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length !== String(length - bodyLength).length) length++;
+  return `${length}${body}`;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
@@ -0,0 +1,109 @@
+import { open } from 'fs/promises';
+import { execFile } from 'child_process';
+import { NAS_CONFIG } from '../config/nas';
+import { getMimeType } from './mime-types';
+import { getPreviewKind } from './preview';
+import { readZipDirectory, readZipEntry } from './zip-reader';
+
+// Only this much text of a file is indexed; the rest of a huge log adds little
+export const MAX_EXTRACTED_TEXT = 2 * 1024 * 1024;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DOCX_BODY = 'word/document.xml';
+// Larger document bodies are almost always embedded data rather than prose
+const MAX_DOCX_XML = 64 * 1024 * 1024;
+const PDF_EXTRACT_TIMEOUT = 60000;
+
+export type TextSource = 'text' | 'pdf' | 'docx';
+
+// How the text of a file can be read, or null if it has none worth indexing
+export function getTextSource(fileName: string): TextSource | null {
+  const type = getMimeType(fileName);
+  if (type === 'application/pdf') {
+    return NAS_CONFIG.PDF_TEXT_EXTRACTOR ? 'pdf' : null;
+  }
+  if (type === DOCX_TYPE) return 'docx';
+  // Plain text, Markdown and code: whatever the preview shows as text
+  return getPreviewKind(fileName) === 'text' ? 'text' : null;
+}
+
+// The text of a file, cut to MAX_EXTRACTED_TEXT. Throws if the file cannot be read as its type.
+export async function extractText(absolutePath: string, source: TextSource): Promise<string> {
+  switch (source) {
+    case 'text':
+      return readTextFile(absolutePath);
+    case 'pdf':
+      return extractPdfText(absolutePath);
+    case 'docx':
+      return extractDocxText(absolutePath);
+  }
+}
+
+async function readTextFile(absolutePath: string): Promise<string> {
+  const file = await open(absolutePath, 'r');
+  try {
+    const buffer = Buffer.alloc(MAX_EXTRACTED_TEXT);
+    const { bytesRead } = await file.read(buffer, 0, MAX_EXTRACTED_TEXT, 0);
+    const bytes = buffer.subarray(0, bytesRead);
+    // A NUL byte near the start means a binary file with a text-like name
+    if (bytes.subarray(0, 8192).includes(0)) {
+      throw new Error('File looks binary');
+    }
+    return bytes.toString('utf8');
+  } finally {
+    await file.close();
+  }
+}
+
+// poppler's pdftotext writes the text of every page to stdout
+function extractPdfText(absolutePath: string): Promise<string> {
+  const args = ['-q', '-enc', 'UTF-8', absolutePath, '-'];
+
+  return new Promise((resolve, reject) => {
+    execFile(NAS_CONFIG.PDF_TEXT_EXTRACTOR, args, {
+      encoding: 'utf8',
+      timeout: PDF_EXTRACT_TIMEOUT,
+      maxBuffer: MAX_EXTRACTED_TEXT * 4
+    }, (error, stdout) => {
+      if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        reject(new Error(`Indexing PDFs needs ${NAS_CONFIG.PDF_TEXT_EXTRACTOR} (poppler-utils) on the server`));
+      } else if (error && !stdout) {
+        reject(error);
+      } else {
+        // Output past maxBuffer is cut off with an error; the start is still good
+        resolve(stdout.slice(0, MAX_EXTRACTED_TEXT));
+      }
+    });
+  });
+}
+
+// A .docx is a ZIP; the body text lives in the <w:t> runs of word/document.xml
+async function extractDocxText(absolutePath: string): Promise<string> {
+  const entries = await readZipDirectory(absolutePath);
+  const body = entries.find(entry => entry.name === DOCX_BODY);
+  if (!body) {
+    throw new Error('Not a Word document');
+  }
+
+  const xml = (await readZipEntry(absolutePath, body, MAX_DOCX_XML)).toString('utf8');
+  const text = xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(br|cr)\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text).slice(0, MAX_EXTRACTED_TEXT);
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+    }
+    const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
@@ -0,0 +1,202 @@
+import { mkdir, readdir, readFile, rename, rm, stat, unlink, writeFile } from 'fs/promises';
+import { Stats } from 'fs';
+import { execFile } from 'child_process';
+import { createHash, randomUUID } from 'crypto';
+import { basename, join } from 'path';
+import sharp from 'sharp';
+import { NAS_CONFIG } from '../config/nas';
+import { getSystemFilePath } from './json-store';
+import { getMimeType } from './mime-types';
+import { resolveStoragePath } from './storage-path';
+
+// Thumbnails live in .nas/thumbnails/<hash of the virtual path>/, one file per
+// size named after the source's mtime, e.g. 1729350000000-small.webp. A newer
+// mtime never matches an old name, and older renders are dropped as soon as
+// the new one is written. Each folder also records the path it belongs to, so
+// thumbnails of deleted files can be collected.
+const THUMBNAIL_DIRECTORY = 'thumbnails';
+const SOURCE_FILE = 'source';
+
+// Longest edge in pixels
+export const THUMBNAIL_SIZES = {
+  small: 128,
+  medium: 256,
+  large: 512
+};
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+// Images sharp can decode; HEIC depends on how libvips was built and fails with 415 otherwise
+const IMAGE_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif',
+  'image/tiff', 'image/svg+xml', 'image/heic', 'image/bmp'
+];
+// Resizing is CPU heavy; a grid full of new pictures renders a couple at a time
+const MAX_CONCURRENT_RENDERS = 2;
+const PDF_RENDER_TIMEOUT = 30000;
+
+export interface Thumbnail {
+  filePath: string;
+  stats: Stats;
+}
+
+export class ThumbnailError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ThumbnailError';
+  }
+}
+
+// Renders in progress, so a thumbnail requested twice is only generated once
+const pendingRenders = new Map<string, Promise<void>>();
+const renderQueue: (() => void)[] = [];
+let activeRenders = 0;
+
+export function parseThumbnailSize(value: string | null): ThumbnailSize | null {
+  const size = value || 'medium';
+  return size in THUMBNAIL_SIZES ? size as ThumbnailSize : null;
+}
+
+export function canThumbnail(fileName: string): boolean {
+  const type = getMimeType(fileName);
+  return IMAGE_TYPES.includes(type) || (type === 'application/pdf' && Boolean(NAS_CONFIG.PDF_RENDERER));
+}
+
+// The cached thumbnail of a file, rendering it first if the file changed
+export async function getThumbnail(virtualPath: string, size: ThumbnailSize): Promise<Thumbnail> {
+  const { absolutePath } = await resolveStoragePath(virtualPath);
+  const stats = await stat(absolutePath).catch(() => null);
+  if (!stats?.isFile()) {
+    throw new ThumbnailError('File not found or not accessible', 404);
+  }
+  if (!canThumbnail(basename(absolutePath))) {
+    throw new ThumbnailError('No thumbnail is available for this file type', 415);
+  }
+
+  const version = Math.floor(stats.mtimeMs);
+  const cacheDir = getCacheDir(virtualPath);
+  const filePath = join(cacheDir, `${version}-${size}.webp`);
+
+  const cached = await stat(filePath).catch(() => null);
+  if (cached) {
+    return { filePath, stats: cached };
+  }
+
+  let render = pendingRenders.get(filePath);
+  if (!render) {
+    render = withRenderSlot(() => renderThumbnail(absolutePath, virtualPath, cacheDir, filePath, version, size))
+      .finally(() => pendingRenders.delete(filePath));
+    pendingRenders.set(filePath, render);
+  }
+  await render;
+  return { filePath, stats: await stat(filePath) };
+}
+
+// Drop the thumbnails of files that no longer exist; returns how many files had some
+export async function collectThumbnailGarbage(): Promise<number> {
+  const root = getSystemFilePath(THUMBNAIL_DIRECTORY);
+  let entries: string[];
+  try {
+    entries = await readdir(root);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  let removed = 0;
+  for (const entry of entries) {
+    const cacheDir = join(root, entry);
+    const source = await readFile(join(cacheDir, SOURCE_FILE), 'utf8').catch(() => null);
+    const exists = source !== null && await resolveStoragePath(source)
+      .then(({ absolutePath }) => stat(absolutePath))
+      .then(stats => stats.isFile(), () => false);
+
+    if (!exists) {
+      await rm(cacheDir, { recursive: true, force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+function getCacheDir(virtualPath: string): string {
+  const key = createHash('sha256').update(virtualPath).digest('hex');
+  return join(getSystemFilePath(THUMBNAIL_DIRECTORY), key);
+}
+
+async function renderThumbnail(
+  absolutePath: string,
+  virtualPath: string,
+  cacheDir: string,
+  filePath: string,
+  version: number,
+  size: ThumbnailSize
+): Promise<void> {
+  const edge = THUMBNAIL_SIZES[size];
+  const input = getMimeType(basename(absolutePath)) === 'application/pdf'
+    ? await renderPdfPage(absolutePath, edge)
+    : absolutePath;
+
+  await mkdir(cacheDir, { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await sharp(input, { failOn: 'none', animated: false })
+      // Apply the EXIF orientation so portrait photos are not shown sideways
+      .rotate()
+      .resize(edge, edge, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toFile(tempPath);
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    console.error(`Failed to render thumbnail of ${virtualPath}:`, error);
+    throw new ThumbnailError('This file could not be read as an image', 415);
+  }
+
+  await writeFile(join(cacheDir, SOURCE_FILE), virtualPath);
+  // Renders of an older version of the file are stale now
+  const names = await readdir(cacheDir);
+  await Promise.all(names
+    .filter(name => name.endsWith('.webp') && !name.startsWith(`${version}-`))
+    .map(name => unlink(join(cacheDir, name)).catch(() => {})));
+}
+
+// First page of a PDF as PNG, rendered by poppler's pdftoppm
+function renderPdfPage(absolutePath: string, edge: number): Promise<Buffer> {
+  const args = ['-f', '1', '-l', '1', '-singlefile', '-png', '-scale-to', String(edge), absolutePath];
+
+  return new Promise((resolve, reject) => {
+    execFile(NAS_CONFIG.PDF_RENDERER, args, {
+      encoding: 'buffer',
+      timeout: PDF_RENDER_TIMEOUT,
+      maxBuffer: 64 * 1024 * 1024
+    }, (error, stdout) => {
+      if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        reject(new ThumbnailError(`PDF thumbnails need ${NAS_CONFIG.PDF_RENDERER} (poppler-utils) on the server`, 415));
+      } else if (error) {
+        reject(new ThumbnailError('This PDF could not be rendered', 415));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+async function withRenderSlot<T>(render: () => Promise<T>): Promise<T> {
+  if (activeRenders >= MAX_CONCURRENT_RENDERS) {
+    // The slot is handed over by the render that finishes
+    await new Promise<void>(resolve => renderQueue.push(resolve));
+  } else {
+    activeRenders++;
+  }
+  try {
+    return await render();
+  } finally {
+    const next = renderQueue.shift();
+    if (next) {
+      next();
+    } else {
+      activeRenders--;
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import { NAS_CONFIG, StorageUtils } from '../config/nas';
+import type { ConflictPolicy } from './file-names';
+import { computeSha256 } from './sha256';
 
 export interface UploadProgress {
   fileIndex: number;
@@ -6,8 +8,55 @@ export interface UploadProgress {
   progress: number;
   uploaded: number;
   total: number;
-  status: 'pending' | 'uploading' | 'completed' | 'error';
+  // While hashing, uploaded counts the bytes checksummed so far
+  status: 'pending' | 'hashing' | 'uploading' | 'completed' | 'error';
   error?: string;
+  // What happened to a name that already existed, e.g. "Saved as report (1).pdf"
+  note?: string;
+  // Folder of the file within a dropped or selected folder, e.g. "Photos/2024"
+  folder?: string;
+}
+
+export interface UploadedFile {
+  id: string;
+  name: string;
+  originalName: string;
+  size: number;
+  type: string;
+  path: string;
+  uploadedAt: string;
+  sizeFormatted: string;
+  conflictPolicy: ConflictPolicy;
+  // null when the name was free
+  appliedPolicy: ConflictPolicy | null;
+  // Checksum of the stored file, computed by the server as it was written
+  sha256: string;
+  // The server compared it with the checksum we sent
+  verified: boolean;
+  deduplicated: boolean;
+}
+
+interface ChunkedUploadState {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+}
+
+// Shape of the `quota` field in a 413 response (see app/utils/quota.ts)
+export interface QuotaExceededDetails {
+  reason: 'storage_limit' | 'file_count_limit' | 'user_storage_limit' | 'user_file_count_limit';
+  limit: number;
+  used: number;
+  requested: number;
+}
+
+// The server refused an upload because a storage quota would be exceeded
+export class QuotaExceededError extends Error {
+  constructor(message: string, public details: QuotaExceededDetails) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
 }
 
 export interface UploadResult {
@@ -18,19 +67,114 @@ export interface UploadResult {
 }
 
 export class FileUploader {
+  // Minimum 1MB chunks, configurable via environment variable
+  private static CHUNK_SIZE = Math.max(1024 * 1024, StorageUtils.parseSize(NAS_CONFIG.CHUNK_SIZE));
+  private static CHUNK_RETRIES = 3;
+  private static RESUME_KEY_PREFIX = 'nas-chunked-upload:';
+  // Paths of files found by walking a dropped folder; those File objects
+  // carry no webkitRelativePath of their own
+  private static relativePaths = new WeakMap<File, string>();
+
+  // Path of the file within the folder it was dropped or selected with,
+  // or just its name for loose files
+  static getRelativePath(file: File): string {
+    return this.relativePaths.get(file) || file.webkitRelativePath || file.name;
+  }
+
+  // The folder part of getRelativePath, '' for loose files
+  static getRelativeFolder(file: File): string {
+    const path = this.getRelativePath(file);
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash);
+  }
+
+  // Files of a folder chosen through a webkitdirectory input. Hidden files and
+  // folders are left out, as the server refuses folder names starting with a dot.
+  static getSelectedFolderFiles(files: File[]): File[] {
+    return files.filter(file => !this.getRelativePath(file).split('/').some(name => name.startsWith('.')));
+  }
+
+  // Files and folders from a drop, with folders walked recursively. The entries
+  // have to be taken from the DataTransfer before the drop handler returns, so
+  // call this synchronously from it and await the result afterwards.
+  static readDroppedItems(items: DataTransferItemList): Promise<File[]> {
+    const entries = Array.from(items)
+      .filter(item => item.kind === 'file')
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    return Promise.all(entries.map(entry => this.readEntry(entry, '')))
+      .then(lists => lists.flat());
+  }
+
+  private static async readEntry(entry: FileSystemEntry, parentPath: string): Promise<File[]> {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => {
+        (entry as FileSystemFileEntry).file(resolve, reject);
+      });
+      if (parentPath) {
+        this.relativePaths.set(file, path);
+      }
+      return [file];
+    }
+
+    // Loose hidden files are uploaded as before; inside folders they are skipped
+    const children = (await this.readDirectory(entry as FileSystemDirectoryEntry))
+      .filter(child => !child.name.startsWith('.'));
+    const lists = await Promise.all(children.map(child => this.readEntry(child, path)));
+    return lists.flat();
+  }
+
+  // readEntries hands out a directory in batches until it returns an empty one
+  private static async readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+        reader.readEntries(resolve, reject);
+      });
+      if (batch.length === 0) return entries;
+      entries.push(...batch);
+    }
+  }
+
   static async uploadFiles(
     files: File[],
     uploadPath: string,
-    onProgress: (progress: UploadProgress) => void
+    onProgress: (progress: UploadProgress) => void,
+    conflictPolicy: ConflictPolicy = 'rename'
   ): Promise<UploadResult> {
     const results: any[] = [];
     let hasError = false;
+    let quotaError: QuotaExceededError | null = null;
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
+      // Recreated below uploadPath by the server
+      const folder = this.getRelativeFolder(file);
+      const report = folder
+        ? (progress: UploadProgress) => onProgress({ ...progress, folder })
+        : onProgress;
+
+      // Once over quota the remaining files cannot fit either
+      if (quotaError) {
+        report({
+          fileIndex: i,
+          fileName: file.name,
+          progress: 0,
+          uploaded: 0,
+          total: file.size,
+          status: 'error',
+          error: 'Skipped: storage quota exceeded'
+        });
+        continue;
+      }
       
       // Initialize progress
-      onProgress({
+      report({
         fileIndex: i,
         fileName: file.name,
         progress: 0,
@@ -40,8 +184,21 @@ export class FileUploader {
       });
 
       try {
+        // Checksum the file first; the server recomputes it and refuses a mismatch
+        const sha256 = await computeSha256(file, (hashed) => {
+          report({
+            fileIndex: i,
+            fileName: file.name,
+            progress: file.size > 0 ? (hashed / file.size) * 100 : 100,
+            uploaded: hashed,
+            total: file.size,
+            status: 'hashing',
+            note: 'Computing checksum…'
+          });
+        });
+
         // Update status to uploading
-        onProgress({
+        report({
           fileIndex: i,
           fileName: file.name,
           progress: 0,
@@ -50,29 +207,41 @@ export class FileUploader {
           status: 'uploading'
         });
 
-        console.log(`Uploading file ${file.name} (${file.size} bytes) with Next.js FormData`);
+        // Large files go through the resumable chunked protocol, small ones in a single request
+        const useChunks = file.size > this.CHUNK_SIZE;
+        console.log(`Uploading file ${this.getRelativePath(file)} (${file.size} bytes)${useChunks ? ' in chunks' : ''}`);
         
-        // Upload file using Next.js built-in FormData (no more manual chunking needed!)
-        const uploadResult = await this.uploadFile(file, uploadPath, i, onProgress);
-        if (uploadResult) {
+        const uploadResult: UploadedFile = useChunks
+          ? await this.uploadFileInChunks(file, sha256, uploadPath, folder, conflictPolicy, i, report)
+          : await this.uploadFile(file, sha256, uploadPath, folder, conflictPolicy, i, report);
+        // The server verifies it too, but an older server may have ignored the checksum
+        if (uploadResult.sha256 !== sha256) {
+          throw new Error(`Checksum mismatch: sent ${sha256}, stored ${uploadResult.sha256 || 'unknown'}`);
+        }
+        // A skipped file left the existing one in place, so there is nothing new to list
+        if (uploadResult.appliedPolicy !== 'skip') {
           results.push(uploadResult);
         }
 
         // Mark as completed
-        onProgress({
+        report({
           fileIndex: i,
           fileName: file.name,
           progress: 100,
           uploaded: file.size,
           total: file.size,
-          status: 'completed'
+          status: 'completed',
+          note: this.describeConflict(uploadResult) || (uploadResult.verified ? 'Checksum verified' : undefined)
         });
 
       } catch (error) {
         hasError = true;
+        if (error instanceof QuotaExceededError) {
+          quotaError = error;
+        }
         const errorMessage = error instanceof Error ? error.message : 'Upload failed';
         
-        onProgress({
+        report({
           fileIndex: i,
           fileName: file.name,
           progress: 0,
@@ -86,6 +255,9 @@ export class FileUploader {
       }
     }
 
+    if (quotaError) {
+      throw quotaError;
+    }
     if (hasError) {
       throw new Error('Some files failed to upload');
     }
@@ -100,15 +272,23 @@ export class FileUploader {
 
   private static async uploadFile(
     file: File,
+    sha256: string,
     uploadPath: string,
+    folder: string,
+    conflictPolicy: ConflictPolicy,
     fileIndex: number,
     onProgress: (progress: UploadProgress) => void
-  ): Promise<any> {
+  ): Promise<UploadedFile> {
     const formData = new FormData();
+    // The server pairs a checksum with the file part that follows it
+    formData.append('sha256', sha256);
     formData.append('files', file);
     
     // Add upload path as query parameter since Formidable expects it there
-    const uploadUrl = `/api/upload?path=${encodeURIComponent(uploadPath)}`;
+    let uploadUrl = `/api/upload?path=${encodeURIComponent(uploadPath)}&conflict=${conflictPolicy}`;
+    if (folder) {
+      uploadUrl += `&folder=${encodeURIComponent(folder)}`;
+    }
 
     const xhr = new XMLHttpRequest();
 
@@ -132,11 +312,8 @@ export class FileUploader {
           try {
             const response = JSON.parse(xhr.responseText);
             if (response.success && response.files && response.files.length > 0) {
-              // Find the file that matches our upload
-              const uploadedFile = response.files.find((f: any) => 
-                f.originalName === file.name || f.name.includes(file.name.split('.')[0])
-              );
-              resolve(uploadedFile || response.files[0]);
+              // One file per request, so the only entry is ours; its sha256 is checked by the caller
+              resolve(response.files[0]);
             } else {
               reject(new Error(response.error || 'Upload failed'));
             }
@@ -144,7 +321,7 @@ export class FileUploader {
             reject(new Error('Invalid response from server'));
           }
         } else {
-          reject(new Error(`HTTP ${xhr.status}: ${xhr.statusText}`));
+          reject(this.toUploadError(xhr));
         }
       });
 
@@ -161,6 +338,236 @@ export class FileUploader {
     });
   }
 
+  private static async uploadFileInChunks(
+    file: File,
+    sha256: string,
+    uploadPath: string,
+    folder: string,
+    conflictPolicy: ConflictPolicy,
+    fileIndex: number,
+    onProgress: (progress: UploadProgress) => void
+  ): Promise<UploadedFile> {
+    const resumeKey = this.getResumeKey(file, uploadPath, conflictPolicy);
+    let state = await this.resumeChunkedUpload(resumeKey, file, sha256);
+
+    if (state) {
+      console.log(`Resuming upload ${state.uploadId}: ${state.receivedChunks.length}/${state.totalChunks} chunks already on server`);
+    } else {
+      state = await this.startChunkedUpload(file, sha256, uploadPath, folder, conflictPolicy);
+      this.setResumeId(resumeKey, state.uploadId);
+    }
+
+    const { uploadId, chunkSize, totalChunks } = state;
+    const received = new Set(state.receivedChunks);
+    let uploadedBytes = 0;
+    received.forEach(index => {
+      uploadedBytes += Math.min(chunkSize, file.size - index * chunkSize);
+    });
+
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue;
+
+      const start = index * chunkSize;
+      const chunk = file.slice(start, Math.min(start + chunkSize, file.size));
+      const baseBytes = uploadedBytes;
+
+      await this.uploadChunkWithRetry(uploadId, index, chunk, (loaded) => {
+        onProgress({
+          fileIndex,
+          fileName: file.name,
+          progress: file.size > 0 ? ((baseBytes + loaded) / file.size) * 100 : 100,
+          uploaded: baseBytes + loaded,
+          total: file.size,
+          status: 'uploading'
+        });
+      });
+
+      uploadedBytes += chunk.size;
+    }
+
+    const response = await fetch(`/api/upload/chunked/${uploadId}`, { method: 'POST' });
+    const result = await response.json();
+    if (result.quota) {
+      throw new QuotaExceededError(result.error, result.quota);
+    }
+    if (response.status === 422) {
+      // The server discarded the session on a checksum mismatch
+      this.clearResumeId(resumeKey);
+    }
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+
+    this.clearResumeId(resumeKey);
+    return result.files[0];
+  }
+
+  private static async startChunkedUpload(
+    file: File,
+    sha256: string,
+    uploadPath: string,
+    folder: string,
+    conflictPolicy: ConflictPolicy
+  ): Promise<ChunkedUploadState> {
+    const response = await fetch('/api/upload/chunked', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        fileType: file.type,
+        path: uploadPath,
+        folder: folder || undefined,
+        conflict: conflictPolicy,
+        sha256
+      })
+    });
+    const result = await response.json();
+    if (result.quota) {
+      throw new QuotaExceededError(result.error, result.quota);
+    }
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+
+    return {
+      uploadId: result.uploadId,
+      chunkSize: result.chunkSize,
+      totalChunks: result.totalChunks,
+      receivedChunks: []
+    };
+  }
+
+  // Pick up a previous session for the same file if the server still has it.
+  // A different checksum means the file changed since, so it starts over.
+  private static async resumeChunkedUpload(resumeKey: string, file: File, sha256: string): Promise<ChunkedUploadState | null> {
+    const uploadId = this.getResumeId(resumeKey);
+    if (!uploadId) return null;
+
+    try {
+      const response = await fetch(`/api/upload/chunked/${uploadId}`);
+      if (response.ok) {
+        const status = await response.json();
+        if (status.success && status.fileSize === file.size && (!status.expectedSha256 || status.expectedSha256 === sha256)) {
+          return {
+            uploadId: status.uploadId,
+            chunkSize: status.chunkSize,
+            totalChunks: status.totalChunks,
+            receivedChunks: status.receivedChunks
+          };
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not resume upload ${uploadId}:`, error);
+    }
+
+    this.clearResumeId(resumeKey);
+    return null;
+  }
+
+  private static async uploadChunkWithRetry(
+    uploadId: string,
+    chunkIndex: number,
+    chunk: Blob,
+    onChunkProgress: (loaded: number) => void
+  ): Promise<void> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.CHUNK_RETRIES; attempt++) {
+      try {
+        await this.uploadChunk(uploadId, chunkIndex, chunk, onChunkProgress);
+        return;
+      } catch (error) {
+        lastError = error;
+        console.warn(`Chunk ${chunkIndex} failed (attempt ${attempt}/${this.CHUNK_RETRIES}):`, error);
+        onChunkProgress(0);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private static uploadChunk(
+    uploadId: string,
+    chunkIndex: number,
+    chunk: Blob,
+    onChunkProgress: (loaded: number) => void
+  ): Promise<void> {
+    const xhr = new XMLHttpRequest();
+
+    return new Promise((resolve, reject) => {
+      xhr.upload.addEventListener('progress', (event) => {
+        if (event.lengthComputable) {
+          onChunkProgress(event.loaded);
+        }
+      });
+
+      xhr.addEventListener('load', () => {
+        if (xhr.status === 200) {
+          resolve();
+        } else {
+          reject(this.toUploadError(xhr));
+        }
+      });
+
+      xhr.addEventListener('error', () => {
+        reject(new Error('Network error during chunk upload'));
+      });
+
+      xhr.addEventListener('abort', () => {
+        reject(new Error('Chunk upload was aborted'));
+      });
+
+      xhr.open('PUT', `/api/upload/chunked/${uploadId}?chunk=${chunkIndex}`);
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+      xhr.send(chunk);
+    });
+  }
+
+  private static describeConflict(file: UploadedFile): string | undefined {
+    switch (file.appliedPolicy) {
+      case 'rename': return `Saved as ${file.name}`;
+      case 'overwrite': return 'Replaced the existing file';
+      case 'skip': return 'Skipped: a file with this name already exists';
+      default: return undefined;
+    }
+  }
+
+  private static toUploadError(xhr: XMLHttpRequest): Error {
+    let message = `HTTP ${xhr.status}: ${xhr.statusText}`;
+    try {
+      const result = JSON.parse(xhr.responseText);
+      if (result.quota) {
+        return new QuotaExceededError(result.error, result.quota);
+      }
+      message = result.error || message;
+    } catch {
+      // Keep the status line when the body is not JSON
+    }
+    return new Error(message);
+  }
+
+  // Upload ids are remembered per file so a page reload can continue where it left off.
+  // The session fixes the conflict policy, so a different choice starts a new one.
+  private static getResumeKey(file: File, uploadPath: string, conflictPolicy: ConflictPolicy): string {
+    return `${this.RESUME_KEY_PREFIX}${uploadPath}:${conflictPolicy}:${this.getRelativePath(file)}:${file.size}:${file.lastModified}`;
+  }
+
+  private static getResumeId(resumeKey: string): string | null {
+    if (typeof window === 'undefined') return null;
+    return window.localStorage.getItem(resumeKey);
+  }
+
+  private static setResumeId(resumeKey: string, uploadId: string): void {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(resumeKey, uploadId);
+  }
+
+  private static clearResumeId(resumeKey: string): void {
+    if (typeof window === 'undefined') return;
+    window.localStorage.removeItem(resumeKey);
+  }
+
   static async getUploadConfig(): Promise<any> {
     try {
       const response = await fetch('/api/upload');
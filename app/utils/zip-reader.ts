@@ -0,0 +1,248 @@
+import { open, FileHandle } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { createInflateRaw } from 'zlib';
+import { crc32 } from './crc32';
+
+// Just enough of the ZIP format to list an archive and stream its entries:
+// stored and deflated entries, ZIP64 sizes and offsets, no encryption.
+
+export interface ZipEntry {
+  // Path inside the archive as stored, always with forward slashes
+  name: string;
+  isDirectory: boolean;
+  // Stored by unix tools with the link target as its data
+  isSymlink: boolean;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  // Offset of the entry's local header
+  localHeaderOffset: number;
+  encrypted: boolean;
+  modifiedAt: Date;
+}
+
+export class ZipError extends Error {
+  constructor(message: string, public status: number = 415) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UNICODE_PATH_EXTRA_FIELD = 0x7075;
+// Upper byte of "version made by" for archives written on unix
+const UNIX_HOST = 3;
+const SYMLINK_MODE = 0o120000;
+// The end record is 22 bytes followed by a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+export const ZIP_STORED = 0;
+export const ZIP_DEFLATED = 8;
+
+// Every entry of the archive, in the order of its central directory
+export async function readZipDirectory(filePath: string): Promise<ZipEntry[]> {
+  const file = await open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    const tailLength = Math.min(size, MAX_END_RECORD_SEARCH);
+    const tail = await readAt(file, size - tailLength, tailLength);
+
+    let endOffset = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset === -1) {
+      throw new ZipError('Not a ZIP archive');
+    }
+
+    let entryCount = tail.readUInt16LE(endOffset + 10);
+    let directorySize = tail.readUInt32LE(endOffset + 12);
+    let directoryOffset = tail.readUInt32LE(endOffset + 16);
+
+    // Archives past 4 GB or 65535 entries keep the real values in a ZIP64 record
+    const locatorOffset = endOffset - 20;
+    if (locatorOffset >= 0 && tail.readUInt32LE(locatorOffset) === ZIP64_LOCATOR) {
+      const recordOffset = Number(tail.readBigUInt64LE(locatorOffset + 8));
+      const record = await readAt(file, recordOffset, 56);
+      if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+        throw new ZipError('The ZIP64 directory record is damaged');
+      }
+      entryCount = Number(record.readBigUInt64LE(32));
+      directorySize = Number(record.readBigUInt64LE(40));
+      directoryOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    if (directoryOffset + directorySize > size) {
+      throw new ZipError('The ZIP archive is truncated');
+    }
+
+    const directory = await readAt(file, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let index = 0; index < entryCount; index++) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new ZipError('The ZIP directory is damaged');
+      }
+      const flags = directory.readUInt16LE(offset + 8);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const nameBytes = directory.subarray(offset + 46, offset + 46 + nameLength);
+      const extra = directory.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength);
+
+      let uncompressedSize = directory.readUInt32LE(offset + 24);
+      let compressedSize = directory.readUInt32LE(offset + 20);
+      let localHeaderOffset = directory.readUInt32LE(offset + 42);
+      const zip64 = findExtraField(extra, ZIP64_EXTRA_FIELD);
+      if (zip64) {
+        // Only the fields that overflowed are present, in this order
+        let position = 0;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = Number(zip64.readBigUInt64LE(position));
+          position += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(zip64.readBigUInt64LE(position));
+          position += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(zip64.readBigUInt64LE(position));
+        }
+      }
+
+      const name = decodeName(nameBytes, flags, extra).replace(/\\/g, '/');
+      // Unix tools keep the file mode in the upper half of the external attributes
+      const mode = directory.readUInt8(offset + 5) === UNIX_HOST ? directory.readUInt32LE(offset + 38) >>> 16 : 0;
+      entries.push({
+        name,
+        isDirectory: name.endsWith('/'),
+        isSymlink: (mode & 0o170000) === SYMLINK_MODE,
+        compressionMethod: directory.readUInt16LE(offset + 10),
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        encrypted: Boolean(flags & 0x1),
+        modifiedAt: parseDosDateTime(directory.readUInt16LE(offset + 14), directory.readUInt16LE(offset + 12))
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await file.close();
+  }
+}
+
+// The uncompressed contents of one entry
+export async function openZipEntry(filePath: string, entry: ZipEntry): Promise<Readable> {
+  if (entry.encrypted) {
+    throw new ZipError(`${entry.name} is encrypted`);
+  }
+  if (entry.compressionMethod !== ZIP_STORED && entry.compressionMethod !== ZIP_DEFLATED) {
+    throw new ZipError(`${entry.name} uses an unsupported compression method`);
+  }
+
+  const file = await open(filePath, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(file, entry.localHeaderOffset, 30);
+  } finally {
+    await file.close();
+  }
+  if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new ZipError('The ZIP archive is damaged');
+  }
+
+  // The local header repeats the name and has its own extra field
+  const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+  const raw = createReadStream(filePath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 });
+  if (entry.compressionMethod === ZIP_STORED) {
+    return raw;
+  }
+
+  const inflate = createInflateRaw();
+  raw.on('error', error => inflate.destroy(error));
+  return raw.pipe(inflate);
+}
+
+// Read a small entry into memory, refusing anything that inflates past maxSize
+export async function readZipEntry(filePath: string, entry: ZipEntry, maxSize: number): Promise<Buffer> {
+  if (entry.uncompressedSize > maxSize) {
+    throw new ZipError(`${entry.name} is too large`, 413);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of await openZipEntry(filePath, entry)) {
+    total += chunk.length;
+    // The directory's size is only a claim; check what actually comes out
+    if (total > maxSize) {
+      throw new ZipError(`${entry.name} is too large`, 413);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readAt(file: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead < length) {
+    throw new ZipError('The ZIP archive is truncated');
+  }
+  return buffer;
+}
+
+// Bit 11 marks UTF-8 names. Without it, Info-ZIP adds a UTF-8 copy in an extra
+// field, and other tools write UTF-8 anyway; only what is not valid UTF-8 is
+// taken as code page 437, which is ASCII for common names.
+function decodeName(nameBytes: Buffer, flags: number, extra: Buffer): string {
+  if (flags & 0x800) {
+    return nameBytes.toString('utf8');
+  }
+  // Version 1, then the CRC-32 of the name it stands for, then the name
+  const unicodePath = findExtraField(extra, UNICODE_PATH_EXTRA_FIELD);
+  if (unicodePath && unicodePath.length > 5 && unicodePath[0] === 1 && unicodePath.readUInt32LE(1) === crc32(nameBytes)) {
+    return unicodePath.subarray(5).toString('utf8');
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(nameBytes);
+  } catch {
+    return nameBytes.toString('latin1');
+  }
+}
+
+function findExtraField(extra: Buffer, id: number): Buffer | null {
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const fieldId = extra.readUInt16LE(offset);
+    const length = extra.readUInt16LE(offset + 2);
+    if (fieldId === id) {
+      return extra.subarray(offset + 4, offset + 4 + length);
+    }
+    offset += 4 + length;
+  }
+  return null;
+}
+
+function parseDosDateTime(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
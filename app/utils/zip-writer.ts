@@ -0,0 +1,251 @@
+import { createReadStream } from 'fs';
+import { Readable, pipeline } from 'stream';
+import { createDeflateRaw } from 'zlib';
+import { crc32 } from './crc32';
+import { ZIP_STORED, ZIP_DEFLATED } from './zip-reader';
+
+// Writes a ZIP archive as a stream, one entry after another, without knowing
+// the whole list or any compressed size up front. Every file entry is followed
+// by a data descriptor carrying its CRC and sizes; ZIP64 records are added
+// only where a size, offset or the entry count needs them.
+
+export interface ZipSource {
+  // Path inside the archive with forward slashes; folders without the trailing slash
+  name: string;
+  isDirectory: boolean;
+  modifiedAt: Date;
+  // Required for files
+  absolutePath?: string;
+  // Expected size of a file, used to decide on ZIP64 before its data is read
+  size?: number;
+  // Store rather than deflate, e.g. for formats that are already compressed
+  store?: boolean;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  isDirectory: boolean;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  crc: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  offset: number;
+  zip64: boolean;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+// Sizes are written after the data; names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+// Unix, so the mode in the external attributes is honoured
+const VERSION_MADE_BY = (3 << 8) | VERSION_ZIP64;
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+// Deflate can grow incompressible data a little; files this close to 4 GB get ZIP64 sizes
+const ZIP64_SIZE_THRESHOLD = MAX_32 - 64 * 1024 * 1024;
+
+const FILE_MODE = 0o100644;
+const DIRECTORY_MODE = 0o040755;
+const MSDOS_DIRECTORY = 0x10;
+
+// The archive for the given entries, chunk by chunk. Stopping the iteration
+// closes the file being read.
+export async function* createZipStream(sources: AsyncIterable<ZipSource>): AsyncGenerator<Buffer> {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const source of sources) {
+    const name = Buffer.from(source.isDirectory ? `${source.name}/` : source.name, 'utf8');
+    const { dosTime, dosDate } = toDosDateTime(source.modifiedAt);
+    const method = source.isDirectory || source.store ? ZIP_STORED : ZIP_DEFLATED;
+    const zip64 = !source.isDirectory && (offset >= MAX_32 || (source.size ?? 0) >= ZIP64_SIZE_THRESHOLD);
+    const record: CentralRecord = {
+      name,
+      isDirectory: source.isDirectory,
+      method,
+      dosTime,
+      dosDate,
+      crc: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      offset,
+      zip64
+    };
+
+    const header = localFileHeader(record);
+    yield header;
+    offset += header.length;
+
+    if (!source.isDirectory) {
+      if (!source.absolutePath) {
+        throw new Error(`No file to read for ${source.name}`);
+      }
+
+      let crc = 0;
+      let uncompressedSize = 0;
+      async function* track(input: Readable): AsyncGenerator<Buffer> {
+        for await (const chunk of input) {
+          crc = crc32(chunk, crc);
+          uncompressedSize += chunk.length;
+          yield chunk;
+        }
+      }
+
+      const input = Readable.from(track(createReadStream(source.absolutePath)));
+      // pipeline destroys every stream on an error, which ends the loop below with it
+      const output = method === ZIP_DEFLATED ? pipeline(input, createDeflateRaw(), () => {}) : input;
+      let compressedSize = 0;
+      for await (const chunk of output) {
+        compressedSize += chunk.length;
+        yield chunk;
+      }
+
+      if (!zip64 && (compressedSize >= MAX_32 || uncompressedSize >= MAX_32)) {
+        throw new Error(`${source.name} grew past 4 GB while it was being archived`);
+      }
+      record.crc = crc;
+      record.compressedSize = compressedSize;
+      record.uncompressedSize = uncompressedSize;
+
+      const descriptor = dataDescriptor(record);
+      yield descriptor;
+      offset += compressedSize + descriptor.length;
+    }
+
+    records.push(record);
+  }
+
+  const centralOffset = offset;
+  for (const record of records) {
+    const header = centralDirectoryHeader(record);
+    yield header;
+    offset += header.length;
+  }
+  yield endOfCentralDirectory(records.length, centralOffset, offset - centralOffset);
+}
+
+function localFileHeader(record: CentralRecord): Buffer {
+  // Sizes are not known yet; a ZIP64 entry says so with an extra field of zeros
+  const extra = record.zip64 ? zip64Extra([0, 0]) : Buffer.alloc(0);
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+  header.writeUInt16LE(record.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(record.isDirectory ? 0x0800 : FLAGS, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.dosTime, 10);
+  header.writeUInt16LE(record.dosDate, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(record.zip64 ? MAX_32 : 0, 18);
+  header.writeUInt32LE(record.zip64 ? MAX_32 : 0, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function dataDescriptor(record: CentralRecord): Buffer {
+  if (record.zip64) {
+    const descriptor = Buffer.alloc(24);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeBigUInt64LE(BigInt(record.compressedSize), 8);
+    descriptor.writeBigUInt64LE(BigInt(record.uncompressedSize), 16);
+    return descriptor;
+  }
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.compressedSize, 8);
+  descriptor.writeUInt32LE(record.uncompressedSize, 12);
+  return descriptor;
+}
+
+function centralDirectoryHeader(record: CentralRecord): Buffer {
+  // ZIP64 fields appear in this order, each only if its 32-bit field is maxed out
+  const zip64Fields: number[] = [];
+  if (record.zip64) zip64Fields.push(record.uncompressedSize, record.compressedSize);
+  if (record.offset >= MAX_32) zip64Fields.push(record.offset);
+  const extra = zip64Fields.length > 0 ? zip64Extra(zip64Fields) : Buffer.alloc(0);
+
+  const mode = record.isDirectory ? DIRECTORY_MODE : FILE_MODE;
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+  header.writeUInt16LE(VERSION_MADE_BY, 4);
+  header.writeUInt16LE(zip64Fields.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(record.isDirectory ? 0x0800 : FLAGS, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(record.dosTime, 12);
+  header.writeUInt16LE(record.dosDate, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.zip64 ? MAX_32 : record.compressedSize, 20);
+  header.writeUInt32LE(record.zip64 ? MAX_32 : record.uncompressedSize, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt16LE(0, 32);
+  header.writeUInt16LE(0, 34);
+  header.writeUInt16LE(0, 36);
+  header.writeUInt32LE(((mode << 16) | (record.isDirectory ? MSDOS_DIRECTORY : 0)) >>> 0, 38);
+  header.writeUInt32LE(Math.min(record.offset, MAX_32), 42);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function endOfCentralDirectory(entryCount: number, centralOffset: number, centralSize: number): Buffer {
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(Math.min(entryCount, MAX_16), 8);
+  end.writeUInt16LE(Math.min(entryCount, MAX_16), 10);
+  end.writeUInt32LE(Math.min(centralSize, MAX_32), 12);
+  end.writeUInt32LE(Math.min(centralOffset, MAX_32), 16);
+
+  if (entryCount < MAX_16 && centralOffset < MAX_32 && centralSize < MAX_32) {
+    return end;
+  }
+
+  // The ZIP64 end record sits right after the central directory, followed by its locator
+  const zip64End = Buffer.alloc(56);
+  zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+  zip64End.writeBigUInt64LE(BigInt(44), 4);
+  zip64End.writeUInt16LE(VERSION_MADE_BY, 12);
+  zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+  zip64End.writeBigUInt64LE(BigInt(entryCount), 24);
+  zip64End.writeBigUInt64LE(BigInt(entryCount), 32);
+  zip64End.writeBigUInt64LE(BigInt(centralSize), 40);
+  zip64End.writeBigUInt64LE(BigInt(centralOffset), 48);
+
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(ZIP64_LOCATOR, 0);
+  locator.writeBigUInt64LE(BigInt(centralOffset + centralSize), 8);
+  locator.writeUInt32LE(1, 16);
+
+  return Buffer.concat([zip64End, locator, end]);
+}
+
+function zip64Extra(values: number[]): Buffer {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(ZIP64_EXTRA_FIELD, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+  return extra;
+}
+
+// MS-DOS timestamps are local time in two-second steps, starting in 1980
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = date.getFullYear();
+  if (year < 1980) {
+    return { dosTime: 0, dosDate: (1 << 5) | 1 };
+  }
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: (Math.min(year - 1980, 127) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
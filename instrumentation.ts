@@ -0,0 +1,12 @@
+// Runs once when the server starts
+export async function register() {
+  // Filesystem setup only makes sense in the Node.js runtime, not on the edge
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureDefaultDirectories } = await import('./app/utils/folder-tree');
+    try {
+      await ensureDefaultDirectories();
+    } catch (error) {
+      console.error('Error creating default directories:', error);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionToken, SESSION_COOKIE } from './app/utils/auth';
+
+// API routes reachable without a session: signing in and the first-run setup
+const PUBLIC_API_ROUTES = [
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/session',
+  '/api/auth/setup'
+];
+
+// Share links are opened by visitors without an account
+const PUBLIC_API_PREFIXES = [
+  '/api/s/'
+];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_API_ROUTES.includes(pathname) || PUBLIC_API_PREFIXES.some(prefix => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  if (pathname !== '/') {
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  runtime: 'nodejs',
+  // Middleware buffers the whole body of non-GET requests, which would defeat
+  // streaming uploads. The /api/upload routes therefore check the session
+  // themselves with requireUser() instead of being matched here.
+  matcher: ['/', '/api/((?!upload(?:/|$)).*)']
+};